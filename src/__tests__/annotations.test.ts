@@ -0,0 +1,107 @@
+import { parseAnnotation, parseAnnotationDiagnostics, formatAnnotation, isErrorAnnotation } from '../parsers/annotations.js';
+import { extractErrors } from '../error-extractor.js';
+
+// ---------------------------------------------------------------------------
+// parseAnnotation
+// ---------------------------------------------------------------------------
+
+describe('parseAnnotation', () => {
+  test('1. Parses file, line, col and title properties', () => {
+    expect(parseAnnotation("::error file=src/a.ts,line=10,col=3,endLine=10,title=Type error::Cannot find name 'x'")).toEqual({
+      level: 'error',
+      file: 'src/a.ts',
+      line: 10,
+      column: 3,
+      title: 'Type error',
+      message: "Cannot find name 'x'",
+    });
+  });
+
+  test('2. Parses warnings and notices, with or without properties', () => {
+    expect(parseAnnotation('::warning file=README.md,line=4::Line too long')).toMatchObject({ level: 'warning', line: 4 });
+    expect(parseAnnotation('::notice::Deployed to staging')).toEqual({ level: 'notice', message: 'Deployed to staging' });
+  });
+
+  test('3. Unescapes %0A newlines in messages and %2C/%3A in properties', () => {
+    expect(parseAnnotation('::error file=a%2Cb.ts,title=Step%3A lint::first%0Asecond%0D%0A100%25')).toEqual({
+      level: 'error',
+      file: 'a,b.ts',
+      title: 'Step: lint',
+      message: 'first\nsecond\n100%',
+    });
+  });
+
+  test('4. Accepts commands after a ##[error] marker and bare properties', () => {
+    expect(parseAnnotation('##[error]::error file=src/a.ts,line=2::boom')).toMatchObject({ file: 'src/a.ts', line: 2 });
+    expect(parseAnnotation('##[warning]file=src/a.ts,line=2::boom')).toMatchObject({ level: 'warning', file: 'src/a.ts' });
+    expect(parseAnnotation('##[error]Process completed with exit code 1.')).toBeNull();
+    expect(parseAnnotation('echo "::error::"')).toBeNull();
+  });
+
+  test('5. isErrorAnnotation only matches errors', () => {
+    expect(isErrorAnnotation('::error::boom')).toBe(true);
+    expect(isErrorAnnotation('::warning::careful')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+describe('parseAnnotationDiagnostics', () => {
+  test('6. Multi-line messages keep their first line as message', () => {
+    expect(parseAnnotationDiagnostics(['setup', '::error file=src/a.ts,line=10,col=3::Expected 1%0A  Received 2'])).toEqual([
+      {
+        message: 'Expected 1',
+        severity: 'error',
+        file: 'src/a.ts',
+        line: 10,
+        column: 3,
+        tool: 'github',
+        details: ['Received 2'],
+        logLine: 1,
+      },
+    ]);
+  });
+
+  test('7. Titles prefix the message unless it already contains them', () => {
+    const diags = parseAnnotationDiagnostics(['::error title=Lint::bad', '::error title=bad::bad input']);
+    expect(diags.map((d) => d.message)).toEqual(['Lint: bad', 'bad input']);
+  });
+
+  test('8. formatAnnotation renders the location and first message line', () => {
+    const annotation = parseAnnotation('::error file=src/a.ts,line=10,col=3::one%0Atwo');
+    expect(annotation && formatAnnotation(annotation)).toBe('##[error]src/a.ts:10:3 - one');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+describe('Annotations in extracted errors', () => {
+  const log = [
+    '##[group]Run npm test',
+    'at Object.<anonymous> (src/other.ts:5:1)',
+    '::error file=/home/runner/work/app/app/src/a.ts,line=10,col=3::Expected 1%0AReceived 2',
+    '##[error]Process completed with exit code 1.',
+    '##[endgroup]',
+  ].join('\n');
+
+  test('9. ::error commands count as error markers, listed readably', () => {
+    const result = extractErrors(log);
+    expect(result.allErrors).toEqual([
+      '##[error]src/a.ts:10:3 - Expected 1',
+      '##[error]Process completed with exit code 1.',
+    ]);
+  });
+
+  test('10. Annotation locations come first in the file paths', () => {
+    const result = extractErrors(log);
+    expect(result.filePaths[0]).toBe('src/a.ts:10:3');
+    expect(result.diagnostics?.find((d) => d.tool === 'github')).toMatchObject({
+      file: 'src/a.ts',
+      details: ['Received 2'],
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { parseCargoDiagnostics, isCargoError } from '../parsers/cargo.js';
+import { extractErrors } from '../error-extractor.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const CARGO_BUILD = [
+  '   Compiling app v0.1.0 (/home/runner/work/app/app)',
+  'error[E0308]: mismatched types',
+  ' --> src/main.rs:4:5',
+  '  |',
+  '3 | fn answer() -> u32 {',
+  '  |                --- expected `u32` because of return type',
+  '4 |     "42"',
+  '  |     ^^^^ expected `u32`, found `&str`',
+  '  |',
+  '  = note: expected type `u32`',
+  '             found reference `&\'static str`',
+  'help: try using a conversion method',
+  '  |',
+  '4 |     "42".parse()',
+  '  |         ++++++++',
+  '',
+  'warning: unused variable: `x`',
+  '  --> src/lib.rs:12:9',
+  '   |',
+  '12 |     let x = 1;',
+  '   |         ^ help: if this is intentional, prefix it with an underscore: `_x`',
+  '   |',
+  '   = note: `#[warn(unused_variables)]` on by default',
+  '',
+  'error[E0061]: this function takes 2 arguments but 1 argument was supplied',
+  '  --> src/main.rs:9:5',
+  '   |',
+  '9  |     add(1);',
+  '   |     ^^^--- an argument of type `i32` is missing',
+  '   |',
+  'note: function defined here',
+  '  --> src/math.rs:1:8',
+  '   |',
+  '1  | pub fn add(a: i32, b: i32) -> i32 {',
+  '   |        ^^^',
+  '',
+  'error: could not compile `app` (bin "app") due to 2 previous errors; 1 warning emitted',
+];
+
+const CARGO_TEST = [
+  'running 2 tests',
+  'test tests::adds ... FAILED',
+  'test tests::subtracts ... ok',
+  '',
+  'failures:',
+  '',
+  '---- tests::adds stdout ----',
+  "thread 'tests::adds' panicked at src/lib.rs:10:5:",
+  'assertion `left == right` failed',
+  '  left: 4',
+  ' right: 5',
+  'note: run with `RUST_BACKTRACE=1` environment variable to display a backtrace',
+  '',
+  '',
+  'failures:',
+  '    tests::adds',
+  '',
+  'test result: FAILED. 1 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out',
+];
+
+// ---------------------------------------------------------------------------
+// rustc errors
+// ---------------------------------------------------------------------------
+
+describe('parseCargoDiagnostics - rustc errors', () => {
+  test('1. One diagnostic per block, with code, primary span, notes and help', () => {
+    const [first] = parseCargoDiagnostics(CARGO_BUILD);
+    expect(first).toEqual({
+      message: 'mismatched types',
+      severity: 'error',
+      file: 'src/main.rs',
+      line: 4,
+      column: 5,
+      tool: 'cargo',
+      code: 'E0308',
+      details: ['note: expected type `u32`', 'help: try using a conversion method'],
+      logLine: 1,
+    });
+  });
+
+  test('2. Warnings are kept with warning severity', () => {
+    const diags = parseCargoDiagnostics(CARGO_BUILD);
+    expect(diags[1]).toMatchObject({
+      severity: 'warning',
+      file: 'src/lib.rs',
+      line: 12,
+      message: 'unused variable: `x`',
+      details: ['note: `#[warn(unused_variables)]` on by default'],
+    });
+    expect(diags[1].code).toBeUndefined();
+  });
+
+  test('3. Sub-diagnostic spans are appended to their note', () => {
+    const diags = parseCargoDiagnostics(CARGO_BUILD);
+    expect(diags[2]).toMatchObject({ code: 'E0061', file: 'src/main.rs', line: 9 });
+    expect(diags[2].details).toEqual(['note: function defined here (src/math.rs:1:8)']);
+  });
+
+  test('4. Summary lines without a span are not diagnostics', () => {
+    expect(parseCargoDiagnostics(CARGO_BUILD)).toHaveLength(3);
+    expect(parseCargoDiagnostics(['error: aborting due to 2 previous errors'])).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// cargo test panics
+// ---------------------------------------------------------------------------
+
+describe('parseCargoDiagnostics - panics', () => {
+  test('5. Parses the panic location, test name and assertion', () => {
+    const diags = parseCargoDiagnostics(CARGO_TEST);
+    expect(diags).toEqual([
+      {
+        message: 'assertion `left == right` failed',
+        severity: 'error',
+        file: 'src/lib.rs',
+        line: 10,
+        column: 5,
+        tool: 'cargo',
+        code: 'panic',
+        test: 'tests::adds',
+        details: ['left: 4', 'right: 5'],
+        logLine: 7,
+      },
+    ]);
+  });
+
+  test('6. Parses the pre-1.73 format; main thread panics are not tests', () => {
+    const [diag] = parseCargoDiagnostics([
+      "thread 'main' panicked at 'called `Option::unwrap()` on a `None` value', src/main.rs:4:37",
+    ]);
+    expect(diag).toMatchObject({
+      message: 'called `Option::unwrap()` on a `None` value',
+      file: 'src/main.rs',
+      line: 4,
+      column: 37,
+    });
+    expect(diag.test).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Heuristics and extraction
+// ---------------------------------------------------------------------------
+
+describe('Rust errors in extracted errors', () => {
+  test('7. isCargoError recognizes coded errors and panics', () => {
+    expect(isCargoError('error[E0308]: mismatched types')).toBe(true);
+    expect(isCargoError("thread 'tests::adds' panicked at src/lib.rs:10:5:")).toBe(true);
+    expect(isCargoError('warning: unused variable: `x`')).toBe(false);
+  });
+
+  test('8. Error codes survive into the extracted diagnostics and lead the file paths', () => {
+    const result = extractErrors(CARGO_BUILD.join('\n'));
+    const cargo = result.diagnostics?.filter((d) => d.tool === 'cargo') ?? [];
+    expect(cargo.map((d) => d.code)).toEqual(['E0308', undefined, 'E0061']);
+    expect(result.filePaths[0]).toBe('src/main.rs:4:5');
+  });
+});
@@ -0,0 +1,152 @@
+import { findConfigFiles, loadConfigFiles, mergeConfigs, readConfigFile, validateConfig } from '../config.js';
+import { extractErrors, extractFilePaths } from '../error-extractor.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+
+// ---------------------------------------------------------------------------
+// validateConfig
+// ---------------------------------------------------------------------------
+
+describe('validateConfig', () => {
+  test('1. Accepts every documented key', () => {
+    const config = validateConfig(
+      {
+        provider: 'gitlab',
+        gitlabUrl: 'https://gitlab.example.com',
+        pathPrefixes: ['./services/', 'modules/core'],
+        errorPatterns: ['^FATAL '],
+        context: { fileRadius: 10, maxFiles: 2, errorLines: 80 },
+        redact: true,
+        redactPatterns: ['acme_[a-z0-9]+'],
+        template: 'minimal',
+        format: 'json',
+      },
+      '/home/me/.failpromptrc',
+      true
+    );
+    expect(config).toEqual({
+      provider: 'gitlab',
+      gitlabUrl: 'https://gitlab.example.com',
+      pathPrefixes: ['services', 'modules/core'],
+      errorPatterns: ['^FATAL '],
+      context: { fileRadius: 10, maxFiles: 2, errorLines: 80 },
+      redact: true,
+      redactPatterns: ['acme_[a-z0-9]+'],
+      template: 'minimal',
+      format: 'json',
+    });
+  });
+
+  test('2. Errors name the file and the offending key', () => {
+    const source = '/repo/.failpromptrc';
+    expect(() => validateConfig({ contxt: {} }, source)).toThrow('/repo/.failpromptrc: unknown key "contxt" (known keys: provider,');
+    expect(() => validateConfig({ provider: 'jenkins' }, source)).toThrow('"provider" must be "github", "gitlab" or "auto", got string "jenkins"');
+    expect(() => validateConfig({ context: { fileRadius: -1 } }, source)).toThrow('"context.fileRadius" must be a whole number of 0 or more');
+    expect(() => validateConfig({ context: { radius: 1 } }, source)).toThrow('context: unknown key "radius"');
+    expect(() => validateConfig({ errorPatterns: ['(unclosed'] }, source)).toThrow('"errorPatterns[0]" is not a valid regular expression');
+    expect(() => validateConfig({ redactPatterns: 'x' }, source)).toThrow('"redactPatterns" must be a list of strings');
+    expect(() => validateConfig({ pathPrefixes: ['../outside'] }, source)).toThrow('"pathPrefixes[0]" must be a relative directory');
+    expect(() => validateConfig({ apiUrl: 'github.example.com' }, source, true)).toThrow('"apiUrl" must be an http(s) URL');
+    expect(() => validateConfig([], source)).toThrow('the config must be a JSON object, got a list');
+  });
+
+  test('3. mergeConfigs: later scalars win, lists add up, context merges per key', () => {
+    const merged = mergeConfigs([
+      { provider: 'github', errorPatterns: ['^A'], context: { fileRadius: 10, maxFiles: 2 } },
+      { provider: 'gitlab', errorPatterns: ['^B', '^A'], context: { maxFiles: 8 } },
+      { format: 'json' },
+    ]);
+    expect(merged).toEqual({
+      provider: 'gitlab',
+      errorPatterns: ['^A', '^B'],
+      context: { fileRadius: 10, maxFiles: 8 },
+      format: 'json',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Config files on disk
+// ---------------------------------------------------------------------------
+
+describe('config files', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(os.tmpdir(), 'failprompt-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test('4. Files are found from the start directory upward, with the home directory first', () => {
+    const home = join(root, 'home');
+    const repo = join(root, 'repo');
+    const pkg = join(repo, 'packages', 'api');
+    mkdirSync(home, { recursive: true });
+    mkdirSync(pkg, { recursive: true });
+    writeFileSync(join(home, '.failpromptrc'), JSON.stringify({ provider: 'github', format: 'json' }));
+    writeFileSync(join(repo, 'failprompt.config.json'), JSON.stringify({ provider: 'gitlab' }));
+
+    expect(findConfigFiles(pkg, home)).toEqual([join(home, '.failpromptrc'), join(repo, 'failprompt.config.json')]);
+    const merged = mergeConfigs(loadConfigFiles(pkg, home).map((file) => file.config));
+    expect(merged).toEqual({ provider: 'gitlab', format: 'json' });
+  });
+
+  test('5. Invalid JSON is reported with the file path; template files resolve next to the config', () => {
+    const bad = join(root, '.failpromptrc');
+    writeFileSync(bad, '{ "provider": "github", }');
+    expect(() => readConfigFile(bad)).toThrow(`${bad}: not valid JSON`);
+
+    const good = join(root, 'failprompt.config.json');
+    writeFileSync(join(root, 'prompt.tpl'), '{{repo}}');
+    writeFileSync(good, JSON.stringify({ template: 'prompt.tpl' }));
+    expect(readConfigFile(good, true).template).toBe(join(root, 'prompt.tpl'));
+  });
+
+  test('7. Only the home directory config may set API hosts and template files', () => {
+    const home = join(root, 'home');
+    const repo = join(root, 'repo');
+    mkdirSync(home);
+    mkdirSync(repo);
+    writeFileSync(join(home, '.failpromptrc'), JSON.stringify({ apiUrl: 'https://ghe.example.com/api/v3' }));
+    writeFileSync(join(repo, 'prompt.tpl'), '{{repo}}');
+
+    writeFileSync(join(repo, '.failpromptrc'), JSON.stringify({ template: 'minimal' }));
+    expect(mergeConfigs(loadConfigFiles(repo, home).map((file) => file.config))).toEqual({
+      apiUrl: 'https://ghe.example.com/api/v3',
+      template: 'minimal',
+    });
+
+    writeFileSync(join(repo, '.failpromptrc'), JSON.stringify({ apiUrl: 'https://evil.example.com' }));
+    expect(() => loadConfigFiles(repo, home)).toThrow('"apiUrl" is only accepted in the config file in your home directory');
+    writeFileSync(join(repo, '.failpromptrc'), JSON.stringify({ gitlabUrl: 'https://evil.example.com' }));
+    expect(() => loadConfigFiles(repo, home)).toThrow('"gitlabUrl" is only accepted');
+    writeFileSync(join(repo, '.failpromptrc'), JSON.stringify({ template: 'prompt.tpl' }));
+    expect(() => loadConfigFiles(repo, home)).toThrow('"template" may only name a preset');
+    writeFileSync(join(repo, '.failpromptrc'), JSON.stringify({ redact: false }));
+    expect(() => loadConfigFiles(repo, home)).toThrow('"redact": false is only accepted in the config file in your home directory');
+    writeFileSync(join(repo, '.failpromptrc'), JSON.stringify({ redact: true }));
+    expect(loadConfigFiles(repo, home).map((file) => file.config)).toContainEqual({ redact: true });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Config settings in extraction
+// ---------------------------------------------------------------------------
+
+describe('config settings in extraction', () => {
+  test('6. Extra path prefixes and error patterns are picked up', () => {
+    expect(extractFilePaths(['Error in services/billing/invoice.ts:12:3'])).toEqual([]);
+    expect(extractFilePaths(['Error in services/billing/invoice.ts:12:3'], [], undefined, ['services'])).toEqual([
+      'services/billing/invoice.ts:12:3',
+    ]);
+
+    const log = 'step 1\nKABOOM services/billing/invoice.ts:12 went wrong\nstep 2';
+    const result = extractErrors(log, 'auto', { pathPrefixes: ['services'], errorPatterns: [/^KABOOM /] });
+    expect(result.allErrors).toEqual(['KABOOM services/billing/invoice.ts:12 went wrong']);
+    expect(result.filePaths).toContain('services/billing/invoice.ts:12');
+  });
+});
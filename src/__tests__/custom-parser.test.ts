@@ -0,0 +1,80 @@
+import { compileLinePatterns, CUSTOM_TOOL, parseCustomDiagnostics } from '../parsers/custom.js';
+import { validateConfig } from '../config.js';
+import { extractErrors } from '../error-extractor.js';
+
+const DEPLOY = /^DEPLOY FAILED (?<file>\S+?):(?<line>\d+)(?::(?<column>\d+))? (?<message>.+)$/;
+
+// ---------------------------------------------------------------------------
+// compileLinePatterns / parseCustomDiagnostics
+// ---------------------------------------------------------------------------
+
+describe('compileLinePatterns', () => {
+  test('1. Rejects invalid regexes and unknown groups in error patterns', () => {
+    expect(() => compileLinePatterns(['(unclosed'], 'error')).toThrow('Invalid error pattern "(unclosed":');
+    expect(() => compileLinePatterns(['(?<lineno>\\d+)'], 'error')).toThrow(
+      'unknown group "lineno" (use file, line, column, message)'
+    );
+    expect(() => compileLinePatterns(['(?<why>.+)'], 'ignore')).not.toThrow();
+    expect(() => compileLinePatterns(['(?<=x)y', '(?<!x)y'], 'error')).not.toThrow();
+  });
+
+  test('2. The config file checks group names too', () => {
+    expect(() => validateConfig({ errorPatterns: ['(?<path>\\S+)'] }, '/repo/.failpromptrc')).toThrow(
+      '/repo/.failpromptrc: "errorPatterns[0]" has an unknown group "path"'
+    );
+    expect(validateConfig({ ignorePatterns: ['^warning: '] }, '/repo/.failpromptrc')).toEqual({
+      ignorePatterns: ['^warning: '],
+    });
+  });
+});
+
+describe('parseCustomDiagnostics', () => {
+  test('3. Named groups give the location and message', () => {
+    const lines = ['deploying', '##[error]DEPLOY FAILED infra/main.tf:12:5 bucket name taken', 'DEPLOY FAILED x.tf:3 quota'];
+    expect(parseCustomDiagnostics(lines, [DEPLOY])).toEqual([
+      { message: 'bucket name taken', severity: 'error', file: 'infra/main.tf', line: 12, column: 5, tool: CUSTOM_TOOL, details: [], logLine: 1 },
+      { message: 'quota', severity: 'error', file: 'x.tf', line: 3, tool: CUSTOM_TOOL, details: [], logLine: 2 },
+    ]);
+  });
+
+  test('4. Patterns without named groups yield no diagnostics', () => {
+    expect(parseCustomDiagnostics(['DEPLOY FAILED'], [/^DEPLOY FAILED/])).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Error and ignore patterns in extraction
+// ---------------------------------------------------------------------------
+
+describe('extractErrors with error and ignore patterns', () => {
+  test('5. An error pattern finds the root cause on the heuristic path', () => {
+    const log = ['terraform apply', 'DEPLOY FAILED infra/main.tf:12 bucket name taken', 'done'].join('\n');
+    const result = extractErrors(log, 'auto', { errorPatterns: [DEPLOY] });
+    expect(result.allErrors).toEqual(['DEPLOY FAILED infra/main.tf:12 bucket name taken']);
+    expect(result.diagnostics).toMatchObject([{ tool: CUSTOM_TOOL, file: 'infra/main.tf', line: 12, message: 'bucket name taken' }]);
+    expect(result.filePaths[0]).toBe('infra/main.tf:12');
+  });
+
+  test('6. On the ##[error] path, pattern lines join the markers and can win the ranking', () => {
+    const log = [
+      '##[group]Deploy',
+      'DEPLOY FAILED infra/main.tf:12 bucket name taken',
+      '##[error]Process completed with exit code 1.',
+      '##[endgroup]',
+    ].join('\n');
+    const result = extractErrors(log, 'github', { errorPatterns: [DEPLOY] });
+    expect(result.allErrors).toHaveLength(2);
+    expect(result.rankedErrors?.[0]?.text).toBe('DEPLOY FAILED infra/main.tf:12 bucket name taken');
+  });
+
+  test('7. Ignore patterns suppress lines on both paths', () => {
+    const heuristic = ['Error: cleanup of /tmp/cache failed', 'Error: Cannot find module "left-pad"'].join('\n');
+    const plain = extractErrors(heuristic, 'auto', { ignorePatterns: [/cleanup of/] });
+    expect(plain.allErrors).toEqual(['Error: Cannot find module "left-pad"']);
+
+    const marked = ['##[error]Error: cleanup of /tmp/cache failed', '##[error]Type check failed'].join('\n');
+    const github = extractErrors(marked, 'github', { ignorePatterns: [/^Error: cleanup of/] });
+    expect(github.allErrors).toEqual(['##[error]Type check failed']);
+    expect(github.rankedErrors?.map((r) => r.text)).toEqual(['##[error]Type check failed']);
+  });
+});
@@ -0,0 +1,140 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseDockerDiagnostics, isDockerError } from '../parsers/docker.js';
+import { extractErrors } from '../error-extractor.js';
+import { readFileContext } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const BUILDKIT = [
+  '#1 [internal] load build definition from Dockerfile',
+  '#1 transferring dockerfile: 512B done',
+  '#1 DONE 0.0s',
+  '#10 [builder 3/7] COPY package*.json ./',
+  '#10 DONE 0.1s',
+  '#11 [runtime 2/3] RUN apk add --no-cache curl',
+  '#12 [builder 4/7] RUN npm ci',
+  '#11 0.301 fetch https://dl-cdn.alpinelinux.org/alpine/v3.19/main/x86_64/APKINDEX.tar.gz',
+  '#12 0.512 npm ERR! code ERESOLVE',
+  '#12 0.513 npm ERR! ERESOLVE unable to resolve dependency tree',
+  '#11 0.902 OK: 12 MiB in 20 packages',
+  '#11 DONE 1.0s',
+  '#12 ERROR: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1',
+  '------',
+  ' > [builder 4/7] RUN npm ci:',
+  '0.512 npm ERR! code ERESOLVE',
+  '------',
+  'Dockerfile:12',
+  '--------------------',
+  '  11 |     COPY package*.json ./',
+  '  12 | >>> RUN npm ci',
+  '  13 |     COPY . .',
+  '--------------------',
+  'ERROR: failed to solve: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1',
+];
+
+const CLASSIC = [
+  'Step 1/7 : FROM node:20 AS builder',
+  ' ---> 1a2b3c4d5e6f',
+  'Step 2/7 : WORKDIR /app',
+  ' ---> Running in 2b3c4d5e6f7a',
+  'Removing intermediate container 2b3c4d5e6f7a',
+  'Step 3/7 : RUN npm ci',
+  ' ---> Running in 3c4d5e6f7a8b',
+  'npm ERR! code ENOENT',
+  'npm ERR! enoent Could not read package.json',
+  "The command '/bin/sh -c npm ci' returned a non-zero code: 254",
+];
+
+// ---------------------------------------------------------------------------
+// BuildKit
+// ---------------------------------------------------------------------------
+
+describe('parseDockerDiagnostics - BuildKit', () => {
+  test('1. Names the failing instruction and stage, located in the Dockerfile', () => {
+    const [diag] = parseDockerDiagnostics(BUILDKIT);
+    expect(diag).toMatchObject({
+      message: '[builder 4/7] RUN npm ci: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1',
+      file: 'Dockerfile',
+      line: 12,
+      tool: 'docker',
+      code: 'RUN',
+      logLine: 23,
+    });
+  });
+
+  test('2. Keeps only the failing step\'s output, without timestamps', () => {
+    const [diag] = parseDockerDiagnostics(BUILDKIT);
+    expect(diag.details).toEqual(['npm ERR! code ERESOLVE', 'npm ERR! ERESOLVE unable to resolve dependency tree']);
+  });
+
+  test('3. Single-stage builds and logs without a Dockerfile location', () => {
+    const [diag] = parseDockerDiagnostics([
+      '#5 [2/3] RUN make',
+      '#5 1.2 make: *** [all] Error 2',
+      '#5 ERROR: process "/bin/sh -c make" did not complete successfully: exit code: 2',
+    ]);
+    expect(diag.message).toMatch(/^\[2\/3\] RUN make: /);
+    expect(diag.file).toBe('Dockerfile');
+    expect(diag.line).toBeUndefined();
+  });
+
+  test('4. Successful builds produce nothing', () => {
+    expect(parseDockerDiagnostics(BUILDKIT.filter((l) => !l.includes('ERROR')))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Classic builder
+// ---------------------------------------------------------------------------
+
+describe('parseDockerDiagnostics - classic builder', () => {
+  test('5. Names the failing step, its stage and its output', () => {
+    expect(parseDockerDiagnostics(CLASSIC)).toEqual([
+      {
+        message: '[builder 3/7] RUN npm ci: exit code: 254',
+        severity: 'error',
+        file: 'Dockerfile',
+        tool: 'docker',
+        code: 'RUN',
+        details: ['npm ERR! code ENOENT', 'npm ERR! enoent Could not read package.json'],
+        logLine: 9,
+      },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Heuristics, extraction and source context
+// ---------------------------------------------------------------------------
+
+describe('Docker builds in extracted errors', () => {
+  test('6. isDockerError recognizes step errors and classic failures', () => {
+    expect(isDockerError('#12 ERROR: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1')).toBe(true);
+    expect(isDockerError("The command '/bin/sh -c make' returned a non-zero code: 2")).toBe(true);
+    expect(isDockerError('#12 0.512 npm ERR! code ERESOLVE')).toBe(false);
+  });
+
+  test('7. The failing step replaces the bare "failed to solve" line as the located error', () => {
+    const result = extractErrors(BUILDKIT.join('\n'));
+    const docker = result.diagnostics?.find((d) => d.tool === 'docker');
+    expect(docker?.message).toContain('[builder 4/7] RUN npm ci');
+    expect(result.filePaths[0]).toBe('Dockerfile:12');
+  });
+
+  test('8. Dockerfiles are read with the dockerfile language tag', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'failprompt-docker-'));
+    const cwd = process.cwd();
+    try {
+      writeFileSync(join(dir, 'Dockerfile'), 'FROM node:20\nRUN npm ci\n');
+      process.chdir(dir);
+      expect(readFileContext('Dockerfile:2')).toMatchObject({ extension: 'dockerfile' });
+    } finally {
+      process.chdir(cwd);
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
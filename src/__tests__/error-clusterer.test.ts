@@ -0,0 +1,104 @@
+import { clusterErrors, errorSignature } from '../error-clusterer.js';
+import { extractErrors } from '../error-extractor.js';
+import { buildPrompt } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// errorSignature
+// ---------------------------------------------------------------------------
+
+describe('errorSignature', () => {
+  test('1. Paths, positions, quoted names and numbers are normalized', () => {
+    expect(errorSignature("##[error]src/a.ts(3,1): error TS2304: Cannot find name 'foo'.")).toBe(
+      errorSignature("src/lib/b.ts(120,17): error TS2304: Cannot find name 'barBaz'.")
+    );
+    expect(errorSignature('pkg/db/conn.go:31:2: undefined: "sql.Open"')).toBe(
+      errorSignature('cmd/api/main.go:7:10: undefined: "http.Get"')
+    );
+    expect(errorSignature('Expected 3 arguments, but got 2.')).toBe('Expected <n> arguments, but got <n>.');
+  });
+
+  test('2. Error codes and wording still tell errors apart', () => {
+    expect(errorSignature("src/a.ts(3,1): error TS2304: Cannot find name 'x'.")).not.toBe(
+      errorSignature("src/a.ts(3,1): error TS2552: Cannot find name 'x'.")
+    );
+    expect(errorSignature('Deployment failed: timeout')).not.toBe(errorSignature('Deployment failed: quota'));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// clusterErrors
+// ---------------------------------------------------------------------------
+
+describe('clusterErrors', () => {
+  test('3. Groups by signature in order of first appearance, with distinct files', () => {
+    const clusters = clusterErrors([
+      { message: "src/a.ts:1:1 - Property 'id' does not exist", file: 'src/a.ts' },
+      { message: 'Process completed with exit code 2.' },
+      { message: "src/b.ts:9:4 - Property 'name' does not exist", file: 'src/b.ts' },
+      { message: "src/a.ts:30:2 - Property 'age' does not exist", file: 'src/a.ts' },
+    ]);
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toMatchObject({
+      representative: "src/a.ts:1:1 - Property 'id' does not exist",
+      count: 3,
+      files: ['src/a.ts', 'src/b.ts'],
+    });
+    expect(clusters[1]).toMatchObject({ count: 1, files: [] });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Extraction and rendering
+// ---------------------------------------------------------------------------
+
+describe('error clusters in extraction and prompts', () => {
+  const log = [
+    '##[group]Run npx tsc --noEmit',
+    ...Array.from({ length: 8 }, (_, i) =>
+      `##[error]src/file${String(i % 7)}.ts(${String(i + 1)},5): error TS2339: Property 'x${String(i)}' does not exist on type 'User'.`
+    ),
+    '##[error]Process completed with exit code 2.',
+    '##[endgroup]',
+  ].join('\n');
+
+  test('4. extractErrors clusters allErrors with the files of their diagnostics', () => {
+    const result = extractErrors(log);
+    expect(result.allErrors).toHaveLength(9);
+    expect(result.errorClusters).toHaveLength(2);
+    const [cluster] = result.errorClusters ?? [];
+    expect(cluster.count).toBe(8);
+    expect(cluster.files).toEqual(Array.from({ length: 7 }, (_, i) => `src/file${String(i)}.ts`));
+  });
+
+  test('5. All Errors shows one entry per cluster with its count and files', () => {
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: false, error: extractErrors(log) });
+    const section = prompt.split('## All Errors')[1].split('## Error')[0];
+    const bullets = section.split('\n').filter((l) => l.startsWith('- '));
+    expect(bullets).toHaveLength(2);
+    expect(bullets[0]).toContain("Property 'x0' does not exist");
+    expect(bullets[0]).toContain('_(8 occurrences in `src/file0.ts`, `src/file1.ts`, `src/file2.ts`, `src/file3.ts`, `src/file4.ts` and 2 more files)_');
+    expect(bullets[1]).toBe('- ##[error]Process completed with exit code 2.');
+  });
+  test('6. Diagnostics fold repeats when only the exit code line is marked', () => {
+    const plain = [
+      '##[group]Run npx tsc --noEmit',
+      ...Array.from({ length: 12 }, (_, i) =>
+        `src/file${String(i % 7)}.ts(${String(i + 1)},5): error TS2339: Property 'x${String(i)}' does not exist on type 'User'.`
+      ),
+      "src/api.ts(3,1): error TS2304: Cannot find name 'fetchUser'.",
+      '##[error]Process completed with exit code 2.',
+      '##[endgroup]',
+    ].join('\n');
+    const error = extractErrors(plain);
+    expect(error.allErrors).toEqual(['##[error]Process completed with exit code 2.']);
+
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: false, error });
+    const section = prompt.split('### Diagnostics')[1].split('### Task')[0];
+    const entries = section.split('\n').filter((l) => l.startsWith('**`'));
+    expect(entries).toEqual([
+      "**`src/file0.ts:1:5`** - TS2339: Property 'x0' does not exist on type 'User'. _(12 occurrences in `src/file0.ts`, `src/file1.ts`, `src/file2.ts`, `src/file3.ts`, `src/file4.ts` and 2 more files)_",
+      "**`src/api.ts:3:1`** - TS2304: Cannot find name 'fetchUser'.",
+    ]);
+    expect(section).not.toContain('more diagnostics not shown');
+  });
+});
@@ -1,4 +1,4 @@
-import { extractErrors, extractFilePaths, normalizeGitLabLog } from '../error-extractor.js';
+import { extractErrors, extractErrorsByJob, extractFilePaths, normalizeGitLabLog } from '../error-extractor.js';
 
 // ---------------------------------------------------------------------------
 // Fixture logs
@@ -488,3 +488,104 @@ describe('extractFilePaths - monorepo and extended patterns (T-006)', () => {
     expect(paths.some((p) => p.includes('packages/cli/src/runner.ts'))).toBe(true);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Per-job extraction for multi-job gh logs
+// ---------------------------------------------------------------------------
+
+const GH_MATRIX_LOG = [
+  'test (18)\tRun tests\t2024-01-15T10:00:00.0000000Z ##[group]Run npm test',
+  'test (18)\tRun tests\t2024-01-15T10:00:01.0000000Z FAIL src/a.test.ts',
+  'test (18)\tRun tests\t2024-01-15T10:00:02.0000000Z ##[error]Process completed with exit code 1.',
+  'lint\tRun eslint\t2024-01-15T10:00:03.0000000Z ##[group]Run npx eslint .',
+  'lint\tRun eslint\t2024-01-15T10:00:04.0000000Z src/b.ts:3:1 error no-console',
+  'lint\tRun eslint\t2024-01-15T10:00:05.0000000Z ##[error]Process completed with exit code 1.',
+  'test (20)\tRun tests\t2024-01-15T10:00:06.0000000Z ##[group]Run npm test',
+  'test (20)\tRun tests\t2024-01-15T10:00:07.0000000Z FAIL src/c.test.ts',
+  'test (20)\tRun tests\t2024-01-15T10:00:08.0000000Z ##[error]Process completed with exit code 1.',
+].join('\n');
+
+describe('extractErrorsByJob', () => {
+  test('48. Returns one result per job in order of appearance', () => {
+    const results = extractErrorsByJob(GH_MATRIX_LOG);
+    expect(results.map((r) => r.jobName)).toEqual(['test (18)', 'lint', 'test (20)']);
+  });
+
+  test('49. Each job result only contains that job\'s lines', () => {
+    const [node18, lint, node20] = extractErrorsByJob(GH_MATRIX_LOG);
+    expect(node18.fullContext).toContain('src/a.test.ts');
+    expect(node18.fullContext).not.toContain('src/c.test.ts');
+    expect(lint.stepName).toBe('Run eslint');
+    expect(lint.filePaths).toContain('src/b.ts:3:1');
+    expect(node20.allErrors).toHaveLength(1);
+    expect(node20.filePaths).toEqual(['src/c.test.ts']);
+  });
+
+  test('50. A log with a single job yields one result with the job name', () => {
+    const singleJob = GH_MATRIX_LOG.split('\n').slice(3, 6).join('\n');
+    const results = extractErrorsByJob(singleJob);
+    expect(results).toHaveLength(1);
+    expect(results[0]?.jobName).toBe('lint');
+  });
+
+  test('51. A log without job columns yields one result without a job name', () => {
+    const results = extractErrorsByJob(MATRIX_ERROR_LOG);
+    expect(results).toHaveLength(1);
+    expect(results[0]?.jobName).toBeUndefined();
+    expect(results[0]?.allErrors).toHaveLength(3);
+  });
+
+  test('56. Raw go test output with tab-separated columns is not split into jobs', () => {
+    const log = [
+      '=== RUN   TestConnect',
+      '--- FAIL: TestConnect (0.00s)',
+      '    conn_test.go:14: dial tcp: connection refused',
+      'FAIL',
+      'FAIL\texample.com/app/internal/db\t0.012s',
+      'ok  \texample.com/app/internal/api\t0.004s',
+    ].join('\n');
+    const results = extractErrorsByJob(log);
+    expect(results).toHaveLength(1);
+    expect(results[0]?.jobName).toBeUndefined();
+    expect(results[0]?.fullContext).toContain('FAIL\texample.com/app/internal/db\t0.012s');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Structured diagnostics
+// ---------------------------------------------------------------------------
+
+describe('extractErrors - diagnostics', () => {
+  test('52. Parses tool output wrapped in ##[error] into a located diagnostic', () => {
+    const result = extractErrors(LOG_WITH_FILE_PATH);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics?.[0]).toMatchObject({
+      severity: 'error',
+      file: 'src/index.ts',
+      line: 42,
+      column: 10,
+      tool: 'tsc',
+      code: 'TS2345',
+      step: 'Run build',
+    });
+  });
+
+  test('53. Diagnostics without a location keep the message only', () => {
+    const result = extractErrors(SIMPLE_LOG);
+    expect(result.diagnostics?.[0]).toMatchObject({
+      message: 'Process completed with exit code 1.',
+      step: 'Run npm test',
+    });
+    expect(result.diagnostics?.[0]?.file).toBeUndefined();
+  });
+
+  test('54. Diagnostics carry the job and step from gh log columns', () => {
+    const results = extractErrorsByJob(GH_MATRIX_LOG);
+    const lint = results.find((r) => r.jobName === 'lint');
+    expect(lint?.diagnostics?.map((d) => [d.job, d.step])).toEqual([['lint', 'Run eslint']]);
+  });
+
+  test('55. Empty logs have no diagnostics', () => {
+    expect(extractErrors(EMPTY_LOG).diagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { rankErrorLines, formatScoredLine, SCORE_WEIGHTS } from '../error-ranker.js';
+import type { Diagnostic } from '../diagnostic.js';
+import { extractErrors } from '../error-extractor.js';
+
+// ---------------------------------------------------------------------------
+// rankErrorLines
+// ---------------------------------------------------------------------------
+
+describe('rankErrorLines', () => {
+  test('1. Exit-code noise ranks below a located error', () => {
+    const lines = [
+      "src/a.ts:10:5 - error: Cannot find name 'foo'",
+      '##[error]Process completed with exit code 1.',
+    ];
+    const [best, worst] = rankErrorLines(lines, [0, 1]);
+    expect(best.logLine).toBe(0);
+    expect(worst.factors).toContainEqual({ reason: 'exit-code noise', points: SCORE_WEIGHTS.exitCodeNoise });
+  });
+
+  test('2. Tool diagnostics and annotations earn their own factors', () => {
+    const lines = ['src/a.ts(3,1): error TS2304', '::error file=src/b.ts,line=2::y'];
+    const diagnostics: Diagnostic[] = [
+      { message: 'x', severity: 'error', file: 'src/a.ts', line: 3, tool: 'tsc', code: 'TS2304', details: [], logLine: 0 },
+      { message: 'y', severity: 'error', file: 'src/b.ts', line: 2, tool: 'github', details: [], logLine: 1 },
+    ];
+    const ranked = rankErrorLines(lines, [0, 1], diagnostics);
+    expect(ranked.map((r) => r.logLine)).toEqual([1, 0]);
+    expect(ranked[0].factors.map((f) => f.reason)).toEqual(['annotation with location', 'file location']);
+    expect(ranked[1].factors.map((f) => f.reason)).toEqual(['tsc diagnostic', 'file location', 'error code']);
+  });
+
+  test('3. Warnings lose points', () => {
+    const diagnostics: Diagnostic[] = [
+      { message: 'w', severity: 'warning', file: 'src/a.ts', line: 1, tool: 'eslint', details: [], logLine: 0 },
+    ];
+    const [scored] = rankErrorLines(['src/a.ts:1:1 warning w'], [0], diagnostics);
+    expect(scored.factors).toContainEqual({ reason: 'warning', points: SCORE_WEIGHTS.warning });
+  });
+
+  test('4. Ties go to the later line; duplicates are scored once', () => {
+    const lines = ['Error: first failure here', 'Error: second failure here'];
+    expect(rankErrorLines(lines, [0, 1, 1]).map((r) => r.logLine)).toEqual([1, 0]);
+  });
+
+  test('5. formatScoredLine lists the factors with signs', () => {
+    const [scored] = rankErrorLines(['##[error]Process completed with exit code 1.'], [0]);
+    expect(formatScoredLine(scored)).toBe(
+      '-50 (line 1): ##[error]Process completed with exit code 1. [descriptive message +10, exit-code noise -60]'
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Integration with extractErrors
+// ---------------------------------------------------------------------------
+
+describe('Root cause selection in extractErrors', () => {
+  const filler = Array.from({ length: 40 }, (_, i) => `  compiling module ${String(i)}`);
+  const log = [
+    '##[group]Build',
+    "src/server.ts(12,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+    ...filler,
+    '##[endgroup]',
+    '##[group]Upload artifacts',
+    'Uploading 0 files',
+    '##[error]Process completed with exit code 2.',
+    '##[endgroup]',
+  ].join('\n');
+
+  test('6. Focuses the context on the compiler error, not the final exit code', () => {
+    const result = extractErrors(log);
+    expect(result.stepName).toBe('Build');
+    expect(result.fullContext).toContain('error TS2322');
+    expect(result.rankedErrors?.[0]).toMatchObject({ logLine: 1 });
+  });
+
+  test('7. The final error line is still listed after the context', () => {
+    const result = extractErrors(log);
+    expect(result.errorLines[result.errorLines.length - 1]).toBe('##[error]Process completed with exit code 2.');
+    expect(result.allErrors).toEqual(['##[error]Process completed with exit code 2.']);
+  });
+});
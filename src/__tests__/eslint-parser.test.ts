@@ -0,0 +1,174 @@
+import { parseEslintDiagnostics, isLintFinding } from '../parsers/eslint.js';
+import { extractErrors } from '../error-extractor.js';
+import { buildPrompt } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const STYLISH_OUTPUT = [
+  '> eslint src',
+  '',
+  '/home/runner/work/app/app/src/api.ts',
+  "  12:7   error    'user' is assigned a value but never used  @typescript-eslint/no-unused-vars",
+  '  30:1   warning  Unexpected console statement               no-console',
+  '',
+  '/home/runner/work/app/app/src/parse.ts',
+  '  4:10  error  Parsing error: Unexpected token )',
+  '',
+  '✖ 3 problems (2 errors, 1 warning)',
+];
+
+const COMPACT_OUTPUT = [
+  'src/a.js: line 1, col 10, Error - Missing semicolon. (semi)',
+  'src/b.js: line 3, col 2, Warning - Unexpected var, use let or const instead. (no-var)',
+  '',
+  '2 problems',
+];
+
+const UNIX_OUTPUT = [
+  "src/a.js:1:10: Missing semicolon. [Error/semi]",
+  "src/b.js:3:2: 'x' is not defined. [Error/no-undef]",
+];
+
+const PRETTIER_OUTPUT = [
+  'Checking formatting...',
+  '[warn] src/index.ts',
+  '[warn] README.md',
+  '[warn] Code style issues found in 2 files. Run Prettier with --write to fix.',
+];
+
+const GH_LINT_LOG = [
+  'Lint\tRun lint\t2026-02-21T10:00:05.000Z ##[group]Run npm run lint',
+  'Lint\tRun lint\t2026-02-21T10:00:06.000Z /home/runner/work/app/app/src/api.ts',
+  "Lint\tRun lint\t2026-02-21T10:00:06.000Z   12:7  error  'user' is assigned a value but never used  no-unused-vars",
+  'Lint\tRun lint\t2026-02-21T10:00:06.000Z   18:3  error  Missing return type                         @typescript-eslint/explicit-function-return-type',
+  'Lint\tRun lint\t2026-02-21T10:00:06.000Z /home/runner/work/app/app/src/db.ts',
+  'Lint\tRun lint\t2026-02-21T10:00:06.000Z   2:1  error  Unexpected var  no-var',
+  'Lint\tRun lint\t2026-02-21T10:00:07.000Z ✖ 3 problems (3 errors, 0 warnings)',
+  'Lint\tRun lint\t2026-02-21T10:00:07.000Z ##[endgroup]',
+  'Lint\tRun lint\t2026-02-21T10:00:07.000Z ##[error]Process completed with exit code 1.',
+].join('\n');
+
+// ---------------------------------------------------------------------------
+// parseEslintDiagnostics
+// ---------------------------------------------------------------------------
+
+describe('parseEslintDiagnostics', () => {
+  test('1. Parses stylish output, linking findings to the file header', () => {
+    const diags = parseEslintDiagnostics(STYLISH_OUTPUT);
+    expect(diags).toHaveLength(3);
+    expect(diags[0]).toMatchObject({
+      file: '/home/runner/work/app/app/src/api.ts',
+      line: 12,
+      column: 7,
+      severity: 'error',
+      tool: 'eslint',
+      code: '@typescript-eslint/no-unused-vars',
+      message: "'user' is assigned a value but never used",
+      logLine: 3,
+    });
+    expect(diags[1]).toMatchObject({ severity: 'warning', code: 'no-console', line: 30 });
+  });
+
+  test('2. Stylish findings without a rule ID (parse errors) have no code', () => {
+    const [, , parseError] = parseEslintDiagnostics(STYLISH_OUTPUT);
+    expect(parseError).toMatchObject({
+      file: '/home/runner/work/app/app/src/parse.ts',
+      message: 'Parsing error: Unexpected token )',
+    });
+    expect(parseError.code).toBeUndefined();
+  });
+
+  test('3. Parses compact output', () => {
+    const diags = parseEslintDiagnostics(COMPACT_OUTPUT);
+    expect(diags.map((d) => [d.file, d.line, d.column, d.severity, d.code])).toEqual([
+      ['src/a.js', 1, 10, 'error', 'semi'],
+      ['src/b.js', 3, 2, 'warning', 'no-var'],
+    ]);
+    expect(diags[0].message).toBe('Missing semicolon.');
+  });
+
+  test('4. Parses unix output', () => {
+    const diags = parseEslintDiagnostics(UNIX_OUTPUT);
+    expect(diags.map((d) => [d.file, d.line, d.code, d.message])).toEqual([
+      ['src/a.js', 1, 'semi', 'Missing semicolon.'],
+      ['src/b.js', 3, 'no-undef', "'x' is not defined."],
+    ]);
+  });
+
+  test('5. Parses prettier --check file lines and skips its summary', () => {
+    const diags = parseEslintDiagnostics(PRETTIER_OUTPUT);
+    expect(diags.map((d) => [d.tool, d.file])).toEqual([
+      ['prettier', 'src/index.ts'],
+      ['prettier', 'README.md'],
+    ]);
+    expect(diags[0].line).toBeUndefined();
+  });
+
+  test('6. Indented "n:n error" lines without a file header are ignored', () => {
+    expect(parseEslintDiagnostics(['Some output', '  1:1  error  nope  rule'])).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isLintFinding
+// ---------------------------------------------------------------------------
+
+describe('isLintFinding', () => {
+  test('7. Recognizes error findings in every format', () => {
+    expect(isLintFinding("12:7  error  'user' is unused  no-unused-vars")).toBe(true);
+    expect(isLintFinding('src/a.js: line 1, col 10, Error - Missing semicolon. (semi)')).toBe(true);
+    expect(isLintFinding('src/a.js:1:10: Missing semicolon. [Error/semi]')).toBe(true);
+    expect(isLintFinding('[warn] src/index.ts')).toBe(true);
+  });
+
+  test('8. Ignores warnings and summaries', () => {
+    expect(isLintFinding('30:1  warning  Unexpected console statement  no-console')).toBe(false);
+    expect(isLintFinding('[warn] Code style issues found in 2 files. Run Prettier with --write to fix.')).toBe(false);
+    expect(isLintFinding('✖ 3 problems (2 errors, 1 warning)')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Integration with extractErrors / buildPrompt
+// ---------------------------------------------------------------------------
+
+describe('ESLint output in extracted errors', () => {
+  test('9. One diagnostic per finding, with repo-relative files and the step', () => {
+    const result = extractErrors(GH_LINT_LOG);
+    const lint = result.diagnostics?.filter((d) => d.tool === 'eslint') ?? [];
+    expect(lint.map((d) => [d.file, d.line, d.code])).toEqual([
+      ['src/api.ts', 12, 'no-unused-vars'],
+      ['src/api.ts', 18, '@typescript-eslint/explicit-function-return-type'],
+      ['src/db.ts', 2, 'no-var'],
+    ]);
+    expect(lint.every((d) => d.step === 'Run lint')).toBe(true);
+    expect(result.filePaths).toContain('src/api.ts:12:7');
+  });
+
+  test('10. The heuristic path picks up stylish findings without ##[error]', () => {
+    const log = ['src/a.ts', "  3:1  error  'a' is not defined  no-undef"].join('\n');
+    const result = extractErrors(log);
+    expect(result.allErrors).toEqual(["3:1  error  'a' is not defined  no-undef"]);
+    expect(result.diagnostics?.[0]).toMatchObject({ file: 'src/a.ts', line: 3, code: 'no-undef' });
+  });
+
+  test('11. The prompt groups lint failures by file', () => {
+    const error = extractErrors(GH_LINT_LOG);
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: false, error });
+    const section = prompt.slice(prompt.indexOf('### Lint Failures'));
+    expect(section).toContain(
+      [
+        '**`src/api.ts`**',
+        "- 12:7 error: 'user' is assigned a value but never used (no-unused-vars)",
+        '- 18:3 error: Missing return type (@typescript-eslint/explicit-function-return-type)',
+        '',
+        '**`src/db.ts`**',
+        '- 2:1 error: Unexpected var (no-var)',
+      ].join('\n')
+    );
+    // Lint findings are not repeated one by one under Diagnostics
+    expect(prompt).not.toContain('### Diagnostics');
+  });
+});
@@ -0,0 +1,101 @@
+import { classifyFailure, formatClassification } from '../failure-classifier.js';
+import type { Diagnostic } from '../diagnostic.js';
+import { extractErrors } from '../error-extractor.js';
+import { buildMultiJobPrompt, buildPrompt } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// classifyFailure
+// ---------------------------------------------------------------------------
+
+describe('classifyFailure', () => {
+  test('1. Exit code 137 is an out-of-memory infrastructure failure', () => {
+    const result = classifyFailure(['npm test', 'Killed', '##[error]Process completed with exit code 137.']);
+    expect(result).toMatchObject({
+      category: 'infrastructure',
+      confidence: 0.9,
+      reason: 'runner ran out of memory (exit code 137)',
+      evidence: 'Process completed with exit code 137.',
+      logLine: 2,
+    });
+  });
+
+  test('2. Timeouts win over the cancellation GitHub prints with them', () => {
+    const lines = [
+      '##[error]The job running on runner GitHub Actions 3 has exceeded the maximum execution time of 360 minutes.',
+      '##[error]The operation was canceled.',
+    ];
+    expect(classifyFailure(lines).category).toBe('timeout');
+    expect(classifyFailure(['##[error]The operation was canceled.']).category).toBe('cancellation');
+  });
+
+  test('3. Registry 5xx, lost runners and dependency conflicts', () => {
+    expect(classifyFailure(['npm ERR! 503 Service Unavailable - GET https://registry.npmjs.org/left-pad']).category)
+      .toBe('infrastructure');
+    expect(
+      classifyFailure(['##[error]The hosted runner: GitHub Actions 2 lost communication with the server.']).reason
+    ).toBe('lost the runner');
+    expect(classifyFailure(['npm ERR! code ERESOLVE', 'npm ERR! ERESOLVE unable to resolve dependency tree']))
+      .toMatchObject({ category: 'dependency', reason: 'dependency versions could not be resolved' });
+  });
+
+  test('4. Without a signal, diagnostics decide between test and code', () => {
+    const testDiag: Diagnostic = { message: 'expected 3', severity: 'error', test: 'adds', details: [] };
+    const tscDiag: Diagnostic = { message: 'x', severity: 'error', file: 'src/a.ts', line: 1, tool: 'tsc', details: [] };
+    expect(classifyFailure([], [testDiag, tscDiag])).toMatchObject({ category: 'test', reason: '1 failing test' });
+    expect(classifyFailure([], [tscDiag, tscDiag])).toMatchObject({ category: 'code', reason: '2 errors in source files' });
+    expect(classifyFailure(['Error: boom'])).toMatchObject({ category: 'code', confidence: 0.3 });
+  });
+
+  test('5. A weak network signal does not override failing tests', () => {
+    const testDiag: Diagnostic = { message: 'connect ECONNREFUSED', severity: 'error', test: 'fetches', details: [] };
+    expect(classifyFailure(['Error: connect ECONNREFUSED 127.0.0.1:5432'], [testDiag]).category).toBe('test');
+  });
+
+  test('6. formatClassification shows category, confidence and reason', () => {
+    expect(formatClassification({ category: 'timeout', confidence: 0.95, reason: 'job exceeded its maximum execution time' }))
+      .toBe('timeout (95% confidence) - job exceeded its maximum execution time');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Extraction and prompts
+// ---------------------------------------------------------------------------
+
+describe('failure type in extraction and prompts', () => {
+  const oomLog = [
+    '##[group]Run npm run build',
+    '<--- Last few GCs --->',
+    'Killed',
+    '##[error]Process completed with exit code 137.',
+    '##[endgroup]',
+  ].join('\n');
+
+  test('7. Infrastructure failures get a retry/config task instead of a code fix', () => {
+    const error = extractErrors(oomLog);
+    expect(error.classification?.category).toBe('infrastructure');
+
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: false, error });
+    expect(prompt).toContain('**Failure type:** infrastructure (90% confidence) - runner ran out of memory (exit code 137)');
+    expect(prompt).toContain('CI infrastructure problem');
+    expect(prompt).not.toContain('provide the corrected code');
+  });
+
+  test('8. Code failures keep the fix task; multi-job prompts name the infrastructure jobs', () => {
+    const code = extractErrors("##[error]src/a.ts(1,1): error TS2304: Cannot find name 'x'.");
+    expect(code.classification?.category).toBe('code');
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: false, error: code });
+    expect(prompt).toContain('provide the corrected code');
+
+    const multi = buildMultiJobPrompt({
+      repo: 'o/r',
+      branch: 'main',
+      runId: '1',
+      includeContext: false,
+      errors: [
+        { ...code, jobName: 'lint' },
+        { ...extractErrors(oomLog), jobName: 'build' },
+      ],
+    });
+    expect(multi).toContain('Jobs whose failure type is infrastructure, timeout or cancellation (build)');
+  });
+});
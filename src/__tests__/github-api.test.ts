@@ -0,0 +1,258 @@
+/**
+ * Tests for the native GitHub REST API fetcher.
+ *
+ * Runs against a local stand-in HTTP server (no network, no gh CLI) that
+ * serves the runs, jobs, log archive and per-job log endpoints.
+ */
+import { createServer } from 'http';
+import type { Server, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { deflateRawSync } from 'zlib';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { fetchFailedLogViaApi, resolveGitHubToken } from '../github-api.js';
+import { readZipEntries } from '../zip-reader.js';
+import { extractErrors } from '../error-extractor.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Builds a minimal zip archive (deflated entries, CRC left at 0: not verified) */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBuf = Buffer.from(name, 'utf-8');
+    const data = deflateRawSync(Buffer.from(text, 'utf-8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(text.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(text.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+
+    offset += local.length + nameBuf.length + data.length;
+  }
+
+  const centralBuf = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralBuf.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralBuf, eocd]);
+}
+
+type Route = (req: IncomingMessage, res: ServerResponse) => void;
+
+let server: Server;
+let apiUrl: string;
+let routes: Record<string, Route | undefined>;
+let requests: IncomingMessage[];
+
+function json(body: unknown): Route {
+  return (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+}
+
+function status(code: number, body = ''): Route {
+  return (_req, res) => {
+    res.writeHead(code);
+    res.end(body);
+  };
+}
+
+const JOBS = {
+  jobs: [
+    {
+      id: 11,
+      name: 'build',
+      conclusion: 'failure',
+      steps: [
+        { name: 'Set up job', number: 1, conclusion: 'success' },
+        { name: 'Run tsc', number: 2, conclusion: 'failure' },
+      ],
+    },
+    { id: 12, name: 'lint', conclusion: 'success', steps: [] },
+  ],
+};
+
+const STEP_LOG = [
+  '2026-02-21T10:00:05.000Z ##[group]Run npx tsc',
+  "2026-02-21T10:00:06.000Z src/parser.ts(42,7): error TS2345: Argument of type 'string | undefined'.",
+  '2026-02-21T10:00:07.000Z ##[endgroup]',
+  '2026-02-21T10:00:07.000Z ##[error]Process completed with exit code 2.',
+].join('\n');
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req);
+    const path = (req.url ?? '').split('?')[0] ?? '';
+    const route = routes[path];
+    if (route) {
+      route(req, res);
+    } else {
+      res.writeHead(404);
+      res.end('{"message":"Not Found"}');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  apiUrl = `http://127.0.0.1:${String((server.address() as AddressInfo).port)}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => { resolve(); }));
+});
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+});
+
+// ---------------------------------------------------------------------------
+// readZipEntries
+// ---------------------------------------------------------------------------
+
+describe('readZipEntries', () => {
+  it('reads deflated entries with their paths', () => {
+    const zip = buildZip({ 'build/2_Run tsc.txt': 'hello', '1_build.txt': 'world' });
+    const entries = readZipEntries(zip);
+    expect(entries.map((e) => e.name)).toEqual(['build/2_Run tsc.txt', '1_build.txt']);
+    expect(entries[0]?.content.toString()).toBe('hello');
+  });
+
+  it('throws on data that is not a zip archive', () => {
+    expect(() => readZipEntries(Buffer.from('not a zip, just some text'))).toThrow('Invalid zip archive');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveGitHubToken
+// ---------------------------------------------------------------------------
+
+describe('resolveGitHubToken', () => {
+  it('prefers GH_TOKEN over GITHUB_TOKEN, like gh', () => {
+    expect(resolveGitHubToken({ GITHUB_TOKEN: 'a', GH_TOKEN: 'b' })).toBe('b');
+    expect(resolveGitHubToken({ GITHUB_TOKEN: 'a' })).toBe('a');
+    expect(resolveGitHubToken({})).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchFailedLogViaApi
+// ---------------------------------------------------------------------------
+
+describe('fetchFailedLogViaApi', () => {
+  it('auto-detects the latest failed run and reads failed steps from the log archive', async () => {
+    routes['/repos/owner/repo/actions/runs'] = json({ workflow_runs: [{ id: 777 }] });
+    routes['/repos/owner/repo/actions/runs/777/jobs'] = json(JOBS);
+    routes['/repos/owner/repo/actions/runs/777/logs'] = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/zip' });
+      res.end(buildZip({
+        'build/1_Set up job.txt': '2026-02-21T10:00:00.000Z Runner ready',
+        'build/2_Run tsc.txt': STEP_LOG,
+      }));
+    };
+
+    const log = await fetchFailedLogViaApi({ repo: 'owner/repo', token: 't0k', apiUrl, branch: 'main' });
+
+    expect(log.split('\n')[0]).toBe('build\tRun tsc\t2026-02-21T10:00:05.000Z ##[group]Run npx tsc');
+    expect(log).not.toContain('Runner ready');
+    expect(requests[0]?.url).toContain('branch=main');
+    expect(requests[0]?.url).toContain('status=failure');
+    expect(requests[0]?.headers['authorization']).toBe('Bearer t0k');
+  });
+
+  it('produces a log the extractor understands like gh --log-failed output', async () => {
+    routes['/repos/owner/repo/actions/runs/777/jobs'] = json(JOBS);
+    routes['/repos/owner/repo/actions/runs/777/logs'] = (_req, res) => {
+      res.writeHead(200);
+      res.end(buildZip({ 'build/2_Run tsc.txt': STEP_LOG }));
+    };
+
+    const log = await fetchFailedLogViaApi({ repo: 'owner/repo', apiUrl, runId: '777' });
+    const result = extractErrors(log);
+    expect(result.stepName).toBe('Run tsc');
+    expect(result.filePaths.some((p) => p.includes('src/parser.ts'))).toBe(true);
+  });
+
+  it('follows redirects to the archive download location', async () => {
+    routes['/repos/owner/repo/actions/runs/777/jobs'] = json(JOBS);
+    routes['/repos/owner/repo/actions/runs/777/logs'] = (_req, res) => {
+      res.writeHead(302, { Location: `${apiUrl}/blob/logs.zip` });
+      res.end();
+    };
+    routes['/blob/logs.zip'] = (_req, res) => {
+      res.writeHead(200);
+      res.end(buildZip({ 'build/2_Run tsc.txt': STEP_LOG }));
+    };
+
+    const log = await fetchFailedLogViaApi({ repo: 'owner/repo', apiUrl, runId: '777' });
+    expect(log).toContain('##[error]Process completed with exit code 2.');
+  });
+
+  it('falls back to the per-job logs endpoint when the archive is unavailable', async () => {
+    routes['/repos/owner/repo/actions/runs/777/jobs'] = json(JOBS);
+    routes['/repos/owner/repo/actions/runs/777/logs'] = status(410);
+    routes['/repos/owner/repo/actions/jobs/11/logs'] = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end(STEP_LOG);
+    };
+
+    const log = await fetchFailedLogViaApi({ repo: 'owner/repo', apiUrl, runId: '777' });
+    expect(log).toContain('build\tRun tsc\t');
+    expect(log).toContain('error TS2345');
+  });
+
+  it('throws when the run has no failed jobs', async () => {
+    routes['/repos/owner/repo/actions/runs/5/jobs'] = json({ jobs: [{ id: 1, name: 'ok', conclusion: 'success', steps: [] }] });
+
+    await expect(fetchFailedLogViaApi({ repo: 'owner/repo', apiUrl, runId: '5' })).rejects.toThrow(
+      'No failed jobs in run 5'
+    );
+  });
+
+  it('throws when no failed runs are found on the branch', async () => {
+    routes['/repos/owner/repo/actions/runs'] = json({ workflow_runs: [] });
+
+    await expect(fetchFailedLogViaApi({ repo: 'owner/repo', apiUrl, branch: 'feat/x' })).rejects.toThrow(
+      'No failed runs found on branch "feat/x"'
+    );
+  });
+
+  it('maps 401 to a token hint', async () => {
+    routes['/repos/owner/repo/actions/runs/1/jobs'] = status(401, '{"message":"Bad credentials"}');
+
+    await expect(fetchFailedLogViaApi({ repo: 'owner/repo', apiUrl, runId: '1', token: 'bad' })).rejects.toThrow(
+      'Set GITHUB_TOKEN or GH_TOKEN to a valid token'
+    );
+  });
+
+  it('maps 404 to a repo access hint', async () => {
+    await expect(fetchFailedLogViaApi({ repo: 'owner/missing', apiUrl, runId: '1' })).rejects.toThrow(
+      'Check repo name and that you have access'
+    );
+  });
+
+  it('rejects a repo that is not in owner/repo format before any request', async () => {
+    await expect(fetchFailedLogViaApi({ repo: 'unknown', apiUrl })).rejects.toThrow('Pass --repo owner/repo');
+    expect(requests).toHaveLength(0);
+  });
+});
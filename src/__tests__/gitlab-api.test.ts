@@ -0,0 +1,194 @@
+/**
+ * Tests for the native GitLab REST API fetcher.
+ *
+ * Runs against a local fake GitLab HTTP server (no network, no glab CLI).
+ */
+import { createServer } from 'http';
+import type { Server, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { fetchGitLabFailedLogViaApi, resolveGitLabToken } from '../gitlab-api.js';
+
+// ---------------------------------------------------------------------------
+// Fake GitLab server
+// ---------------------------------------------------------------------------
+
+type Route = (req: IncomingMessage, res: ServerResponse) => void;
+
+let server: Server;
+let gitlabUrl: string;
+let routes: Record<string, Route | undefined>;
+let requests: IncomingMessage[];
+
+function json(body: unknown): Route {
+  return (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+}
+
+function text(body: string): Route {
+  return (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end(body);
+  };
+}
+
+const TRACE = [
+  '\x1b[0Ksection_start:1700000000:build_script\r\x1b[0K\x1b[36;1mRunning build script\x1b[0;m',
+  '$ npm run build',
+  'Error: Cannot find module ./config',
+  '\x1b[0Ksection_end:1700000001:build_script\r\x1b[0K',
+  'ERROR: Job failed: exit code 1',
+].join('\n');
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req);
+    // Match on the raw (still-encoded) path so project path encoding is verified
+    const path = (req.url ?? '').split('?')[0] ?? '';
+    const route = routes[path];
+    if (route) {
+      route(req, res);
+    } else {
+      res.writeHead(404);
+      res.end('{"message":"404 Not Found"}');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  gitlabUrl = `http://127.0.0.1:${String((server.address() as AddressInfo).port)}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => { resolve(); }));
+});
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+});
+
+// ---------------------------------------------------------------------------
+// resolveGitLabToken
+// ---------------------------------------------------------------------------
+
+describe('resolveGitLabToken', () => {
+  it('uses GITLAB_TOKEN as a PRIVATE-TOKEN', () => {
+    expect(resolveGitLabToken({ GITLAB_TOKEN: 'glpat-x', CI_JOB_TOKEN: 'job' })).toEqual({
+      value: 'glpat-x',
+      header: 'PRIVATE-TOKEN',
+    });
+  });
+
+  it('falls back to CI_JOB_TOKEN as a JOB-TOKEN', () => {
+    expect(resolveGitLabToken({ CI_JOB_TOKEN: 'job' })).toEqual({ value: 'job', header: 'JOB-TOKEN' });
+  });
+
+  it('returns undefined when no token is set', () => {
+    expect(resolveGitLabToken({})).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchGitLabFailedLogViaApi
+// ---------------------------------------------------------------------------
+
+describe('fetchGitLabFailedLogViaApi', () => {
+  it('auto-detects the latest failed pipeline and returns the failed job trace', async () => {
+    routes['/api/v4/projects/group%2Fsub%2Fproject/pipelines'] = json([{ id: 555 }]);
+    routes['/api/v4/projects/group%2Fsub%2Fproject/pipelines/555/jobs'] = json([
+      { id: 1, name: 'lint', status: 'success' },
+      { id: 2, name: 'build', status: 'failed' },
+    ]);
+    routes['/api/v4/projects/group%2Fsub%2Fproject/jobs/2/trace'] = text(TRACE);
+
+    const log = await fetchGitLabFailedLogViaApi({
+      project: 'group/sub/project',
+      token: { value: 'glpat-x', header: 'PRIVATE-TOKEN' },
+      gitlabUrl,
+      branch: 'main',
+    });
+
+    expect(log).toEqual([{ name: 'build', stage: '', log: TRACE }]);
+    expect(requests[0]?.url).toContain('status=failed');
+    expect(requests[0]?.url).toContain('ref=main');
+    expect(requests[0]?.headers['private-token']).toBe('glpat-x');
+  });
+
+  it('sends a CI job token as JOB-TOKEN and accepts a numeric project ID', async () => {
+    routes['/api/v4/projects/42/pipelines/9/jobs'] = json([{ id: 7, name: 'test', status: 'failed' }]);
+    routes['/api/v4/projects/42/jobs/7/trace'] = text('trace for job 7');
+
+    const log = await fetchGitLabFailedLogViaApi({
+      project: '42',
+      token: { value: 'job-token', header: 'JOB-TOKEN' },
+      gitlabUrl: `${gitlabUrl}/`,
+      pipelineId: '9',
+    });
+
+    expect(log[0]?.log).toBe('trace for job 7');
+    expect(requests[0]?.headers['job-token']).toBe('job-token');
+    expect(requests[0]?.headers['private-token']).toBeUndefined();
+  });
+
+  it('returns every failed job with its stage, honouring the job filter', async () => {
+    routes['/api/v4/projects/42/pipelines/9/jobs'] = json([
+      { id: 1, name: 'lint', stage: 'test', status: 'failed' },
+      { id: 2, name: 'unit', stage: 'test', status: 'failed' },
+      { id: 3, name: 'e2e', stage: 'e2e', status: 'failed' },
+    ]);
+    routes['/api/v4/projects/42/jobs/1/trace'] = text('lint trace');
+    routes['/api/v4/projects/42/jobs/2/trace'] = text('unit trace');
+    routes['/api/v4/projects/42/jobs/3/trace'] = text('e2e trace');
+
+    const all = await fetchGitLabFailedLogViaApi({ project: '42', gitlabUrl, pipelineId: '9' });
+    expect(all.map((j) => `${j.stage}/${j.name}: ${j.log}`)).toEqual([
+      'test/lint: lint trace',
+      'test/unit: unit trace',
+      'e2e/e2e: e2e trace',
+    ]);
+
+    requests = [];
+    const one = await fetchGitLabFailedLogViaApi({ project: '42', gitlabUrl, pipelineId: '9', jobName: 'e2e' });
+    expect(one.map((j) => j.name)).toEqual(['e2e']);
+    expect(requests.filter((r) => (r.url ?? '').includes('/trace'))).toHaveLength(1);
+  });
+
+  it('throws when no failed jobs found in pipeline', async () => {
+    routes['/api/v4/projects/42/pipelines/123/jobs'] = json([{ id: 10, name: 'build', status: 'success' }]);
+
+    await expect(fetchGitLabFailedLogViaApi({ project: '42', gitlabUrl, pipelineId: '123' })).rejects.toThrow(
+      'No failed jobs in pipeline 123'
+    );
+  });
+
+  it('throws when no failed pipelines are found', async () => {
+    routes['/api/v4/projects/42/pipelines'] = json([]);
+
+    await expect(fetchGitLabFailedLogViaApi({ project: '42', gitlabUrl, branch: 'dev' })).rejects.toThrow(
+      'No failed pipelines found on branch "dev"'
+    );
+  });
+
+  it('maps 404 to a project access hint', async () => {
+    await expect(fetchGitLabFailedLogViaApi({ project: 'nope/missing', gitlabUrl, pipelineId: '1' })).rejects.toThrow(
+      'Check project path and that you have access'
+    );
+  });
+
+  it('maps 401 to a token hint', async () => {
+    routes['/api/v4/projects/42/pipelines/1/jobs'] = (_req, res) => {
+      res.writeHead(401);
+      res.end('{"message":"401 Unauthorized"}');
+    };
+
+    await expect(fetchGitLabFailedLogViaApi({ project: '42', gitlabUrl, pipelineId: '1' })).rejects.toThrow(
+      'Set GITLAB_TOKEN'
+    );
+  });
+
+  it('throws a clear error when no project is given', async () => {
+    await expect(fetchGitLabFailedLogViaApi({ project: ' ', gitlabUrl })).rejects.toThrow('Pass --project');
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,163 @@
+import { parseGoDiagnostics, isGoError, isGoTestLog } from '../parsers/go.js';
+import { extractErrors, extractErrorsByJob } from '../error-extractor.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const GO_TEST_VERBOSE = [
+  '=== RUN   TestConnect',
+  '    conn_test.go:55: expected nil, got dial tcp: connection refused',
+  '--- FAIL: TestConnect (0.01s)',
+  '=== RUN   TestQuery',
+  '=== RUN   TestQuery/empty',
+  '    query_test.go:12: want 0 rows, got 3',
+  '--- FAIL: TestQuery (0.00s)',
+  '    --- FAIL: TestQuery/empty (0.00s)',
+  '=== RUN   TestPing',
+  '--- PASS: TestPing (0.00s)',
+  'FAIL',
+  'FAIL\tgithub.com/acme/app/internal/db\t0.012s',
+];
+
+const GO_PANIC = [
+  'panic: runtime error: invalid memory address or nil pointer dereference',
+  '[signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x4b1f3a]',
+  '',
+  'goroutine 7 [running]:',
+  'testing.tRunner.func1.2({0x5e2c40, 0x7a1b20})',
+  '\t/opt/hostedtoolcache/go/1.22.0/x64/src/testing/testing.go:1631 +0x24a',
+  'panic({0x5e2c40?, 0x7a1b20?})',
+  '\t/opt/hostedtoolcache/go/1.22.0/x64/src/runtime/panic.go:770 +0x132',
+  'github.com/acme/app/internal/db.(*Conn).Query(0x0, {0x60a1b3, 0x8})',
+  '\t/home/runner/work/app/app/internal/db/conn.go:31 +0x1a',
+  'github.com/acme/app/internal/db.TestQuery(0xc000007860)',
+  '\t/home/runner/work/app/app/internal/db/conn_test.go:20 +0x3e',
+  'testing.tRunner(0xc000007860, 0x6243f8)',
+  '\t/opt/hostedtoolcache/go/1.22.0/x64/src/testing/testing.go:1689 +0xfb',
+  'exit status 2',
+  'FAIL\tgithub.com/acme/app/internal/db\t0.010s',
+];
+
+// ---------------------------------------------------------------------------
+// Compile errors
+// ---------------------------------------------------------------------------
+
+describe('parseGoDiagnostics - compile errors', () => {
+  test('1. Parses file:line:col: message and drops the ./ prefix', () => {
+    const diags = parseGoDiagnostics([
+      '# github.com/acme/app/cmd/api',
+      './main.go:8:2: undefined: run',
+      'cmd/api/server.go:14: missing return',
+    ]);
+    expect(diags).toEqual([
+      { message: 'undefined: run', severity: 'error', file: 'main.go', line: 8, column: 2, tool: 'go', details: [], logLine: 1 },
+      { message: 'missing return', severity: 'error', file: 'cmd/api/server.go', line: 14, tool: 'go', details: [], logLine: 2 },
+    ]);
+  });
+
+  test('2. Deduplicates errors repeated by go vet', () => {
+    const line = './internal/db/conn.go:31:2: undefined: sql.Conn';
+    expect(parseGoDiagnostics([line, 'vet: errors', line])).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// go test
+// ---------------------------------------------------------------------------
+
+describe('parseGoDiagnostics - go test', () => {
+  test('3. -v output: log lines streamed under === RUN belong to the failing test', () => {
+    const diags = parseGoDiagnostics(GO_TEST_VERBOSE);
+    expect(diags.map((d) => d.test)).toEqual(['TestConnect', 'TestQuery', 'TestQuery/empty']);
+    expect(diags[0]).toMatchObject({
+      tool: 'go',
+      message: 'expected nil, got dial tcp: connection refused',
+      file: 'internal/db/conn_test.go',
+      line: 55,
+      details: ['conn_test.go:55: expected nil, got dial tcp: connection refused'],
+    });
+  });
+
+  test('4. Subtest logs are attributed to the subtest, not the parent', () => {
+    const diags = parseGoDiagnostics(GO_TEST_VERBOSE);
+    expect(diags[1]).toMatchObject({ message: 'Test failed', details: [] });
+    expect(diags[2]).toMatchObject({ file: 'internal/db/query_test.go', line: 12, message: 'want 0 rows, got 3' });
+  });
+
+  test('5. Without -v, log lines follow the --- FAIL header', () => {
+    const diags = parseGoDiagnostics([
+      '--- FAIL: TestParse (0.00s)',
+      '    parse_test.go:9: unexpected token',
+      'FAIL',
+      'FAIL\texample.com/tools/pkg/parser\t0.004s',
+    ]);
+    expect(diags).toHaveLength(1);
+    expect(diags[0]).toMatchObject({ test: 'TestParse', file: 'pkg/parser/parse_test.go', line: 9 });
+  });
+
+  test('6. Packages of single-name modules keep their full path', () => {
+    const diags = parseGoDiagnostics(['--- FAIL: TestX (0.00s)', '    x_test.go:3: boom', 'FAIL\tapp/internal/x\t0.01s']);
+    expect(diags[0].file).toBe('internal/x/x_test.go');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Panics
+// ---------------------------------------------------------------------------
+
+describe('parseGoDiagnostics - panics', () => {
+  test('7. Locates the first goroutine frame inside the repo', () => {
+    const diags = parseGoDiagnostics(GO_PANIC);
+    expect(diags).toHaveLength(1);
+    expect(diags[0]).toMatchObject({
+      message: 'panic: runtime error: invalid memory address or nil pointer dereference',
+      code: 'panic',
+      file: '/home/runner/work/app/app/internal/db/conn.go',
+      line: 31,
+      details: [
+        'github.com/acme/app/internal/db.(*Conn).Query(0x0, {0x60a1b3, 0x8}) at /home/runner/work/app/app/internal/db/conn.go:31',
+        'github.com/acme/app/internal/db.TestQuery(0xc000007860) at /home/runner/work/app/app/internal/db/conn_test.go:20',
+      ],
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Heuristics and extraction
+// ---------------------------------------------------------------------------
+
+describe('Go errors in extracted errors', () => {
+  test('8. isGoError recognizes compile errors, failing tests and panics', () => {
+    expect(isGoError('./main.go:8:2: undefined: run')).toBe(true);
+    expect(isGoError('--- FAIL: TestConnect (0.01s)')).toBe(true);
+    expect(isGoError('panic: boom')).toBe(true);
+    expect(isGoError('--- PASS: TestPing (0.00s)')).toBe(false);
+  });
+
+  test('9. Panic locations become repo-relative and lead the file paths', () => {
+    const result = extractErrors(GO_PANIC.join('\n'));
+    const diag = result.diagnostics?.find((d) => d.code === 'panic');
+    expect(diag).toMatchObject({ file: 'internal/db/conn.go', line: 31 });
+    expect(result.filePaths[0]).toBe('internal/db/conn.go:31');
+  });
+
+  test('10. Raw go test output: test files resolve to the package, test logs are not compile errors', () => {
+    expect(isGoTestLog('    conn_test.go:55: expected nil')).toBe(true);
+    expect(isGoTestLog('./main.go:8:2: undefined: run')).toBe(false);
+
+    const nonVerbose = [
+      '--- FAIL: TestConnect (0.01s)',
+      '    conn_test.go:55: expected nil, got dial tcp: connection refused',
+      'FAIL',
+      'FAIL\tgithub.com/acme/app/internal/db\t0.012s',
+    ].join('\n');
+    for (const log of [nonVerbose, GO_TEST_VERBOSE.join('\n')]) {
+      const [result] = extractErrorsByJob(log);
+      expect(result.diagnostics?.every((d) => d.tool === 'go')).toBe(true);
+      expect(result.diagnostics?.[0]).toMatchObject({ test: 'TestConnect', file: 'internal/db/conn_test.go', line: 55 });
+      expect(result.filePaths[0]).toBe('internal/db/conn_test.go:55');
+    }
+    expect(extractErrors(nonVerbose).diagnostics).toHaveLength(1);
+  });
+});
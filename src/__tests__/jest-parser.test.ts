@@ -0,0 +1,183 @@
+import { parseJestDiagnostics, isTestFailureHeader } from '../parsers/jest.js';
+import { extractErrors } from '../error-extractor.js';
+import { buildPrompt } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const JEST_OUTPUT = [
+  'PASS src/utils.test.ts',
+  'FAIL src/math.test.ts',
+  '  ● math › adds numbers',
+  '',
+  '    expect(received).toBe(expected) // Object.is equality',
+  '',
+  '    Expected: 3',
+  '    Received: 4',
+  '',
+  "       9 |   test('adds numbers', () => {",
+  '    > 10 |     expect(add(1, 2)).toBe(3);',
+  '         |                       ^',
+  '      11 |   });',
+  '',
+  '      at Object.<anonymous> (src/math.test.ts:10:23)',
+  '',
+  '  ● math › parses config',
+  '',
+  '    expect(received).toEqual(expected) // deep equality',
+  '',
+  '    - Expected  - 1',
+  '    + Received  + 1',
+  '',
+  '      Object {',
+  '    -   "port": 80,',
+  '    +   "port": 8080,',
+  '      }',
+  '',
+  '      at parseConfig (node_modules/config-lib/index.js:5:3)',
+  '      at Object.<anonymous> (/home/runner/work/app/app/src/config.ts:22:9)',
+  '',
+  '  ● Console',
+  '',
+  '    console.log',
+  '      debug output',
+  '',
+  'Test Suites: 1 failed, 1 passed, 2 total',
+  'Tests:       2 failed, 5 passed, 7 total',
+];
+
+const VITEST_OUTPUT = [
+  ' ❯ src/math.test.ts  (2 tests | 1 failed) 5ms',
+  '   × math > adds numbers',
+  '',
+  '⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯',
+  '',
+  ' FAIL  src/math.test.ts > math > adds numbers',
+  'AssertionError: expected 4 to be 3 // Object.is equality',
+  '',
+  '- Expected',
+  '+ Received',
+  '',
+  '- 3',
+  '+ 4',
+  '',
+  ' ❯ src/math.test.ts:10:23',
+  "      9|   test('adds numbers', () => {",
+  '     10|     expect(add(1, 2)).toBe(3);',
+  '       |                       ^',
+  '',
+  '⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯',
+  '',
+  ' Test Files  1 failed (1)',
+  '      Tests  1 failed | 1 passed (2)',
+];
+
+// ---------------------------------------------------------------------------
+// parseJestDiagnostics - Jest
+// ---------------------------------------------------------------------------
+
+describe('parseJestDiagnostics - Jest', () => {
+  test('1. One diagnostic per failing test, skipping "● Console" blocks', () => {
+    const diags = parseJestDiagnostics(JEST_OUTPUT);
+    expect(diags.map((d) => d.test)).toEqual(['math › adds numbers', 'math › parses config']);
+    expect(diags.every((d) => d.tool === 'jest' && d.severity === 'error')).toBe(true);
+  });
+
+  test('2. Keeps the assertion message and expected/received lines', () => {
+    const [first] = parseJestDiagnostics(JEST_OUTPUT);
+    expect(first).toMatchObject({
+      message: 'expect(received).toBe(expected) // Object.is equality',
+      details: ['Expected: 3', 'Received: 4'],
+      file: 'src/math.test.ts',
+      line: 10,
+      column: 23,
+      logLine: 2,
+    });
+  });
+
+  test('3. Keeps the diff and uses the first stack frame outside node_modules', () => {
+    const [, second] = parseJestDiagnostics(JEST_OUTPUT);
+    expect(second.details).toEqual([
+      '- Expected  - 1',
+      '+ Received  + 1',
+      'Object {',
+      '-   "port": 80,',
+      '+   "port": 8080,',
+      '}',
+    ]);
+    expect(second).toMatchObject({ file: '/home/runner/work/app/app/src/config.ts', line: 22, column: 9 });
+  });
+
+  test('4. Falls back to the FAIL file when no frame is in the repo', () => {
+    const diags = parseJestDiagnostics([
+      'FAIL test/api.test.js',
+      '  ● api › responds',
+      '',
+      '    thrown: "Exceeded timeout of 5000 ms for a test."',
+    ]);
+    expect(diags[0]).toMatchObject({ file: 'test/api.test.js', message: 'thrown: "Exceeded timeout of 5000 ms for a test."' });
+    expect(diags[0].line).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseJestDiagnostics - Vitest
+// ---------------------------------------------------------------------------
+
+describe('parseJestDiagnostics - Vitest', () => {
+  test('5. Parses the FAIL file > suite > test header and the diff', () => {
+    const diags = parseJestDiagnostics(VITEST_OUTPUT);
+    expect(diags).toHaveLength(1);
+    expect(diags[0]).toMatchObject({
+      tool: 'vitest',
+      test: 'math > adds numbers',
+      message: 'AssertionError: expected 4 to be 3 // Object.is equality',
+      details: ['- Expected', '+ Received', '- 3', '+ 4'],
+      file: 'src/math.test.ts',
+      line: 10,
+      column: 23,
+    });
+  });
+
+  test('6. isTestFailureHeader recognizes both runners', () => {
+    expect(isTestFailureHeader('● math › adds numbers')).toBe(true);
+    expect(isTestFailureHeader('FAIL  src/math.test.ts > math > adds numbers')).toBe(true);
+    expect(isTestFailureHeader('● Console')).toBe(false);
+    expect(isTestFailureHeader('FAIL src/math.test.ts')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Integration with extractErrors / buildPrompt
+// ---------------------------------------------------------------------------
+
+describe('Test failures in extracted errors', () => {
+  test('7. Test diagnostics get repo-relative paths', () => {
+    const result = extractErrors(JEST_OUTPUT.join('\n'));
+    const tests = result.diagnostics?.filter((d) => d.test !== undefined) ?? [];
+    expect(tests.map((d) => d.file)).toEqual(['src/math.test.ts', 'src/config.ts']);
+    expect(result.filePaths.slice(0, 2)).toEqual(['src/math.test.ts:10:23', 'src/config.ts:22:9']);
+  });
+
+  test('8. The prompt lists failing tests with their details, fencing only real diffs as diff', () => {
+    const error = extractErrors(JEST_OUTPUT.join('\n'));
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: false, error });
+    expect(prompt).toContain(
+      [
+        '### Failing Tests',
+        '1. **math › adds numbers** (`src/math.test.ts:10:23`)',
+        '   expect(received).toBe(expected) // Object.is equality',
+        '   ```',
+        '   Expected: 3',
+        '   Received: 4',
+        '   ```',
+        '2. **math › parses config** (`src/config.ts:22:9`)',
+        '   expect(received).toEqual(expected) // deep equality',
+        '   ```diff',
+        '   - Expected  - 1',
+      ].join('\n')
+    );
+    expect(prompt).not.toContain('### Diagnostics');
+  });
+});
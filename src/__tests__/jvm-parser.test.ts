@@ -0,0 +1,209 @@
+import { parseJvmDiagnostics, isJvmError, jvmSourceCandidates } from '../parsers/jvm.js';
+import { extractErrors } from '../error-extractor.js';
+import { createTrackedFileIndex } from '../tracked-files.js';
+import { buildPrompt } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const MAVEN_COMPILE = [
+  '[INFO] --- maven-compiler-plugin:3.11.0:compile (default-compile) @ app ---',
+  '[ERROR] COMPILATION ERROR : ',
+  '[ERROR] /home/runner/work/app/app/src/main/java/com/acme/Foo.java:[12,5] cannot find symbol',
+  '  symbol:   variable bar',
+  '  location: class com.acme.Foo',
+  '[ERROR] Failed to execute goal org.apache.maven.plugins:maven-compiler-plugin:3.11.0:compile',
+];
+
+const SUREFIRE = [
+  '[INFO] Running com.acme.FooTest',
+  '[ERROR] Tests run: 2, Failures: 1, Errors: 1, Skipped: 0, Time elapsed: 0.05 s <<< FAILURE! -- in com.acme.FooTest',
+  '[ERROR] com.acme.FooTest.adds -- Time elapsed: 0.01 s <<< FAILURE!',
+  'org.opentest4j.AssertionFailedError: expected: <3> but was: <4>',
+  '\tat org.junit.jupiter.api.AssertionUtils.fail(AssertionUtils.java:151)',
+  '\tat org.junit.jupiter.api.Assertions.assertEquals(Assertions.java:145)',
+  '\tat com.acme.FooTest.adds(FooTest.java:20)',
+  '',
+  '[ERROR] com.acme.FooTest.loads -- Time elapsed: 0 s <<< ERROR!',
+  'java.lang.NullPointerException: Cannot invoke "String.length()" because "name" is null',
+  '\tat com.acme.Loader.load(Loader.java:42)',
+  '\tat com.acme.FooTest.loads(FooTest.java:31)',
+  '',
+  '[INFO] Results:',
+  '[ERROR] Failures: ',
+  '[ERROR]   FooTest.adds:20 expected: <3> but was: <4>',
+  '[ERROR] Errors: ',
+  '[ERROR]   FooTest.loads:31 » NullPointer Cannot invoke "String.length()"',
+  '[ERROR]   BarTest.parses:9 » IllegalState bad input',
+  '[INFO] ',
+];
+
+// ---------------------------------------------------------------------------
+// Compile errors
+// ---------------------------------------------------------------------------
+
+describe('parseJvmDiagnostics - compile errors', () => {
+  test('1. Maven compiler errors keep the javac symbol/location lines', () => {
+    expect(parseJvmDiagnostics(MAVEN_COMPILE)).toEqual([
+      {
+        message: 'cannot find symbol',
+        severity: 'error',
+        file: '/home/runner/work/app/app/src/main/java/com/acme/Foo.java',
+        line: 12,
+        column: 5,
+        tool: 'maven',
+        details: ['symbol: variable bar', 'location: class com.acme.Foo'],
+        logLine: 2,
+      },
+    ]);
+  });
+
+  test('2. Kotlin errors under Gradle, old and new location formats', () => {
+    const diags = parseJvmDiagnostics([
+      'e: file:///home/runner/work/app/app/src/main/kotlin/com/acme/Foo.kt: (12, 5): Unresolved reference: bar',
+      'e: file:///home/runner/work/app/app/src/main/kotlin/com/acme/Bar.kt:7:3 Type mismatch',
+    ]);
+    expect(diags.map((d) => [d.tool, d.file, d.line, d.column, d.message])).toEqual([
+      ['kotlin', '/home/runner/work/app/app/src/main/kotlin/com/acme/Foo.kt', 12, 5, 'Unresolved reference: bar'],
+      ['kotlin', '/home/runner/work/app/app/src/main/kotlin/com/acme/Bar.kt', 7, 3, 'Type mismatch'],
+    ]);
+  });
+
+  test('3. javac errors under Gradle', () => {
+    const [diag] = parseJvmDiagnostics([
+      '/home/runner/work/app/app/src/main/java/com/acme/Foo.java:12: error: incompatible types: String cannot be converted to int',
+      '        int x = "a";',
+      '                ^',
+    ]);
+    expect(diag).toMatchObject({ tool: 'javac', line: 12, message: 'incompatible types: String cannot be converted to int' });
+    expect(diag.test).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Test failures
+// ---------------------------------------------------------------------------
+
+describe('parseJvmDiagnostics - test failures', () => {
+  test('4. Surefire failures are located at the first frame outside the JDK and JUnit', () => {
+    const diags = parseJvmDiagnostics(SUREFIRE);
+    expect(diags[0]).toEqual({
+      message: 'org.opentest4j.AssertionFailedError: expected: <3> but was: <4>',
+      severity: 'error',
+      file: 'src/test/java/com/acme/FooTest.java',
+      line: 20,
+      tool: 'surefire',
+      code: 'org.opentest4j.AssertionFailedError',
+      test: 'FooTest.adds',
+      details: ['com.acme.FooTest.adds at src/test/java/com/acme/FooTest.java:20'],
+      logLine: 2,
+    });
+  });
+
+  test('5. Frames of main classes resolve under src/main/java', () => {
+    const diags = parseJvmDiagnostics(SUREFIRE);
+    expect(diags[1]).toMatchObject({ test: 'FooTest.loads', file: 'src/main/java/com/acme/Loader.java', line: 42 });
+  });
+
+  test('6. Summary entries only add tests without a printed failure block', () => {
+    const diags = parseJvmDiagnostics(SUREFIRE);
+    expect(diags.map((d) => d.test)).toEqual(['FooTest.adds', 'FooTest.loads', 'BarTest.parses']);
+    expect(diags[2]).toMatchObject({ message: 'IllegalState bad input', tool: 'surefire' });
+  });
+
+  test('7. Gradle test failures, short and full exception formats', () => {
+    const diags = parseJvmDiagnostics([
+      'com.acme.FooTest > adds() FAILED',
+      '    org.opentest4j.AssertionFailedError at FooTest.kt:20',
+      '',
+      'com.acme.BarTest > parses() FAILED',
+      '    java.lang.IllegalStateException: bad input',
+      '        at app//com.acme.Parser.parse(Parser.kt:8)',
+      '        at app//com.acme.BarTest.parses(BarTest.kt:12)',
+    ]);
+    expect(diags.map((d) => [d.test, d.file, d.line, d.code])).toEqual([
+      ['com.acme.FooTest > adds()', 'src/test/kotlin/com/acme/FooTest.kt', 20, 'org.opentest4j.AssertionFailedError'],
+      ['com.acme.BarTest > parses()', 'src/main/kotlin/com/acme/Parser.kt', 8, 'java.lang.IllegalStateException'],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Uncaught exceptions
+// ---------------------------------------------------------------------------
+
+describe('parseJvmDiagnostics - exceptions', () => {
+  test('8. Each exception of a "Caused by" chain becomes a diagnostic', () => {
+    const diags = parseJvmDiagnostics([
+      'Exception in thread "main" java.lang.RuntimeException: startup failed',
+      '\tat com.acme.App.main(App.java:10)',
+      'Caused by: java.io.FileNotFoundException: config.yml',
+      '\tat java.base/java.io.FileInputStream.open0(Native Method)',
+      '\tat com.acme.Config.read(Config.java:22)',
+      '\t... 1 more',
+    ]);
+    expect(diags.map((d) => [d.code, d.file, d.line])).toEqual([
+      ['java.lang.RuntimeException', 'src/main/java/com/acme/App.java', 10],
+      ['java.io.FileNotFoundException', 'src/main/java/com/acme/Config.java', 22],
+    ]);
+    expect(diags.every((d) => d.test === undefined && d.tool === 'java')).toBe(true);
+  });
+
+  test('9. Exceptions with only library frames are skipped', () => {
+    expect(
+      parseJvmDiagnostics(['java.lang.OutOfMemoryError: Java heap space', '\tat java.base/java.util.Arrays.copyOf(Arrays.java:3512)'])
+    ).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Path resolution and extraction
+// ---------------------------------------------------------------------------
+
+describe('JVM errors in extracted errors', () => {
+  test('10. jvmSourceCandidates lists the other source roots of a module', () => {
+    const candidates = jvmSourceCandidates('core/src/main/java/com/acme/Foo.java');
+    expect(candidates).toContain('core/src/test/java/com/acme/Foo.java');
+    expect(candidates).toContain('core/src/main/kotlin/com/acme/Foo.java');
+    expect(candidates).not.toContain('core/src/main/java/com/acme/Foo.java');
+    expect(jvmSourceCandidates('src/app.ts')).toEqual([]);
+  });
+
+  test('11. isJvmError recognizes compile errors, test failures and exceptions', () => {
+    expect(isJvmError('[ERROR] /src/main/java/com/x/Foo.java:[12,5] cannot find symbol')).toBe(true);
+    expect(isJvmError('e: file:///a/Foo.kt: (12, 5): Unresolved reference: bar')).toBe(true);
+    expect(isJvmError('[ERROR] com.acme.FooTest.adds -- Time elapsed: 0.01 s <<< FAILURE!')).toBe(true);
+    expect(isJvmError('Caused by: java.io.IOException: x')).toBe(true);
+    expect(isJvmError('[INFO] BUILD SUCCESS')).toBe(false);
+  });
+
+  test('12. Compile errors become repo-relative; test failures stay separate', () => {
+    const result = extractErrors([...MAVEN_COMPILE, ...SUREFIRE].join('\n'));
+    const jvm = result.diagnostics?.filter((d) => d.tool === 'maven' || d.tool === 'surefire') ?? [];
+    expect(jvm[0]).toMatchObject({ tool: 'maven', file: 'src/main/java/com/acme/Foo.java' });
+    expect(jvm.slice(1).every((d) => d.test !== undefined)).toBe(true);
+  });
+
+  test('13. With the git tree, rebuilt paths resolve into the right module', () => {
+    const trackedFiles = createTrackedFileIndex([
+      'service/src/main/java/com/acme/Loader.java',
+      'service/src/test/java/com/acme/FooTest.java',
+    ]);
+    const result = extractErrors(SUREFIRE.join('\n'), 'github', { trackedFiles });
+    const tests = result.diagnostics?.filter((d) => d.test !== undefined) ?? [];
+    expect(tests.map((d) => d.file)).toEqual([
+      'service/src/test/java/com/acme/FooTest.java',
+      'service/src/main/java/com/acme/Loader.java',
+      undefined,
+    ]);
+  });
+  test('14. The rendered diagnostic names the exception type once', () => {
+    const log = [
+      'Exception in thread "main" java.lang.RuntimeException: startup failed',
+      '\tat com.acme.App.main(App.java:10)',
+    ].join('\n');
+    const prompt = buildPrompt({ repo: 'acme/app', branch: 'main', runId: '1', includeContext: false, error: extractErrors(log) });
+    expect(prompt).toContain('**`src/main/java/com/acme/App.java:10`** - java.lang.RuntimeException: startup failed\n');
+  });
+});
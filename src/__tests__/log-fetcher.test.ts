@@ -4,7 +4,7 @@
  * Mocks child_process.execSync to test all CLI edge cases without
  * requiring gh/glab to be installed or authenticated.
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
 
 // ---------------------------------------------------------------------------
 // Mock child_process before importing the module under test
@@ -14,7 +14,10 @@ vi.mock('child_process', () => ({
 }));
 
 import { execSync } from 'child_process';
-import { fetchFailedLog, fetchGitLabFailedLog } from '../log-fetcher.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fetchFailedLog, fetchGitLabFailedLog, readLocalLog } from '../log-fetcher.js';
 
 const mockExecSync = vi.mocked(execSync);
 
@@ -227,8 +230,60 @@ describe('fetchGitLabFailedLog', () => {
     mockExecSync.mockImplementationOnce(() => execReturns('ERROR: Job failed: exit code 1\nlog line'));
 
     const result = fetchGitLabFailedLog('999');
-    expect(result).toContain('ERROR: Job failed');
-    expect(result).toContain('log line');
+    expect(result).toHaveLength(1);
+    expect(result[0]?.name).toBe('build');
+    expect(result[0]?.log).toContain('ERROR: Job failed');
+    expect(result[0]?.log).toContain('log line');
+  });
+
+  it('fetches the trace of every failed job, with job name and stage', () => {
+    mockExecSync.mockImplementationOnce(() => execReturns('glab version 1.40.0'));
+    mockExecSync.mockImplementationOnce(() => execReturns(''));
+    mockExecSync.mockImplementationOnce(() =>
+      execReturns(JSON.stringify([
+        { id: 1, name: 'lint', stage: 'test', status: 'failed' },
+        { id: 2, name: 'build', stage: 'build', status: 'success' },
+        { id: 3, name: 'unit', stage: 'test', status: 'failed' },
+      ]))
+    );
+    mockExecSync.mockImplementationOnce(() => execReturns('lint trace'));
+    mockExecSync.mockImplementationOnce(() => execReturns('unit trace'));
+
+    const result = fetchGitLabFailedLog('999');
+    expect(result).toEqual([
+      { name: 'lint', stage: 'test', log: 'lint trace' },
+      { name: 'unit', stage: 'test', log: 'unit trace' },
+    ]);
+    expect(mockExecSync.mock.calls[3]?.[0]).toContain('jobs/1/trace');
+    expect(mockExecSync.mock.calls[4]?.[0]).toContain('jobs/3/trace');
+  });
+
+  it('only fetches the failed job named by the job filter', () => {
+    mockExecSync.mockImplementationOnce(() => execReturns('glab version 1.40.0'));
+    mockExecSync.mockImplementationOnce(() => execReturns(''));
+    mockExecSync.mockImplementationOnce(() =>
+      execReturns(JSON.stringify([
+        { id: 1, name: 'lint', stage: 'test', status: 'failed' },
+        { id: 3, name: 'unit', stage: 'test', status: 'failed' },
+      ]))
+    );
+    mockExecSync.mockImplementationOnce(() => execReturns('unit trace'));
+
+    const result = fetchGitLabFailedLog('999', 'unit');
+    expect(result.map((j) => j.name)).toEqual(['unit']);
+    expect(mockExecSync).toHaveBeenCalledTimes(4);
+  });
+
+  it('throws listing the failed jobs when the job filter matches none', () => {
+    mockExecSync.mockImplementationOnce(() => execReturns('glab version 1.40.0'));
+    mockExecSync.mockImplementationOnce(() => execReturns(''));
+    mockExecSync.mockImplementationOnce(() =>
+      execReturns(JSON.stringify([{ id: 1, name: 'lint', stage: 'test', status: 'failed' }]))
+    );
+
+    expect(() => fetchGitLabFailedLog('999', 'e2e')).toThrow(
+      'No failed job named "e2e" in pipeline 999 (failed jobs: lint)'
+    );
   });
 
   it('throws a clear error when glab is not installed', () => {
@@ -321,7 +376,7 @@ describe('detectLatestFailedPipelineId (via fetchGitLabFailedLog auto-detect)',
     mockExecSync.mockImplementationOnce(() => execReturns('pipeline auto-detect log'));
 
     const result = fetchGitLabFailedLog();
-    expect(result).toBe('pipeline auto-detect log');
+    expect(result[0]?.log).toBe('pipeline auto-detect log');
   });
 
   it('throws when no failed pipelines are found (empty array)', () => {
@@ -399,3 +454,42 @@ describe('error mapping (mapGhError / mapGlabError via thrown messages)', () =>
     );
   });
 });
+
+// ---------------------------------------------------------------------------
+// readLocalLog (offline mode)
+// ---------------------------------------------------------------------------
+
+describe('readLocalLog', () => {
+  const tmpDir = mkdtempSync(join(tmpdir(), 'failprompt-log-'));
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterAll(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('returns the content of a local log file', () => {
+    const logPath = join(tmpDir, 'run.log');
+    writeFileSync(logPath, '##[error]Process completed with exit code 1.\n', 'utf-8');
+
+    expect(readLocalLog(logPath)).toBe('##[error]Process completed with exit code 1.\n');
+  });
+
+  it('never shells out to gh or glab', () => {
+    const logPath = join(tmpDir, 'offline.log');
+    writeFileSync(logPath, 'ERROR: Job failed: exit code 1', 'utf-8');
+
+    readLocalLog(logPath);
+    expect(mockExecSync).not.toHaveBeenCalled();
+  });
+
+  it('throws a clear error when the file does not exist', () => {
+    expect(() => readLocalLog(join(tmpDir, 'missing.log'))).toThrow('Log file not found');
+  });
+
+  it('throws a clear error when the path is a directory', () => {
+    expect(() => readLocalLog(tmpDir)).toThrow('Log path is a directory');
+  });
+});
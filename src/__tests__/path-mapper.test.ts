@@ -0,0 +1,150 @@
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { detectWorkspaceRoots, toRepoRelative, mapAbsolutePaths } from '../path-mapper.js';
+import { extractErrors, extractFilePaths } from '../error-extractor.js';
+import { readFileContext } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const GITHUB_STACK_LOG = [
+  'Test\tRun tests\t2026-03-01T10:00:01.000Z   env:',
+  'Test\tRun tests\t2026-03-01T10:00:01.000Z     GITHUB_WORKSPACE: /home/runner/work/app/app',
+  'Test\tRun tests\t2026-03-01T10:00:02.000Z TypeError: Cannot read properties of undefined',
+  'Test\tRun tests\t2026-03-01T10:00:02.000Z     at parse (/home/runner/work/app/app/packages/core/src/x.ts:42:5)',
+  'Test\tRun tests\t2026-03-01T10:00:02.000Z     at /usr/lib/node_modules/vitest/dist/run.js:10:3',
+  'Test\tRun tests\t2026-03-01T10:00:03.000Z ##[error]Process completed with exit code 1.',
+].join('\n');
+
+const GITLAB_LOG = [
+  'section_start:1700000000:get_sources\r\x1b[0K\x1b[36;1mGetting source from Git repository\x1b[0;m',
+  'Initialized empty Git repository in /builds/group/project/.git/',
+  'section_end:1700000001:get_sources\r\x1b[0K',
+  'section_start:1700000002:step_script\r\x1b[0K\x1b[36;1mExecuting "step_script" stage\x1b[0;m',
+  '$ npm test',
+  'Error: connection refused',
+  '    at connect (/builds/group/project/server/db.ts:17:9)',
+  'section_end:1700000003:step_script\r\x1b[0K',
+  'ERROR: Job failed: exit code 1',
+].join('\n');
+
+// ---------------------------------------------------------------------------
+// detectWorkspaceRoots
+// ---------------------------------------------------------------------------
+
+describe('detectWorkspaceRoots', () => {
+  test('1. Reads GITHUB_WORKSPACE from an env dump', () => {
+    expect(detectWorkspaceRoots('  GITHUB_WORKSPACE: /home/runner/work/app/app\n')).toEqual([
+      '/home/runner/work/app/app',
+    ]);
+  });
+
+  test('2. Reads CI_PROJECT_DIR from printenv output', () => {
+    expect(detectWorkspaceRoots('CI_PROJECT_DIR=/builds/group/sub/project\n')).toEqual([
+      '/builds/group/sub/project',
+    ]);
+  });
+
+  test('3. Reads the GitLab clone directory', () => {
+    expect(detectWorkspaceRoots(GITLAB_LOG)).toEqual(['/builds/group/project']);
+  });
+
+  test('4. Recognizes GitHub runner layouts without env dumps', () => {
+    const log = [
+      'at a (/home/runner/work/app/app/src/a.ts:1:1)',
+      'at b (/__w/svc/svc/lib/b.js:2:2)',
+    ].join('\n');
+    expect(detectWorkspaceRoots(log).sort()).toEqual(['/__w/svc/svc', '/home/runner/work/app/app']);
+  });
+
+  test('5. Falls back to the repo name', () => {
+    const log = 'at x (/home/gitlab-runner/builds/abc/0/group/project/src/x.ts:3:1)';
+    expect(detectWorkspaceRoots(log, 'group/project')).toEqual([
+      '/home/gitlab-runner/builds/abc/0/group/project',
+    ]);
+  });
+
+  test('6. Returns nothing for logs without workspace paths', () => {
+    expect(detectWorkspaceRoots('src/a.ts(1,1): error TS2304: nope', 'owner/app')).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// toRepoRelative / mapAbsolutePaths
+// ---------------------------------------------------------------------------
+
+describe('toRepoRelative', () => {
+  test('7. Strips a detected root and keeps the line/column suffix', () => {
+    expect(toRepoRelative('/builds/group/project/src/x.ts:4:2', ['/builds/group/project'])).toBe('src/x.ts:4:2');
+  });
+
+  test('8. Maps known runner layouts without detected roots', () => {
+    expect(toRepoRelative('/home/runner/work/app/app/packages/core/src/x.ts')).toBe('packages/core/src/x.ts');
+    expect(toRepoRelative('D:\\a\\app\\app\\src\\x.ts')).toBe('src/x.ts');
+  });
+
+  test('9. Leaves paths outside the workspace unchanged', () => {
+    expect(toRepoRelative('/usr/lib/node.js', ['/builds/group/project'])).toBe('/usr/lib/node.js');
+    expect(toRepoRelative('/builds/group/project-two/a.ts', ['/builds/group/project'])).toBe(
+      '/builds/group/project-two/a.ts'
+    );
+  });
+});
+
+describe('mapAbsolutePaths', () => {
+  test('10. Returns mapped paths and blanks them out of the line', () => {
+    const { paths, rest } = mapAbsolutePaths('at f (/builds/g/p/lib/a.js:1:2)', ['/builds/g/p']);
+    expect(paths).toEqual(['lib/a.js:1:2']);
+    expect(rest).not.toContain('lib/a.js');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Integration with extraction and context reading
+// ---------------------------------------------------------------------------
+
+describe('absolute paths in extracted errors', () => {
+  test('11. extractFilePaths maps absolute paths without duplicate fragments', () => {
+    const paths = extractFilePaths(
+      ['at parse (/home/runner/work/app/app/packages/core/src/x.ts:42:5)'],
+      ['/home/runner/work/app/app']
+    );
+    expect(paths).toEqual(['packages/core/src/x.ts:42:5']);
+  });
+
+  test('12. GitHub stack traces become repo-relative, foreign paths are dropped', () => {
+    const result = extractErrors(GITHUB_STACK_LOG);
+    expect(result.filePaths).toContain('packages/core/src/x.ts:42:5');
+    expect(result.filePaths.some((p) => p.startsWith('/'))).toBe(false);
+  });
+
+  test('13. GitLab paths outside the known prefixes are captured via the clone directory', () => {
+    const result = extractErrors(GITLAB_LOG, 'gitlab');
+    expect(result.filePaths).toContain('server/db.ts:17:9');
+  });
+
+  test('14. Explicit workspace roots override detection', () => {
+    const result = extractErrors('Error: boom\n    at f (/srv/checkout/tools/gen.ts:5:1)', 'github', {
+      workspaceRoots: ['/srv/checkout'],
+    });
+    expect(result.filePaths).toContain('tools/gen.ts:5:1');
+  });
+
+  test('15. readFileContext finds files behind runner paths', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'failprompt-paths-'));
+    const cwd = process.cwd();
+    try {
+      mkdirSync(join(dir, 'src'));
+      writeFileSync(join(dir, 'src', 'x.ts'), 'const a = 1;\nconst b = 2;\n');
+      process.chdir(dir);
+      const ctx = readFileContext('/home/runner/work/app/app/src/x.ts:2:1');
+      expect(ctx?.filePath).toBe('src/x.ts');
+      expect(ctx?.content).toContain('const b = 2;');
+    } finally {
+      process.chdir(cwd);
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,9 +1,20 @@
-import { buildPrompt, readFileContext } from '../prompt-builder.js';
+import { buildPrompt, buildMultiJobPrompt, readFileContext } from '../prompt-builder.js';
 import type { ExtractedError } from '../error-extractor.js';
-import { writeFileSync, unlinkSync } from 'fs';
+import { extractErrors } from '../error-extractor.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import os from 'os';
 
+// readFileContext only reads files inside the working directory, so the
+// fixture files written to the temp dir need it as the working directory
+const originalCwd = process.cwd();
+beforeAll(() => {
+  process.chdir(os.tmpdir());
+});
+afterAll(() => {
+  process.chdir(originalCwd);
+});
+
 // ---------------------------------------------------------------------------
 // Fixtures
 // ---------------------------------------------------------------------------
@@ -198,6 +209,32 @@ describe('readFileContext', () => {
       unlinkSync(tmpFile);
     }
   });
+
+  test('25. Never reads files outside the working directory', () => {
+    const dir = mkdtempSync(join(os.tmpdir(), 'failprompt-outside-'));
+    const cwd = process.cwd();
+    try {
+      mkdirSync(join(dir, 'repo', 'src'), { recursive: true });
+      writeFileSync(join(dir, 'secret.ts'), 'const token = "s3cret";\n');
+      writeFileSync(join(dir, 'repo', 'src', 'app.ts'), 'const app = 1;\n');
+      process.chdir(join(dir, 'repo'));
+
+      expect(readFileContext('src/app.ts:1')).not.toBeNull();
+      expect(readFileContext('../secret.ts:1')).toBeNull();
+      expect(readFileContext('src/../../secret.ts')).toBeNull();
+      expect(readFileContext(`${join(dir, 'secret.ts')}:1`)).toBeNull();
+      expect(readFileContext('/etc/passwd:3')).toBeNull();
+
+      // A traceback frame naming /etc/passwd must not put the file in the prompt
+      const log = ['Traceback (most recent call last):', '  File "/etc/passwd", line 3, in <module>', 'ValueError: bad'].join('\n');
+      const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: true, error: extractErrors(log) });
+      expect(prompt).not.toContain('root:');
+      expect(prompt).not.toContain('```passwd');
+    } finally {
+      process.chdir(cwd);
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -396,3 +433,157 @@ describe('buildPrompt - multi-file source context (T-005)', () => {
     expect(prompt).toContain('### Task');
   });
 });
+
+// ---------------------------------------------------------------------------
+// Multi-job prompts (one section per failed job)
+// ---------------------------------------------------------------------------
+
+describe('buildMultiJobPrompt', () => {
+  const LINT_ERROR: ExtractedError = {
+    stepName: 'lint_script',
+    errorLines: ['error: no-unused-vars'],
+    allErrors: ['##[error]ERROR: Job failed: exit code 1'],
+    fullContext: 'src/a.ts: error: no-unused-vars',
+    filePaths: [],
+    jobName: 'lint',
+    stage: 'test',
+  };
+
+  const UNIT_ERROR: ExtractedError = {
+    stepName: 'test_script',
+    errorLines: ['FAILED tests/unit.test.ts'],
+    allErrors: ['##[error]ERROR: Job failed: exit code 2'],
+    fullContext: 'FAILED tests/unit.test.ts',
+    filePaths: [],
+    jobName: 'unit',
+    stage: 'test',
+  };
+
+  test('19. Renders one section per job naming the job and stage', () => {
+    const prompt = buildMultiJobPrompt({
+      repo: 'group/project',
+      branch: 'main',
+      runId: '555',
+      includeContext: false,
+      errors: [LINT_ERROR, UNIT_ERROR],
+    });
+
+    expect(prompt).toContain('**Failed jobs:** 2');
+    expect(prompt).toContain('## Job: lint (stage: test)');
+    expect(prompt).toContain('## Job: unit (stage: test)');
+    expect(prompt.indexOf('no-unused-vars')).toBeLessThan(prompt.indexOf('## Job: unit'));
+    expect(prompt.indexOf('FAILED tests/unit.test.ts')).toBeGreaterThan(prompt.indexOf('## Job: unit'));
+    expect((prompt.match(/## Task/g) || []).length).toBe(1);
+  });
+
+  test('20. A single job uses the regular layout with a Job line', () => {
+    const prompt = buildMultiJobPrompt({
+      repo: 'group/project',
+      branch: 'main',
+      runId: '555',
+      includeContext: false,
+      errors: [LINT_ERROR],
+    });
+
+    expect(prompt).toContain('**Job:** lint (stage: test)');
+    expect(prompt).not.toContain('## Job:');
+    expect(prompt).toContain('### Task');
+  });
+
+  test('21. buildPrompt omits the Job line when the job is unknown', () => {
+    const prompt = buildPrompt({
+      repo: 'myorg/myapp',
+      branch: 'main',
+      runId: '123',
+      includeContext: false,
+      error: MOCK_ERROR,
+    });
+
+    expect(prompt).not.toContain('**Job:**');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Compiler diagnostics with source snippets
+// ---------------------------------------------------------------------------
+
+describe('buildPrompt - diagnostics', () => {
+  const tmpFile = join(os.tmpdir(), 'diagnostic-snippet.ts');
+  const source = Array.from({ length: 30 }, (_, i) => `const line${String(i + 1)} = ${String(i + 1)};`).join('\n');
+
+  beforeAll(() => {
+    writeFileSync(tmpFile, source, 'utf-8');
+  });
+
+  afterAll(() => {
+    unlinkSync(tmpFile);
+  });
+
+  const errorWithDiagnostic = (): ExtractedError => ({
+    stepName: 'Run build',
+    errorLines: ['##[error]Process completed with exit code 2.'],
+    allErrors: ['##[error]Process completed with exit code 2.'],
+    fullContext: `${tmpFile}(20,7): error TS2322: Type 'number' is not assignable to type 'string'.`,
+    filePaths: [`${tmpFile}:20:7`],
+    diagnostics: [
+      {
+        message: "Type 'number' is not assignable to type 'string'.",
+        severity: 'error',
+        file: tmpFile,
+        line: 20,
+        column: 7,
+        tool: 'tsc',
+        code: 'TS2322',
+        details: ["The expected type comes from property 'name'"],
+      },
+      {
+        message: 'Process completed with exit code 2.',
+        severity: 'error',
+        details: [],
+      },
+    ],
+  });
+
+  test('22. Renders each located diagnostic with location, code and details', () => {
+    const prompt = buildPrompt({
+      repo: 'myorg/myapp',
+      branch: 'main',
+      runId: '123',
+      includeContext: false,
+      error: errorWithDiagnostic(),
+    });
+
+    expect(prompt).toContain('### Diagnostics');
+    expect(prompt).toContain(`**\`${tmpFile}:20:7\`** - TS2322: Type 'number' is not assignable to type 'string'.`);
+    expect(prompt).toContain("> The expected type comes from property 'name'");
+    // Diagnostics without a location stay in All Errors only
+    expect(prompt.slice(prompt.indexOf('### Diagnostics'))).not.toContain('Process completed');
+  });
+
+  test('23. Shows a numbered snippet centered on the failing line', () => {
+    const prompt = buildPrompt({
+      repo: 'myorg/myapp',
+      branch: 'main',
+      runId: '123',
+      includeContext: true,
+      error: errorWithDiagnostic(),
+    });
+
+    expect(prompt).toContain('> 20 | const line20 = 20;');
+    expect(prompt).toContain('  15 | const line15 = 15;');
+    expect(prompt).not.toContain('const line14 = 14;');
+    // The same file is not repeated as a separate Source Context block
+    expect(prompt).not.toContain('### Source Context');
+  });
+
+  test('24. readFileContext centers on the line of a file:line:col path', () => {
+    const result = readFileContext(`${tmpFile}:20:7`, 2);
+    expect(result?.content.split('\n')).toEqual([
+      'const line18 = 18;',
+      'const line19 = 19;',
+      'const line20 = 20;',
+      'const line21 = 21;',
+      'const line22 = 22;',
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+import { loadTemplate, renderTemplate, TEMPLATE_PRESETS } from '../prompt-template.js';
+import type { ExtractedError } from '../error-extractor.js';
+import { buildMultiJobPrompt, buildPrompt, buildTemplateData } from '../prompt-builder.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+
+// ---------------------------------------------------------------------------
+// renderTemplate
+// ---------------------------------------------------------------------------
+
+describe('renderTemplate', () => {
+  test('1. Values, dotted names and numbers', () => {
+    expect(renderTemplate('{{repo}} #{{run}}: {{failure.category}} ({{failure.confidence}}%)', {
+      repo: 'o/r',
+      run: 42,
+      failure: { category: 'code', confidence: 70 },
+    })).toBe('o/r #42: code (70%)');
+  });
+
+  test('2. Loops see the item, its position and the outer scope', () => {
+    const template = [
+      '{{#each errors}}',
+      '{{@number}}. {{message}} in {{repo}}',
+      '{{#each files}}',
+      '   - {{this}}',
+      '{{/each}}',
+      '{{/each}}',
+    ].join('\n');
+    const data = {
+      repo: 'o/r',
+      errors: [
+        { message: 'a', files: ['x.ts', 'y.ts'] },
+        { message: 'b', files: [] },
+      ],
+    };
+    expect(renderTemplate(template, data)).toBe('1. a in o/r\n   - x.ts\n   - y.ts\n2. b in o/r');
+  });
+
+  test('3. #if / else; block tags on their own line leave no blank lines', () => {
+    const template = 'Header\n{{#if files}}\nhas files\n{{else}}\nno files\n{{/if}}\n{{! a comment }}\nFooter';
+    expect(renderTemplate(template, { files: [] })).toBe('Header\nno files\nFooter');
+    expect(renderTemplate(template, { files: ['a'] })).toBe('Header\nhas files\nFooter');
+  });
+
+  test('4. Unknown names and inherited properties are errors with a line number', () => {
+    expect(() => renderTemplate('ok\n{{reop}}', { repo: 'o/r' })).toThrow('Template line 2: unknown name "reop"');
+    expect(() => renderTemplate('{{constructor}}', {})).toThrow('unknown name "constructor"');
+    expect(() => renderTemplate('{{repo.toString}}', { repo: 'o/r' })).toThrow('unknown name');
+  });
+
+  test('5. Expressions and malformed blocks are rejected', () => {
+    expect(() => renderTemplate('{{process.exit(1)}}', {})).toThrow('is not a name');
+    expect(() => renderTemplate("{{repo + 'x'}}", { repo: 'o/r' })).toThrow('is not a name');
+    expect(() => renderTemplate('{{#each errors}}', { errors: [] })).toThrow('{{#each errors}} is never closed');
+    expect(() => renderTemplate('{{/if}}', {})).toThrow('{{/if}} without a matching {{#if}}');
+    expect(() => renderTemplate('{{#with x}}{{/with}}', {})).toThrow('unknown block');
+    expect(() => renderTemplate('{{errors}}', { errors: [] })).toThrow('use {{#each errors}}');
+  });
+
+  test('6. loadTemplate returns presets by name and rejects unknown names', () => {
+    expect(loadTemplate('minimal')).toBe(TEMPLATE_PRESETS.get('minimal'));
+    expect(() => loadTemplate('no-such-template')).toThrow('not a preset: default, minimal, issue');
+
+    // A file named like a preset does not replace it; directories are rejected
+    const originalCwd = process.cwd();
+    const dir = mkdtempSync(join(os.tmpdir(), 'failprompt-template-'));
+    try {
+      process.chdir(dir);
+      writeFileSync('default', 'INJECTED {{repo}}');
+      mkdirSync('templates');
+      expect(loadTemplate('default')).toBe(TEMPLATE_PRESETS.get('default'));
+      expect(loadTemplate('./default')).toBe('INJECTED {{repo}}');
+      expect(() => loadTemplate('templates')).toThrow('Template "templates" is a directory');
+    } finally {
+      process.chdir(originalCwd);
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Templates in prompts
+// ---------------------------------------------------------------------------
+
+const ERROR: ExtractedError = {
+  stepName: 'Run tests',
+  errorLines: ['FAIL src/math.test.ts'],
+  allErrors: ['##[error]Process completed with exit code 1.'],
+  fullContext: 'FAIL src/math.test.ts\n##[error]Process completed with exit code 1.',
+  filePaths: [],
+  diagnostics: [
+    { message: 'expected 3 to be 4', severity: 'error', file: 'src/math.test.ts', line: 5, tool: 'vitest', test: 'math > adds', details: ['- 4', '+ 3'] },
+  ],
+  classification: { category: 'test', confidence: 0.8, reason: '1 failing test' },
+};
+
+describe('prompt templates', () => {
+  test('7. Template data covers repo, run, step, errors, tests and the task', () => {
+    const data = buildTemplateData({ repo: 'o/r', branch: 'main', runId: '7', includeContext: false, errors: [ERROR] });
+    expect(data).toMatchObject({
+      repo: 'o/r',
+      run: '7',
+      step: 'Run tests',
+      jobCount: 1,
+      failureType: 'test (80% confidence) - 1 failing test',
+      tests: [{ name: 'math > adds', location: 'src/math.test.ts:5', message: 'expected 3 to be 4' }],
+      errors: [{ message: '##[error]Process completed with exit code 1.', count: 1 }],
+    });
+  });
+
+  test('8. A custom template replaces the layout and can add house rules', () => {
+    const template = [
+      'Failure in {{step}} on {{branch}}:',
+      '{{#each tests}}',
+      '- {{name}}: {{message}}',
+      '{{/each}}',
+      '',
+      'We use pnpm, never suggest npm.',
+    ].join('\n');
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '7', includeContext: false, error: ERROR, template });
+    expect(prompt).toBe('Failure in Run tests on main:\n- math > adds: expected 3 to be 4\n\nWe use pnpm, never suggest npm.');
+  });
+
+  test('9. Every preset renders single- and multi-job runs', () => {
+    for (const [name, template] of TEMPLATE_PRESETS) {
+      const single = buildPrompt({ repo: 'o/r', branch: 'main', runId: '7', includeContext: false, error: ERROR, template });
+      expect(single, name).toContain('Run tests');
+      const multi = buildMultiJobPrompt({
+        repo: 'o/r',
+        branch: 'main',
+        runId: '7',
+        includeContext: false,
+        errors: [{ ...ERROR, jobName: 'unit' }, { ...ERROR, jobName: 'e2e', stepName: 'Run e2e' }],
+        template,
+      });
+      expect(multi, name).toContain('o/r');
+    }
+    const multi = buildMultiJobPrompt({
+      repo: 'o/r',
+      branch: 'main',
+      runId: '7',
+      includeContext: false,
+      errors: [{ ...ERROR, jobName: 'unit' }, { ...ERROR, jobName: 'e2e', stepName: 'Run e2e' }],
+      template: loadTemplate('default'),
+    });
+    expect(multi).toContain('## Job: unit');
+    expect(multi).toContain('## Job: e2e');
+    expect(multi).toContain('**Failing step:** Run e2e');
+  });
+});
+
+describe('default preset', () => {
+  const originalCwd = process.cwd();
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(os.tmpdir(), 'failprompt-preset-'));
+    mkdirSync(join(root, 'src'));
+    writeFileSync(join(root, 'src/math.ts'), 'export function add(a, b) {\n  return a - b;\n}\n');
+    writeFileSync(join(root, 'src/config.ts'), 'export const port = 80;\n');
+    process.chdir(root);
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test('10. Renders exactly the built-in layout, for one job and for several', () => {
+    const error: ExtractedError = {
+      ...ERROR,
+      jobName: 'unit',
+      stage: 'test',
+      allErrors: ["src/math.ts(2,3): error TS2322: Type 'x'.", "src/config.ts(1,1): error TS2322: Type 'x'.", ...ERROR.allErrors],
+      filePaths: ['src/math.ts:2', 'src/config.ts'],
+      diagnostics: [
+        { message: "Type 'x'.", severity: 'error', file: 'src/math.ts', line: 2, column: 3, tool: 'tsc', code: 'TS2322', details: ['more'], logLine: 0 },
+        { message: 'ValueError: bad', severity: 'error', file: 'app/x.py', line: 1, tool: 'python', code: 'ValueError', details: [], logLine: 1 },
+        ...(ERROR.diagnostics ?? []),
+        { message: 'Test failed', severity: 'error', tool: 'go', test: 'TestPing', details: ['ping_test.go:3: timeout'] },
+        { message: 'unused', severity: 'error', file: 'src/api.ts', line: 12, column: 7, tool: 'eslint', code: 'no-unused-vars', details: [] },
+      ],
+    };
+    const template = loadTemplate('default');
+    const base = { repo: 'o/r', branch: 'main', runId: '7', includeContext: true };
+
+    const single = buildPrompt({ ...base, error });
+    expect(single).toContain('### Lint Failures');
+    expect(buildPrompt({ ...base, error, template })).toBe(single);
+
+    const errors = [error, { ...ERROR, jobName: 'e2e', stepName: 'Run e2e' }, { ...ERROR, stepName: 'Lint' }];
+    expect(buildMultiJobPrompt({ ...base, errors, template })).toBe(buildMultiJobPrompt({ ...base, errors }));
+  });
+});
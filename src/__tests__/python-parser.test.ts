@@ -0,0 +1,197 @@
+import { parsePythonDiagnostics, isPythonError } from '../parsers/python.js';
+import { extractErrors, extractFilePaths } from '../error-extractor.js';
+import { buildPrompt } from '../prompt-builder.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const TRACEBACK = [
+  'Starting worker',
+  'Traceback (most recent call last):',
+  '  File "/home/runner/work/app/app/app/views.py", line 10, in handler',
+  '    result = save(payload)',
+  '  File "/home/runner/work/app/app/app/models.py", line 42, in save',
+  '    self.validate()',
+  '  File "/opt/hostedtoolcache/Python/3.12.1/x64/lib/python3.12/site-packages/pydantic/main.py", line 171, in validate',
+  '    raise ValidationError(errors)',
+  '    ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+  'pydantic.ValidationError: 1 validation error for User',
+  'exit status 1',
+];
+
+const PYTEST_OUTPUT = [
+  '============================= test session starts ==============================',
+  'collected 4 items',
+  '',
+  'tests/test_models.py F.                                                   [ 50%]',
+  'tests/test_api.py F                                                       [ 75%]',
+  '',
+  '=================================== FAILURES ===================================',
+  '__________________________________ test_save ___________________________________',
+  '',
+  '    def test_save():',
+  '>       assert save(1) == 2',
+  'E       assert 1 == 2',
+  'E        +  where 1 = save(1)',
+  '',
+  'tests/test_models.py:12: AssertionError',
+  '______________________________ TestApi.test_get ________________________________',
+  '',
+  '    def test_get(self):',
+  '>       body = fetch("/users")',
+  '',
+  'tests/test_api.py:20: ',
+  '_ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _ _',
+  '',
+  '>       return data["id"]',
+  "E       KeyError: 'id'",
+  '',
+  'app/client.py:8: KeyError',
+  '=========================== short test summary info ============================',
+  'FAILED tests/test_models.py::test_save - assert 1 == 2',
+  "FAILED tests/test_api.py::TestApi::test_get - KeyError: 'id'",
+  '========================= 2 failed, 2 passed in 0.12s ==========================',
+];
+
+// ---------------------------------------------------------------------------
+// Tracebacks
+// ---------------------------------------------------------------------------
+
+describe('parsePythonDiagnostics - tracebacks', () => {
+  test('1. Locates the innermost frame inside the repo, skipping site-packages', () => {
+    const [diag] = parsePythonDiagnostics(TRACEBACK);
+    expect(diag).toMatchObject({
+      file: '/home/runner/work/app/app/app/models.py',
+      line: 42,
+      tool: 'python',
+      code: 'pydantic.ValidationError',
+      message: 'pydantic.ValidationError: 1 validation error for User',
+      logLine: 9,
+    });
+  });
+
+  test('2. Lists in-repo frames innermost first', () => {
+    const [diag] = parsePythonDiagnostics(TRACEBACK);
+    expect(diag.details).toEqual([
+      '/home/runner/work/app/app/app/models.py:42 in save',
+      '/home/runner/work/app/app/app/views.py:10 in handler',
+    ]);
+  });
+
+  test('3. Parses each traceback of a chained exception', () => {
+    const diags = parsePythonDiagnostics([
+      'Traceback (most recent call last):',
+      '  File "app/db.py", line 3, in connect',
+      "KeyError: 'DATABASE_URL'",
+      '',
+      'During handling of the above exception, another exception occurred:',
+      '',
+      'Traceback (most recent call last):',
+      '  File "app/main.py", line 9, in <module>',
+      'RuntimeError: database not configured',
+    ]);
+    expect(diags.map((d) => [d.file, d.line, d.code])).toEqual([
+      ['app/db.py', 3, 'KeyError'],
+      ['app/main.py', 9, 'RuntimeError'],
+    ]);
+  });
+
+  test('4. Ignores a traceback cut off before any frame', () => {
+    expect(parsePythonDiagnostics(['Traceback (most recent call last):', 'Killed'])).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// pytest
+// ---------------------------------------------------------------------------
+
+describe('parsePythonDiagnostics - pytest', () => {
+  test('5. One diagnostic per short summary entry, with its E lines', () => {
+    const diags = parsePythonDiagnostics(PYTEST_OUTPUT);
+    expect(diags).toHaveLength(2);
+    expect(diags[0]).toMatchObject({
+      tool: 'pytest',
+      test: 'tests/test_models.py::test_save',
+      message: 'assert 1 == 2',
+      file: 'tests/test_models.py',
+      line: 12,
+      code: 'AssertionError',
+      details: ['assert 1 == 2', '+  where 1 = save(1)'],
+    });
+  });
+
+  test('6. Uses the innermost location of a class-based test', () => {
+    const [, second] = parsePythonDiagnostics(PYTEST_OUTPUT);
+    expect(second).toMatchObject({
+      test: 'tests/test_api.py::TestApi::test_get',
+      message: "KeyError: 'id'",
+      file: 'app/client.py',
+      line: 8,
+      code: 'KeyError',
+    });
+  });
+
+  test('7. Failure blocks without a summary still produce diagnostics', () => {
+    const withoutSummary = PYTEST_OUTPUT.filter((l) => !l.startsWith('FAILED'));
+    const diags = parsePythonDiagnostics(withoutSummary);
+    expect(diags.map((d) => [d.test, d.message])).toEqual([
+      ['test_save', '+  where 1 = save(1)'],
+      ['TestApi.test_get', "KeyError: 'id'"],
+    ]);
+  });
+
+  test('8. Collection errors link to their "ERROR collecting" block', () => {
+    const diags = parsePythonDiagnostics([
+      '_____________________ ERROR collecting tests/test_db.py ______________________',
+      "E   ModuleNotFoundError: No module named 'psycopg2'",
+      '=========================== short test summary info ============================',
+      "ERROR tests/test_db.py - ModuleNotFoundError: No module named 'psycopg2'",
+    ]);
+    expect(diags).toHaveLength(1);
+    expect(diags[0]).toMatchObject({ test: 'tests/test_db.py', file: 'tests/test_db.py' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Heuristics and extraction
+// ---------------------------------------------------------------------------
+
+describe('Python errors in extracted errors', () => {
+  test('9. isPythonError recognizes exceptions, pytest summaries and E lines', () => {
+    expect(isPythonError('ValueError: bad')).toBe(true);
+    expect(isPythonError('FAILED tests/test_x.py::test_y - AssertionError')).toBe(true);
+    expect(isPythonError('E       assert 1 == 2')).toBe(true);
+    expect(isPythonError('Every test passed')).toBe(false);
+  });
+
+  test('10. Traceback locations and frames become repo-relative', () => {
+    const result = extractErrors(TRACEBACK.join('\n'));
+    const diag = result.diagnostics?.find((d) => d.tool === 'python');
+    expect(diag).toMatchObject({ file: 'app/models.py', line: 42 });
+    expect(diag?.details).toEqual(['app/models.py:42 in save', 'app/views.py:10 in handler']);
+    expect(result.filePaths[0]).toBe('app/models.py:42');
+  });
+
+  test('11. pytest runs without ##[error] are picked up by the heuristics', () => {
+    const result = extractErrors(PYTEST_OUTPUT.join('\n'));
+    expect(result.allErrors).toContain('FAILED tests/test_models.py::test_save - assert 1 == 2');
+    expect(result.filePaths).toEqual(expect.arrayContaining(['tests/test_models.py:12', 'app/client.py:8']));
+  });
+  test('13. The rendered diagnostic names the exception type once', () => {
+    const error = extractErrors(TRACEBACK.join('\n'));
+    const prompt = buildPrompt({ repo: 'acme/app', branch: 'main', runId: '1', includeContext: false, error });
+    expect(prompt).toContain('**`app/models.py:42`** - pydantic.ValidationError: 1 validation error for User\n');
+    expect(prompt).not.toContain('ValidationError: pydantic.ValidationError');
+  });
+});
+
+describe('extractFilePaths - Python frames', () => {
+  test('12. Reads File "x.py", line N frames as path:line', () => {
+    expect(extractFilePaths(['  File "app/models.py", line 42, in save'])).toEqual(['app/models.py:42']);
+    expect(
+      extractFilePaths(['  File "/home/runner/work/app/app/app/views.py", line 10, in handler'])
+    ).toEqual(['app/views.py:10']);
+    expect(extractFilePaths(['  File "/usr/lib/python3.12/json/decoder.py", line 3, in decode'])).toEqual([]);
+  });
+});
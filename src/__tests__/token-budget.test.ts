@@ -0,0 +1,172 @@
+import { createBudgetReport, estimateTokens, fitBlocks, formatBudgetReport, PRIORITY } from '../token-budget.js';
+import type { PromptBlock, PromptSection } from '../token-budget.js';
+import type { ExtractedError } from '../error-extractor.js';
+import { buildPrompt } from '../prompt-builder.js';
+import { writeFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+
+/** A block of `tokens` estimated tokens (one line, counting its newline) */
+function block(priority: PromptBlock['priority'], label: string, tokens: number, extra: Partial<PromptBlock> = {}): PromptBlock {
+  return { priority, kind: 'file', label, lines: ['x'.repeat(tokens * 4 - 1)], ...extra };
+}
+
+// ---------------------------------------------------------------------------
+// estimateTokens / fitBlocks
+// ---------------------------------------------------------------------------
+
+describe('fitBlocks', () => {
+  test('1. estimateTokens counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  test('2. Without a budget every block is kept, in prompt order', () => {
+    const section: PromptSection = { heading: ['## S'], end: [''] };
+    const blocks = [
+      block(PRIORITY.required, 'h', 1),
+      { ...block(PRIORITY.otherErrors, 'a', 1), lines: ['- a'], section },
+      { ...block(PRIORITY.otherErrors, 'b', 1), lines: ['- b'], section },
+      { ...block(PRIORITY.required, 't', 1), lines: ['## Task'] },
+    ];
+    expect(fitBlocks(blocks, Infinity)).toEqual(['xxx', '## S', '- a', '- b', '', '## Task']);
+  });
+
+  test('3. Blocks are kept by priority and dropped when they no longer fit', () => {
+    const report = createBudgetReport();
+    const lines = fitBlocks(
+      [
+        block(PRIORITY.required, 'header', 10),
+        block(PRIORITY.otherFiles, 'other.ts', 20),
+        block(PRIORITY.otherErrors, 'error', 20),
+        block(PRIORITY.rootSnippet, 'root.ts', 20),
+      ],
+      55,
+      report
+    );
+    expect(lines).toHaveLength(3);
+    expect(report.dropped).toEqual([{ kind: 'file', label: 'other.ts' }]);
+    expect(report.usedTokens).toBeLessThanOrEqual(55);
+  });
+
+  test('4. A section heading disappears with its last block; fallbacks are used when only they fit', () => {
+    const section: PromptSection = { heading: ['### Diagnostics'], end: [] };
+    const report = createBudgetReport();
+    const lines = fitBlocks(
+      [
+        block(PRIORITY.required, 'header', 5),
+        block(PRIORITY.otherErrors, 'dropped', 50, { section }),
+        block(PRIORITY.otherErrors, 'short', 50, { fallback: ['short version'] }),
+      ],
+      15,
+      report
+    );
+    expect(lines).not.toContain('### Diagnostics');
+    expect(lines).toContain('short version');
+    expect(report.shortened).toEqual([{ kind: 'file', label: 'short' }]);
+  });
+
+  test('5. Required blocks are trimmed around their focus line', () => {
+    const content = Array.from({ length: 100 }, (_, i) => `log line ${String(i)}`);
+    const report = createBudgetReport();
+    const lines = fitBlocks(
+      [
+        {
+          priority: PRIORITY.required,
+          kind: 'error context',
+          label: 'build',
+          lines: ['### Error', '```', ...content, '```'],
+          trim: { start: 2, end: 102, focus: 2 + 70 },
+        },
+      ],
+      100,
+      report
+    );
+    expect(lines).toContain('log line 70');
+    expect(lines).not.toContain('log line 0');
+    expect(lines[2]).toMatch(/^\.\.\. \(\d+ lines trimmed\)$/);
+    expect(lines[lines.length - 1]).toBe('```');
+    expect(estimateTokens(lines.join('\n'))).toBeLessThanOrEqual(100);
+    expect(report.shortened).toEqual([{ kind: 'error context', label: 'build' }]);
+  });
+
+  test('6. formatBudgetReport lists dropped and shortened blocks per kind', () => {
+    const report = {
+      usedTokens: 980,
+      dropped: [
+        { kind: 'source file', label: 'src/a.ts' },
+        { kind: 'source file', label: 'src/b.ts' },
+        { kind: 'diagnostic', label: 'src/c.ts:3:1' },
+      ],
+      shortened: [],
+    };
+    expect(formatBudgetReport(report, 1000)).toBe(
+      'Token budget: ~980 of 1000 tokens used; dropped 2 source files (src/a.ts, src/b.ts), 1 diagnostic (src/c.ts:3:1)'
+    );
+    expect(formatBudgetReport(createBudgetReport(), 1000)).toBe('Token budget: ~0 of 1000 tokens used; nothing dropped');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildPrompt with --max-tokens
+// ---------------------------------------------------------------------------
+
+describe('buildPrompt with a token budget', () => {
+  // Source files are only read inside the working directory
+  const originalCwd = process.cwd();
+  const rootFile = join(os.tmpdir(), `failprompt-budget-root-${String(process.pid)}.ts`);
+  const otherFile = join(os.tmpdir(), `failprompt-budget-other-${String(process.pid)}.ts`);
+
+  beforeAll(() => {
+    process.chdir(os.tmpdir());
+    const source = Array.from({ length: 300 }, (_, i) => `const v${String(i)} = ${String(i)};`).join('\n');
+    writeFileSync(rootFile, source);
+    writeFileSync(otherFile, source);
+  });
+
+  afterAll(() => {
+    unlinkSync(rootFile);
+    unlinkSync(otherFile);
+    process.chdir(originalCwd);
+  });
+
+  const error: ExtractedError = {
+    stepName: 'Build',
+    errorLines: [`${rootFile}:120:3 - error TS2322: Type 'string' is not assignable to type 'number'.`],
+    allErrors: [`${rootFile}:120:3 - error TS2322: Type 'string' is not assignable to type 'number'.`],
+    fullContext: `${rootFile}:120:3 - error TS2322: Type 'string' is not assignable to type 'number'.`,
+    filePaths: [otherFile],
+    diagnostics: [
+      {
+        message: "Type 'string' is not assignable to type 'number'.",
+        severity: 'error',
+        file: rootFile,
+        line: 120,
+        column: 3,
+        tool: 'tsc',
+        code: 'TS2322',
+        details: [],
+        logLine: 0,
+      },
+    ],
+    rankedErrors: [{ logLine: 0, text: `${rootFile}:120:3 - error TS2322`, score: 80, factors: [] }],
+  };
+
+  test('7. A small budget keeps the root snippet and drops other files', () => {
+    const report = createBudgetReport();
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: true, error, maxTokens: 400, budgetReport: report });
+    expect(prompt).toContain('> 120 | const v119 = 119;');
+    expect(prompt).not.toContain('### Source Context');
+    expect(prompt).toContain('### Task');
+    expect(report.dropped).toContainEqual({ kind: 'source file', label: otherFile });
+  });
+
+  test('8. A large budget reads more of the other files than the default', () => {
+    const prompt = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: true, error, maxTokens: 100_000 });
+    expect(prompt).toContain('### Source Context');
+    expect(prompt).toContain('const v299 = 299;');
+    const unbudgeted = buildPrompt({ repo: 'o/r', branch: 'main', runId: '1', includeContext: true, error });
+    expect(unbudgeted).not.toContain('const v299 = 299;');
+  });
+});
@@ -0,0 +1,113 @@
+import { vi } from 'vitest';
+
+// git is mocked: listTrackedFiles only shells out to `git ls-files`
+vi.mock('child_process', () => ({
+  execSync: vi.fn(),
+}));
+
+import { execSync } from 'child_process';
+import { createTrackedFileIndex, listTrackedFiles, resolveTrackedPath } from '../tracked-files.js';
+import { extractErrors, extractFilePaths } from '../error-extractor.js';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const TRACKED = createTrackedFileIndex([
+  'vite.config.ts',
+  'server/routes/users.ts',
+  'cmd/api/main.go',
+  'internal/db/conn.go',
+  'packages/core/src/index.ts',
+  'packages/web/src/index.ts',
+  'src/app.ts',
+]);
+
+// ---------------------------------------------------------------------------
+// resolveTrackedPath
+// ---------------------------------------------------------------------------
+
+describe('resolveTrackedPath', () => {
+  test('1. Resolves exact paths, with or without ./ and backslashes', () => {
+    expect(resolveTrackedPath('server/routes/users.ts', TRACKED)).toBe('server/routes/users.ts');
+    expect(resolveTrackedPath('./internal/db/conn.go', TRACKED)).toBe('internal/db/conn.go');
+    expect(resolveTrackedPath('server\\routes\\users.ts', TRACKED)).toBe('server/routes/users.ts');
+  });
+
+  test('2. Resolves partial paths by suffix when unique', () => {
+    expect(resolveTrackedPath('core/src/index.ts', TRACKED)).toBe('packages/core/src/index.ts');
+    expect(resolveTrackedPath('routes/users.ts', TRACKED)).toBe('server/routes/users.ts');
+  });
+
+  test('3. Ambiguous partial paths resolve to nothing', () => {
+    expect(resolveTrackedPath('src/index.ts', TRACKED)).toBeUndefined();
+    expect(resolveTrackedPath('index.ts', TRACKED)).toBeUndefined();
+  });
+
+  test('4. Resolves paths with an unknown leading directory to the tracked file', () => {
+    expect(resolveTrackedPath('/tmp/checkout/src/app.ts', TRACKED)).toBe('src/app.ts');
+  });
+
+  test('5. Untracked files and segment-crossing suffixes do not count', () => {
+    expect(resolveTrackedPath('src/missing.ts', TRACKED)).toBeUndefined();
+    expect(resolveTrackedPath('pp.ts', TRACKED)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// extractFilePaths in git-tree mode
+// ---------------------------------------------------------------------------
+
+describe('extractFilePaths with tracked files', () => {
+  test('6. Finds paths outside the built-in prefix list', () => {
+    const lines = [
+      'server/routes/users.ts:12:3 - error TS2304: Cannot find name "x".',
+      './internal/db/conn.go:31:2: undefined: sql.Conn',
+      'failed to load config from vite.config.ts',
+    ];
+    expect(extractFilePaths(lines)).toEqual(['internal/db/conn.go:31:2']);
+    expect(extractFilePaths(lines, [], TRACKED)).toEqual([
+      'server/routes/users.ts:12:3',
+      'internal/db/conn.go:31:2',
+      'vite.config.ts',
+    ]);
+  });
+
+  test('7. Drops path-looking tokens that are not tracked', () => {
+    const lines = ['Error: Cannot find module src/generated/schema.js', 'at node_modules/foo/index.js:1:1'];
+    expect(extractFilePaths(lines, [], TRACKED)).toEqual([]);
+  });
+
+  test('8. Normalizes tsc (line,col) suffixes and completes partial paths', () => {
+    expect(extractFilePaths(['core/src/index.ts(3,1): error TS2304'], [], TRACKED)).toEqual([
+      'packages/core/src/index.ts:3:1',
+    ]);
+  });
+
+  test('9. extractErrors uses the git tree when trackedFiles is set', () => {
+    const log = '##[group]Run go build\n./cmd/api/main.go:8:2: undefined: run\n##[error]Process completed with exit code 1.\n##[endgroup]';
+    const result = extractErrors(log, 'github', { trackedFiles: TRACKED });
+    expect(result.filePaths).toEqual(['cmd/api/main.go:8:2']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listTrackedFiles
+// ---------------------------------------------------------------------------
+
+describe('listTrackedFiles', () => {
+  const mockExecSync = vi.mocked(execSync);
+
+  test('10. Lists tracked files of a git repository', () => {
+    mockExecSync.mockReturnValueOnce(Buffer.from('server/a.ts\0src/app.ts\0'));
+    expect(listTrackedFiles('/repo')).toEqual(['server/a.ts', 'src/app.ts']);
+    expect(mockExecSync).toHaveBeenCalledWith('git ls-files -z', expect.objectContaining({ cwd: '/repo' }));
+  });
+
+  test('11. Throws a clear error outside a git repository', () => {
+    mockExecSync.mockImplementationOnce(() => {
+      throw new Error('fatal: not a git repository (or any of the parent directories): .git');
+    });
+    expect(() => listTrackedFiles('/tmp')).toThrow(/git ls-files \(is this a git repository\?\): fatal: not a git repository/);
+  });
+});
@@ -0,0 +1,117 @@
+import { parseTscDiagnostics, isTscDiagnostic } from '../parsers/tsc.js';
+import { extractErrors } from '../error-extractor.js';
+
+// ---------------------------------------------------------------------------
+// Fixture logs
+// ---------------------------------------------------------------------------
+
+const PLAIN_OUTPUT = [
+  '> tsc --noEmit',
+  "src/parser.ts(42,7): error TS2345: Argument of type 'string | undefined' is not assignable to parameter of type 'string'.",
+  "  Type 'undefined' is not assignable to type 'string'.",
+  "packages/core/src/index.ts(3,1): error TS2304: Cannot find name 'foo'.",
+  'Found 2 errors in 2 files.',
+];
+
+const PRETTY_OUTPUT = [
+  "src/config.ts:12:5 - error TS2322: Type 'number' is not assignable to type 'string'.",
+  '',
+  "12     name: 42,",
+  '       ~~~~',
+  '',
+  '  src/types.ts:3:3',
+  '    3   name: string;',
+  '        ~~~~',
+  "    The expected type comes from property 'name' which is declared here on type 'Config'",
+  '',
+  'Found 1 error in src/config.ts:12',
+];
+
+const GH_TSC_LOG = [
+  'Build\tRun build\t2026-02-21T10:00:05.000Z ##[group]Run npx tsc',
+  "Build\tRun build\t2026-02-21T10:00:06.000Z src/parser.ts(42,7): error TS2345: Argument of type 'string | undefined' is not assignable to parameter of type 'string'.",
+  "Build\tRun build\t2026-02-21T10:00:06.000Z   Type 'undefined' is not assignable to type 'string'.",
+  'Build\tRun build\t2026-02-21T10:00:07.000Z ##[endgroup]',
+  'Build\tRun build\t2026-02-21T10:00:07.000Z ##[error]Process completed with exit code 2.',
+].join('\n');
+
+// ---------------------------------------------------------------------------
+// parseTscDiagnostics
+// ---------------------------------------------------------------------------
+
+describe('parseTscDiagnostics', () => {
+  test('1. Parses plain tsc output into file, line, column, code and message', () => {
+    const diagnostics = parseTscDiagnostics(PLAIN_OUTPUT);
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[0]).toEqual({
+      message: "Argument of type 'string | undefined' is not assignable to parameter of type 'string'.",
+      severity: 'error',
+      file: 'src/parser.ts',
+      line: 42,
+      column: 7,
+      tool: 'tsc',
+      code: 'TS2345',
+      details: ["Type 'undefined' is not assignable to type 'string'."],
+      logLine: 1,
+    });
+    expect(diagnostics[1]?.file).toBe('packages/core/src/index.ts');
+    expect(diagnostics[1]?.details).toEqual([]);
+  });
+
+  test('2. Parses --pretty output and keeps related information, skipping code frames', () => {
+    const [diag] = parseTscDiagnostics(PRETTY_OUTPUT);
+    expect(diag.file).toBe('src/config.ts');
+    expect(diag.line).toBe(12);
+    expect(diag.column).toBe(5);
+    expect(diag.code).toBe('TS2322');
+    expect(diag.details).toEqual([
+      'src/types.ts:3:3',
+      "The expected type comes from property 'name' which is declared here on type 'Config'",
+    ]);
+  });
+
+  test('3. Stops collecting continuation lines at the next non-indented line', () => {
+    const diagnostics = parseTscDiagnostics([
+      "src/a.ts(1,1): error TS1005: ';' expected.",
+      'npm ERR! code 2',
+      '  not a continuation of the tsc error',
+    ]);
+    expect(diagnostics[0]?.details).toEqual([]);
+  });
+
+  test('4. Deduplicates identical diagnostics', () => {
+    const line = "src/a.ts(1,1): error TS1005: ';' expected.";
+    expect(parseTscDiagnostics([line, line])).toHaveLength(1);
+  });
+
+  test('5. isTscDiagnostic recognizes both header styles only', () => {
+    expect(isTscDiagnostic('src/a.ts(1,2): error TS1005: x')).toBe(true);
+    expect(isTscDiagnostic('src/a.ts:1:2 - error TS1005: x')).toBe(true);
+    expect(isTscDiagnostic('Found 1 error in src/a.ts(1,2)')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// extractErrors integration
+// ---------------------------------------------------------------------------
+
+describe('extractErrors with tsc output', () => {
+  test('6. Fills diagnostics from a gh log, preserving continuation indentation', () => {
+    const result = extractErrors(GH_TSC_LOG);
+    const tsc = result.diagnostics?.filter((d) => d.tool === 'tsc') ?? [];
+    expect(tsc).toHaveLength(1);
+    expect(tsc[0]?.details).toEqual(["Type 'undefined' is not assignable to type 'string'."]);
+    expect(tsc[0]?.job).toBe('Build');
+    expect(tsc[0]?.step).toBe('Run build');
+  });
+
+  test('7. Puts the exact diagnostic location first in filePaths', () => {
+    const result = extractErrors(GH_TSC_LOG);
+    expect(result.filePaths[0]).toBe('src/parser.ts:42:7');
+  });
+
+  test('8. Detects tsc errors without any ##[error] marker', () => {
+    const result = extractErrors(PLAIN_OUTPUT.join('\n'));
+    expect(result.allErrors.some((e) => e.includes('TS2304'))).toBe(true);
+  });
+});
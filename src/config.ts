@@ -0,0 +1,313 @@
+/**
+ * Config file support.
+ *
+ * Settings that would otherwise need a flag on every run - provider and API
+ * host, extra path prefixes and error patterns, context sizes, redaction,
+ * template and output format - can live in a JSON config file named
+ * `.failpromptrc` or `failprompt.config.json`. Files are looked up in the
+ * current directory and every directory above it (so the repo root is
+ * covered), and in the home directory. Closer files win over farther ones,
+ * the home directory has the lowest precedence, and CLI flags override all of
+ * them. List settings (patterns, prefixes) add up instead of replacing.
+ *
+ * A config file found above the working directory may come with a cloned
+ * repository, so it can't choose where API tokens are sent (`apiUrl`,
+ * `gitlabUrl`), turn off secret masking (`"redact": false`) or pick which file
+ * is read as a template: those settings are only taken from the home
+ * directory config and from flags.
+ */
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { PATTERN_GROUPS, unknownPatternGroups } from './parsers/custom.js';
+import { TEMPLATE_PRESETS } from './prompt-template.js';
+
+/** Config file names, in the order they are read within one directory */
+export const CONFIG_FILE_NAMES = ['.failpromptrc', 'failprompt.config.json'];
+
+/** Context sizes; every field has a built-in default */
+export interface ContextConfig {
+  /** Source lines shown on each side of the failing line (default 20) */
+  fileRadius?: number;
+  /** Lines shown of a file referenced without a line number (default 200) */
+  fileLines?: number;
+  /** Source files shown in "Source Context" (default 5) */
+  maxFiles?: number;
+  /** Source lines shown on each side of a diagnostic (default 5) */
+  snippetRadius?: number;
+  /** Lines of the error context block (default 50) */
+  errorLines?: number;
+}
+
+export interface FailpromptConfig {
+  /** Default CI provider */
+  provider?: 'github' | 'gitlab' | 'auto';
+  /** GitHub REST API base URL (GitHub Enterprise Server) */
+  apiUrl?: string;
+  /** GitLab instance URL */
+  gitlabUrl?: string;
+  /** Directories that count as source roots in addition to src, lib, packages, ... */
+  pathPrefixes?: string[];
+  /**
+   * Regexes for error lines the built-in heuristics don't know; named groups
+   * file, line, column and message give the diagnostic's location and text
+   */
+  errorPatterns?: string[];
+  /** Regexes for lines that must never be picked as errors */
+  ignorePatterns?: string[];
+  context?: ContextConfig;
+  /** false disables secret masking */
+  redact?: boolean;
+  /** Extra regexes to mask, as with --redact-pattern */
+  redactPatterns?: string[];
+  /** Template file (relative to the config file) or preset name */
+  template?: string;
+  /** Output format: the markdown prompt or --json output */
+  format?: 'markdown' | 'json';
+}
+
+/** A config file and what it contains */
+export interface LoadedConfig {
+  path: string;
+  config: FailpromptConfig;
+}
+
+const CONFIG_KEYS: Array<keyof FailpromptConfig> = [
+  'provider',
+  'apiUrl',
+  'gitlabUrl',
+  'pathPrefixes',
+  'errorPatterns',
+  'ignorePatterns',
+  'context',
+  'redact',
+  'redactPatterns',
+  'template',
+  'format',
+];
+
+/** Settings only a trusted config (the home directory's) may set; see the module comment */
+const TRUSTED_KEYS: Array<keyof FailpromptConfig> = ['apiUrl', 'gitlabUrl'];
+
+const CONTEXT_KEYS: Array<keyof ContextConfig> = ['fileRadius', 'fileLines', 'maxFiles', 'snippetRadius', 'errorLines'];
+
+/** A directory prefix: "services", "modules/core" */
+const PATH_PREFIX = /^[\w@.-]+(?:\/[\w@.-]+)*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return Array.isArray(value) ? 'a list' : value === null ? 'null' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/** Throws unless every key of `value` is known */
+function checkKeys(value: Record<string, unknown>, known: string[], where: string): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      throw new Error(`${where}unknown key "${key}" (known keys: ${known.join(', ')})`);
+    }
+  }
+}
+
+function stringList(value: unknown, key: string, where: string): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${where}"${key}" must be a list of strings, got ${describe(value)}`);
+  }
+  return value as string[];
+}
+
+function regexList(value: unknown, key: string, where: string): string[] {
+  const list = stringList(value, key, where);
+  list.forEach((source, i) => {
+    try {
+      new RegExp(source);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`${where}"${key}[${String(i)}]" is not a valid regular expression: ${msg}`);
+    }
+  });
+  return list;
+}
+
+function url(value: unknown, key: string, where: string): string {
+  if (typeof value !== 'string' || !/^https?:\/\/\S+$/.test(value)) {
+    throw new Error(`${where}"${key}" must be an http(s) URL, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Checks a parsed config file and returns it typed.
+ *
+ * @param raw     - Parsed JSON
+ * @param source  - File path, used in error messages and to resolve a relative template path
+ * @param trusted - True for the home directory config, which may also set API
+ *                  hosts and template files
+ * @throws Error naming the file and the offending key
+ */
+export function validateConfig(raw: unknown, source: string, trusted = false): FailpromptConfig {
+  const where = `${source}: `;
+  if (!isObject(raw)) throw new Error(`${where}the config must be a JSON object, got ${describe(raw)}`);
+  checkKeys(raw, CONFIG_KEYS, where);
+  if (!trusted) {
+    for (const key of TRUSTED_KEYS) {
+      if (raw[key] !== undefined) {
+        throw new Error(
+          `${where}"${key}" is only accepted in the config file in your home directory or as a flag, ` +
+            'so a repository cannot choose where your API token is sent'
+        );
+      }
+    }
+    if (raw['redact'] === false) {
+      throw new Error(
+        `${where}"redact": false is only accepted in the config file in your home directory or as --no-redact, ` +
+          'so a repository cannot turn off secret masking'
+      );
+    }
+  }
+
+  const config: FailpromptConfig = {};
+  if (raw['provider'] !== undefined) {
+    const provider = raw['provider'];
+    if (provider !== 'github' && provider !== 'gitlab' && provider !== 'auto') {
+      throw new Error(`${where}"provider" must be "github", "gitlab" or "auto", got ${describe(provider)}`);
+    }
+    config.provider = provider;
+  }
+  if (raw['apiUrl'] !== undefined) config.apiUrl = url(raw['apiUrl'], 'apiUrl', where);
+  if (raw['gitlabUrl'] !== undefined) config.gitlabUrl = url(raw['gitlabUrl'], 'gitlabUrl', where);
+  if (raw['pathPrefixes'] !== undefined) {
+    config.pathPrefixes = stringList(raw['pathPrefixes'], 'pathPrefixes', where).map((prefix, i) => {
+      const trimmed = prefix.replace(/^\.\//, '').replace(/\/+$/, '');
+      if (!PATH_PREFIX.test(trimmed) || trimmed.split('/').includes('..')) {
+        throw new Error(`${where}"pathPrefixes[${String(i)}]" must be a relative directory like "services", got "${prefix}"`);
+      }
+      return trimmed;
+    });
+  }
+  if (raw['errorPatterns'] !== undefined) {
+    config.errorPatterns = regexList(raw['errorPatterns'], 'errorPatterns', where);
+    config.errorPatterns.forEach((source, i) => {
+      const unknown = unknownPatternGroups(source);
+      if (unknown.length > 0) {
+        throw new Error(
+          `${where}"errorPatterns[${String(i)}]" has an unknown group "${unknown[0]}" (use ${PATTERN_GROUPS.join(', ')})`
+        );
+      }
+    });
+  }
+  if (raw['ignorePatterns'] !== undefined) {
+    config.ignorePatterns = regexList(raw['ignorePatterns'], 'ignorePatterns', where);
+  }
+  if (raw['context'] !== undefined) {
+    const context = raw['context'];
+    if (!isObject(context)) throw new Error(`${where}"context" must be an object, got ${describe(context)}`);
+    checkKeys(context, CONTEXT_KEYS, `${where}context: `);
+    config.context = {};
+    for (const key of CONTEXT_KEYS) {
+      const value = context[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new Error(`${where}"context.${key}" must be a whole number of 0 or more, got ${describe(value)}`);
+      }
+      config.context[key] = value;
+    }
+  }
+  if (raw['redact'] !== undefined) {
+    if (typeof raw['redact'] !== 'boolean') {
+      throw new Error(`${where}"redact" must be true or false, got ${describe(raw['redact'])}`);
+    }
+    config.redact = raw['redact'];
+  }
+  if (raw['redactPatterns'] !== undefined) {
+    config.redactPatterns = regexList(raw['redactPatterns'], 'redactPatterns', where);
+  }
+  if (raw['template'] !== undefined) {
+    if (typeof raw['template'] !== 'string' || raw['template'] === '') {
+      throw new Error(`${where}"template" must be a file path or preset name, got ${describe(raw['template'])}`);
+    }
+    if (!trusted && !TEMPLATE_PRESETS.has(raw['template'])) {
+      throw new Error(
+        `${where}"template" may only name a preset (${Array.from(TEMPLATE_PRESETS.keys()).join(', ')}) here; ` +
+          'template files are only accepted in the config file in your home directory or as a flag'
+      );
+    }
+    // Template files are relative to the config file; preset names stay as they are
+    const relative = resolve(dirname(source), raw['template']);
+    config.template = trusted && existsSync(relative) ? relative : raw['template'];
+  }
+  if (raw['format'] !== undefined) {
+    if (raw['format'] !== 'markdown' && raw['format'] !== 'json') {
+      throw new Error(`${where}"format" must be "markdown" or "json", got ${describe(raw['format'])}`);
+    }
+    config.format = raw['format'];
+  }
+  return config;
+}
+
+/** Reads and validates one config file; `trusted` as in validateConfig() */
+export function readConfigFile(path: string, trusted = false): FailpromptConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`${path}: not valid JSON (${msg})`);
+  }
+  return validateConfig(raw, path, trusted);
+}
+
+/**
+ * Finds config files, lowest precedence first: the home directory, then the
+ * directories from the filesystem root down to `startDir`.
+ */
+export function findConfigFiles(startDir: string = process.cwd(), homeDir: string = homedir()): string[] {
+  const dirs: string[] = [];
+  for (let dir = resolve(startDir); ; dir = dirname(dir)) {
+    dirs.unshift(dir);
+    if (dirname(dir) === dir) break;
+  }
+  const home = resolve(homeDir);
+  const ordered = dirs.includes(home) ? dirs : [home, ...dirs];
+  return ordered.flatMap((dir) => CONFIG_FILE_NAMES.map((name) => join(dir, name)).filter((path) => existsSync(path)));
+}
+
+/**
+ * Loads every config file that applies, lowest precedence first. Only the
+ * files in the home directory are trusted.
+ */
+export function loadConfigFiles(startDir?: string, homeDir: string = homedir()): LoadedConfig[] {
+  const home = resolve(homeDir);
+  return findConfigFiles(startDir, homeDir).map((path) => ({
+    path,
+    config: readConfigFile(path, dirname(path) === home),
+  }));
+}
+
+/**
+ * Merges configs, later ones winning. Lists are concatenated (without
+ * duplicates) and context sizes are merged key by key.
+ */
+export function mergeConfigs(configs: FailpromptConfig[]): FailpromptConfig {
+  const merged: FailpromptConfig = {};
+  const concat = (a: string[] | undefined, b: string[] | undefined): string[] | undefined =>
+    a || b ? Array.from(new Set([...(a ?? []), ...(b ?? [])])) : undefined;
+
+  for (const config of configs) {
+    const { pathPrefixes, errorPatterns, ignorePatterns, redactPatterns, context, ...scalars } = config;
+    Object.assign(merged, scalars);
+    const lists = {
+      pathPrefixes: concat(merged.pathPrefixes, pathPrefixes),
+      errorPatterns: concat(merged.errorPatterns, errorPatterns),
+      ignorePatterns: concat(merged.ignorePatterns, ignorePatterns),
+      redactPatterns: concat(merged.redactPatterns, redactPatterns),
+    };
+    for (const [key, value] of Object.entries(lists)) {
+      if (value) merged[key as keyof typeof lists] = value;
+    }
+    if (context) merged.context = { ...merged.context, ...context };
+  }
+  return merged;
+}
@@ -0,0 +1,46 @@
+/**
+ * Structured diagnostic model shared by all tool parsers.
+ *
+ * A Diagnostic links one error (or warning) to its location, so downstream
+ * consumers - the prompt, --json output, grouping - know which file and line
+ * each message belongs to instead of juggling parallel string arrays.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'notice';
+
+export interface Diagnostic {
+  /** Primary message text */
+  message: string;
+  severity: DiagnosticSeverity;
+  /** Source file path as printed by the tool (undefined when the error has no location) */
+  file?: string;
+  /** 1-based line number */
+  line?: number;
+  /** 1-based column number */
+  column?: number;
+  /** Tool that produced the diagnostic, e.g. "tsc"; undefined for generic log errors */
+  tool?: string;
+  /** Rule ID or error code, e.g. "TS2322" or "no-unused-vars" */
+  code?: string;
+  /** Full name of the failing test, e.g. "math › adds numbers" (test runner diagnostics only) */
+  test?: string;
+  /** CI job the diagnostic came from */
+  job?: string;
+  /** CI step (or GitLab section) the diagnostic came from */
+  step?: string;
+  /** Continuation lines: message chain, related information, notes */
+  details: string[];
+  /** Index of the originating line in the cleaned log (used for job/step attribution) */
+  logLine?: number;
+}
+
+/**
+ * Formats a diagnostic location as "file:line:col", "file:line" or "file".
+ * Returns undefined for diagnostics without a file.
+ */
+export function formatLocation(diagnostic: Diagnostic): string | undefined {
+  if (!diagnostic.file) return undefined;
+  if (diagnostic.line === undefined) return diagnostic.file;
+  if (diagnostic.column === undefined) return `${diagnostic.file}:${diagnostic.line}`;
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+}
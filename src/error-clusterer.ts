@@ -0,0 +1,70 @@
+/**
+ * Groups repeated errors into clusters.
+ *
+ * A broken shared type can fail dozens of call sites with the same message,
+ * differing only in the file, the line and the names involved. Messages are
+ * reduced to a signature - paths, line/column numbers, quoted identifiers and
+ * numbers replaced by placeholders - and errors with the same signature are
+ * listed once, with a count and the files they occurred in.
+ */
+
+/** One error to cluster: its message and, when known, the file it points at */
+export interface ClusterInput {
+  message: string;
+  file?: string;
+}
+
+/** Errors sharing one signature */
+export interface ErrorCluster {
+  /** Normalized message */
+  signature: string;
+  /** The first message with this signature, as it appeared in the log */
+  representative: string;
+  /** Number of errors with this signature */
+  count: number;
+  /** Distinct files the errors point at, in order of first appearance */
+  files: string[];
+}
+
+/** Path-like tokens: "src/a.ts", "C:\x\y.cs", "./b.py", "a.ts:12:5", "a.ts(12,5)" */
+const PATH = /(?:[\w.@~-]*[/\\])+[\w.@-]+(?::\d+){0,2}|\b[\w.-]+\.[A-Za-z]\w{0,5}(?::\d+(?::\d+)?|\(\d+,\d+\))/g;
+
+/** Quoted identifiers, types and values: 'x', "x", `x`, ‘x’ */
+const QUOTED = /'[^']*'|"[^"]*"|`[^`]*`|‘[^’]*’/g;
+
+/** Numbers, including hex and decimals */
+const NUMBER = /\b0x[0-9a-f]+\b|\b\d+(?:\.\d+)?\b/gi;
+
+/**
+ * Reduces an error message to its signature, so that messages differing only
+ * in paths, positions, quoted names and numbers compare equal.
+ */
+export function errorSignature(message: string): string {
+  return message
+    .replace(/^##\[\w+\]/, '')
+    .replace(QUOTED, "'…'")
+    .replace(PATH, '<path>')
+    .replace(NUMBER, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Clusters errors by signature.
+ *
+ * @returns One cluster per signature, in order of first appearance
+ */
+export function clusterErrors(errors: ClusterInput[]): ErrorCluster[] {
+  const clusters = new Map<string, ErrorCluster>();
+  for (const { message, file } of errors) {
+    const signature = errorSignature(message);
+    let cluster = clusters.get(signature);
+    if (!cluster) {
+      cluster = { signature, representative: message, count: 0, files: [] };
+      clusters.set(signature, cluster);
+    }
+    cluster.count++;
+    if (file && !cluster.files.includes(file)) cluster.files.push(file);
+  }
+  return Array.from(clusters.values());
+}
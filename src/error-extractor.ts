@@ -1,7 +1,29 @@
 import type { CIProvider } from './ci-provider.js';
 import { detectProviderFromLog } from './ci-provider.js';
-
-export type { CIProvider };
+import { formatLocation } from './diagnostic.js';
+import type { Diagnostic } from './diagnostic.js';
+import { parseDiagnostics } from './parsers/index.js';
+import { ANNOTATION_TOOL, formatAnnotation, isErrorAnnotation, parseAnnotation } from './parsers/annotations.js';
+import { isCargoError } from './parsers/cargo.js';
+import { matchLinePatterns, parseCustomDiagnostics } from './parsers/custom.js';
+import { isDockerError } from './parsers/docker.js';
+import { isLintFinding } from './parsers/eslint.js';
+import { isGoError, isGoTestLog } from './parsers/go.js';
+import { isTestFailureHeader } from './parsers/jest.js';
+import { isJvmError, jvmSourceCandidates } from './parsers/jvm.js';
+import { isPythonError } from './parsers/python.js';
+import { isTscDiagnostic } from './parsers/tsc.js';
+import { clusterErrors } from './error-clusterer.js';
+import type { ErrorCluster } from './error-clusterer.js';
+import { rankErrorLines } from './error-ranker.js';
+import type { ScoredErrorLine } from './error-ranker.js';
+import { classifyFailure } from './failure-classifier.js';
+import type { FailureClassification } from './failure-classifier.js';
+import { detectWorkspaceRoots, escapeRegExp, mapAbsolutePaths, relativizePaths, toRepoRelative } from './path-mapper.js';
+import { resolveTrackedPath } from './tracked-files.js';
+import type { TrackedFiles } from './tracked-files.js';
+
+export type { CIProvider, Diagnostic };
 
 /**
  * Result of error extraction from a raw CI log.
@@ -17,6 +39,58 @@ export interface ExtractedError {
   fullContext: string;
   /** File paths extracted from error lines */
   filePaths: string[];
+  /**
+   * Structured diagnostics: one per error, linked to its file/line/column when
+   * known. Tool parsers (tsc, ...) cover the whole log; remaining error lines
+   * become generic diagnostics.
+   */
+  diagnostics?: Diagnostic[];
+  /** Name of the CI job the errors came from (set when a pipeline has several failed jobs) */
+  jobName?: string;
+  /** Pipeline stage of that job (GitLab) */
+  stage?: string;
+  /**
+   * Candidate error lines with their scores, best first (capped). The context
+   * is built around the first one.
+   */
+  rankedErrors?: ScoredErrorLine[];
+  /**
+   * allErrors grouped by normalized message, with the files each group points
+   * at, in order of first appearance
+   */
+  errorClusters?: ErrorCluster[];
+  /** Why the job failed: code, tests, dependencies, infrastructure, timeout or cancellation */
+  classification?: FailureClassification;
+}
+
+/**
+ * Options for error extraction.
+ */
+export interface ExtractOptions {
+  /** Repository name ("owner/repo" or "repo"), used to find the workspace root when the log doesn't name it */
+  repoName?: string;
+  /** Workspace roots to strip from absolute paths. Detected from the log when omitted. */
+  workspaceRoots?: string[];
+  /**
+   * Files tracked in git (see createTrackedFileIndex). When set, file paths are
+   * validated against the git tree instead of the built-in prefix list.
+   */
+  trackedFiles?: TrackedFiles;
+  /**
+   * Cap on the lines of the error context block (default 50). A prompt with a
+   * token budget lifts it and trims the block to fit instead.
+   */
+  maxContextLines?: number;
+  /** Extra source directories ("services", "modules/core") recognized in file paths besides src, lib, ... */
+  pathPrefixes?: string[];
+  /**
+   * Extra regexes for error lines the built-in heuristics don't recognize.
+   * Named groups file, line, column and message turn a match into a diagnostic
+   * (see parsers/custom.ts).
+   */
+  errorPatterns?: RegExp[];
+  /** Regexes for lines that are never error candidates, e.g. known noise */
+  ignorePatterns?: RegExp[];
 }
 
 /** Strip ANSI escape codes */
@@ -29,32 +103,66 @@ function stripTimestamp(line: string): string {
   return line.replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z\s*/gm, '');
 }
 
+/** A gh log line's third column starts with the step's ISO timestamp */
+const GH_TIMESTAMP = /^\uFEFF?\d{4}-\d{2}-\d{2}T[\d:.]+Z/;
+
+/**
+ * Splits a `gh run view --log-failed` line into job, step and the rest.
+ * Tabs alone don't make a gh line - raw `go test` output such as
+ * "FAIL\t<pkg>\t0.012s" has two as well - so the third column must start
+ * with a timestamp. Returns null for other lines.
+ */
+function splitGhColumns(line: string): { job: string; step: string; raw: string } | null {
+  const parts = line.split('\t');
+  if (parts.length < 3) return null;
+  const raw = parts.slice(2).join('\t');
+  if (!GH_TIMESTAMP.test(raw)) return null;
+  return { job: parts[0].trim(), step: parts[1].trim(), raw };
+}
+
 /**
  * Parse a line from `gh run view --log-failed`.
  * The format is: "<job>\t<step>\t<timestamp> <content>"
  * Returns { job, step, content } if parseable, otherwise { content: original line }.
  */
 export function parseGhLogLine(line: string): { job: string; step: string; content: string } {
-  const parts = line.split('\t');
-  if (parts.length >= 3) {
-    const job = parts[0].trim();
-    const step = parts[1].trim();
+  const columns = splitGhColumns(line);
+  if (columns) {
     // remainder after the two tabs, strip leading timestamp
-    const raw = parts.slice(2).join('\t');
-    const content = stripTimestamp(stripAnsi(raw)).trim();
-    return { job, step, content };
+    const content = stripTimestamp(stripAnsi(columns.raw.replace(/^\uFEFF/, ''))).trim();
+    return { job: columns.job, step: columns.step, content };
   }
   // Not a gh log line - treat as plain content
   return { job: '', step: '', content: stripTimestamp(stripAnsi(line)).trim() };
 }
 
+/**
+ * Like parseGhLogLine().content, but keeps leading indentation.
+ * Tool parsers need it to tell continuation lines from new entries.
+ * A leading ##[error] annotation is dropped so tool output wrapped in it
+ * still parses.
+ */
+function contentWithIndent(line: string): string {
+  const raw = splitGhColumns(line)?.raw.replace(/^\uFEFF/, '') ?? line;
+  return stripAnsi(raw)
+    .replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z ?/, '')
+    .replace(/^##\[error\]/, '')
+    .trimEnd();
+}
+
 /**
  * Returns true if a line matches broader error heuristics beyond ##[error].
  * Covers: plain Error:/error:/ERROR: prefixes, FAILED, npm ERR!, ENOENT,
- * SyntaxError, and GitLab-specific "Job failed" patterns.
+ * SyntaxError, GitLab-specific "Job failed" patterns, tsc diagnostics,
+ * ESLint/Prettier findings, Jest/Vitest failure headers, Python exceptions
+ * and pytest failures, Go compile errors, test failures and panics,
+ * rustc errors with a code and Rust panics, Maven/Gradle compile errors,
+ * Surefire failures and JVM exceptions, and failed Docker build steps, plus
+ * any extra patterns from the config file.
  */
-function isExtendedError(line: string): boolean {
+function isExtendedError(line: string, extraPatterns: RegExp[] = []): boolean {
   return (
+    matchLinePatterns(line, extraPatterns) !== null ||
     /^(Error|error|ERROR):/.test(line) ||
     /\bFAILED\b/.test(line) ||
     /failed with exit code/i.test(line) ||
@@ -62,7 +170,15 @@ function isExtendedError(line: string): boolean {
     /\bENOENT\b/.test(line) ||
     /Cannot find module/i.test(line) ||
     /^SyntaxError:/i.test(line) ||
-    /^ERROR: Job failed/i.test(line)
+    /^ERROR: Job failed/i.test(line) ||
+    isTscDiagnostic(line) ||
+    isLintFinding(line) ||
+    isTestFailureHeader(line) ||
+    isPythonError(line) ||
+    isGoError(line) ||
+    isCargoError(line) ||
+    isJvmError(line) ||
+    isDockerError(line)
   );
 }
 
@@ -87,44 +203,94 @@ export function normalizeGitLabLog(rawLog: string): string {
     .replace(/^(ERROR: Job failed.*)/gm, '##[error]$1');
 }
 
+/** Python traceback frame: File "app/models.py", line 42 */
+const PYTHON_FRAME = /File "([^"]+\.py)", line (\d+)/g;
+
 /**
  * Extract file paths from error lines.
  * Matches patterns like:
  *   - ./src/foo.ts:42, src/foo.ts, lib/bar.js:10 (Unix)
+ *   - src/foo.ts(42,5) (tsc format, normalized to src/foo.ts:42:5)
  *   - packages/core/src/foo.ts, apps/web/src/bar.ts (monorepo prefixes)
+ *   - internal/db/conn.go, cmd/api/main.go, pkg/x/y.go (Go layouts)
  *   - test/foo.test.ts, tests/foo.test.ts, dist/foo.js, build/foo.js
  *   - src\\foo.ts (Windows backslash paths)
  *   - at Object.<anonymous> (src/foo.ts:42:5) (stack trace format)
+ *   - File "app/models.py", line 42, in save (Python traceback frames, as app/models.py:42)
  *   - Uppercase extensions: .TS, .TSX, .JS, .JSX
+ *   - /home/runner/work/app/app/lib/foo.ts:42:5 (absolute paths under a
+ *     workspace root, rewritten to lib/foo.ts:42:5)
  *
  * Results are deduplicated.
+ *
+ * @param roots   - Workspace roots to strip from absolute paths (see detectWorkspaceRoots)
+ * @param tracked - Files tracked in git. When given, every path-looking token
+ *                  counts if it resolves to a tracked file, and nothing else does
+ * @param prefixes - Extra source directories, e.g. "services" from the config file
  */
-export function extractFilePaths(lines: string[]): string[] {
+export function extractFilePaths(
+  lines: string[],
+  roots: string[] = [],
+  tracked?: TrackedFiles,
+  prefixes: string[] = []
+): string[] {
+  if (tracked) return extractTrackedFilePaths(lines, roots, tracked);
+
   // Prefix: ./ or any known directory (with optional subdirectory path)
-  const prefixGroup =
-    '(?:\\./|(?:packages|apps|test|tests|dist|build|src|lib)/(?:[\\w.-]+/)*)';
+  const directories = [
+    'packages', 'apps', 'test', 'tests', 'dist', 'build', 'src', 'lib',
+    ...prefixes.map(escapeRegExp),
+  ].join('|');
+  const prefixGroup = `(?:\\./|(?:${directories})/(?:[\\w.-]+/)*)`;
 
   // Unix path pattern: prefix followed by a filename with a recognized extension
   const unixPathRegex = new RegExp(
-    `${prefixGroup}[\\w.-]+\\.(?:tsx?|jsx?|mjs|cjs|json|css|scss|html|vue|svelte|py|rb|go|java|rs|sh)(?::\\d+(?::\\d+)?)?`,
+    `${prefixGroup}[\\w.-]+\\.(?:tsx?|jsx?|mjs|cjs|json|css|scss|html|vue|svelte|py|rb|go|java|rs|sh)(?::\\d+(?::\\d+)?|\\(\\d+,\\d+\\))?`,
     'gi'
   );
 
+  // Go package layouts; Go files only, so Node's internal/modules/... frames stay out
+  const goPathRegex = /\b(?:internal|cmd|pkg)\/(?:[\w.-]+\/)*[\w.-]+\.go(?::\d+(?::\d+)?)?/g;
+
   // Windows backslash path pattern: src\\ or similar with backslashes
   const windowsPathRegex =
     /(?:src|lib|packages|apps|test|tests|dist|build)\\[\w\\.-]+\.(?:tsx?|jsx?|mjs|cjs|json|css|scss|html)(?::\d+(?::\d+)?)?/gi;
 
   // Stack trace pattern: "at ... (filepath:line:col)" or "at filepath:line:col"
-  const stackTraceRegex =
-    /\bat\s+(?:[\w.<>[\] ]+\s+)?\(?((?:\.\/|(?:packages|apps|test|tests|dist|build|src|lib)\/)[^):]+\.(?:tsx?|jsx?|mjs|cjs))(?::\d+){0,2}\)?/gi;
+  const stackTraceRegex = new RegExp(
+    `\\bat\\s+(?:[\\w.<>[\\] ]+\\s+)?\\(?((?:\\./|(?:${directories})/)[^):]+\\.(?:tsx?|jsx?|mjs|cjs))(?::\\d+){0,2}\\)?`,
+    'gi'
+  );
 
   const paths = new Set<string>();
 
-  for (const line of lines) {
+  for (const rawLine of lines) {
+    // Python frames name their file explicitly, so any relative path counts
+    const python = rawLine.replace(PYTHON_FRAME, (_match, file: string, lineNo: string) => {
+      const path = toRepoRelative(file, roots);
+      if (!/^(?:\/|[A-Za-z]:\\)/.test(path)) paths.add(`${path}:${lineNo}`);
+      return '';
+    });
+
+    // Absolute paths under the workspace - blanked out afterwards so the
+    // relative patterns below don't pick up fragments of them
+    const { paths: mapped, rest: line } = mapAbsolutePaths(python, roots);
+    for (const m of mapped) {
+      paths.add(m);
+    }
+
     // Unix paths
     const unixMatches = line.match(unixPathRegex);
     if (unixMatches) {
       for (const m of unixMatches) {
+        paths.add(m.replace(/\((\d+),(\d+)\)$/, ':$1:$2'));
+      }
+    }
+
+    // Go paths
+    const goMatches = line.match(goPathRegex);
+    if (goMatches) {
+      for (const m of goMatches) {
         paths.add(m);
       }
     }
@@ -150,16 +316,57 @@ export function extractFilePaths(lines: string[]): string[] {
   return Array.from(paths);
 }
 
+/**
+ * Any path-looking token: optional directories, a name with an extension,
+ * and an optional :line:col or (line,col) suffix
+ */
+const PATH_TOKEN = /(?:[\w.@+-]+[/\\])*[\w@+-][\w.@+-]*\.[A-Za-z]\w*(?::\d+(?::\d+)?|\(\d+,\d+\))?/g;
+
+/**
+ * Git-tree mode of extractFilePaths(): keeps path tokens that resolve to a
+ * tracked file (exactly or by suffix), returned as repo-relative paths with
+ * their :line:col suffix.
+ */
+function extractTrackedFilePaths(lines: string[], roots: string[], tracked: TrackedFiles): string[] {
+  const paths = new Set<string>();
+
+  for (const rawLine of lines) {
+    const { paths: mapped, rest } = mapAbsolutePaths(rawLine.replace(PYTHON_FRAME, '$1:$2'), roots);
+    const tokens = [...mapped, ...(rest.match(PATH_TOKEN) ?? [])];
+
+    for (const token of tokens) {
+      const normalized = token.replace(/\((\d+),(\d+)\)$/, ':$1:$2');
+      const suffix = /(?::\d+){1,2}$/.exec(normalized)?.[0] ?? '';
+      const file = resolveTrackedPath(normalized.slice(0, normalized.length - suffix.length), tracked);
+      if (file) paths.add(file + suffix);
+    }
+  }
+
+  return Array.from(paths);
+}
+
+/** Default cap on the lines of the error context block */
+const MAX_CONTEXT_LINES = 50;
+
+/** Ranked candidate error lines kept in ExtractedError.rankedErrors */
+const MAX_RANKED_ERRORS = 10;
+
 /**
  * Core context-extraction logic shared by primary and extended error modes.
- * Given the index of the last (most relevant) error line, extracts a context
- * block: from the nearest ##[group] (or 30 lines before) through ##[endgroup]
- * (or 5 lines after), capped at 50 lines.
+ * Given the index of the best-scoring error line, extracts a context block:
+ * from the nearest ##[group] (or 30 lines before) through ##[endgroup] (or 5
+ * lines after), capped at `maxLines` lines (50 by default). Error lines after
+ * the block are appended.
  */
 function extractContext(
   lines: string[],
   errorIndices: number[],
-  parsedMeta?: Array<{ job: string; step: string; content: string }>
+  focusIdx: number,
+  parsedMeta?: Array<{ job: string; step: string; content: string }>,
+  roots: string[] = [],
+  tracked?: TrackedFiles,
+  maxLines = MAX_CONTEXT_LINES,
+  prefixes: string[] = []
 ): {
   stepName: string;
   errorLines: string[];
@@ -167,16 +374,16 @@ function extractContext(
   filePaths: string[];
   allErrors: string[];
 } {
-  const allErrors = errorIndices.map((i) => lines[i]);
-
-  // Focus on the last error - most likely the root cause
-  const lastErrorIdx = errorIndices[errorIndices.length - 1];
+  const allErrors = errorIndices.map((i) => {
+    const annotation = parseAnnotation(lines[i]);
+    return annotation ? relativizePaths(formatAnnotation(annotation), roots) : lines[i];
+  });
 
   // Try to get step name from gh log metadata first (tab-separated format)
   let stepName = '(unknown)';
   if (parsedMeta) {
-    // Find the step name from the error line or nearest preceding line with a step
-    for (let i = lastErrorIdx; i >= 0; i--) {
+    // Find the step name from the focus line or nearest preceding line with a step
+    for (let i = focusIdx; i >= 0; i--) {
       if (parsedMeta[i]?.step) {
         stepName = parsedMeta[i].step;
         break;
@@ -187,7 +394,7 @@ function extractContext(
   // Fallback: scan backwards for ##[group] marker
   let groupIdx = -1;
   if (stepName === '(unknown)') {
-    for (let i = lastErrorIdx; i >= 0; i--) {
+    for (let i = focusIdx; i >= 0; i--) {
       const groupMatch = lines[i].match(/^##\[group\](.+)/i);
       if (groupMatch) {
         groupIdx = i;
@@ -198,12 +405,11 @@ function extractContext(
   }
 
   // Determine start: group line or 30 lines before error (whichever is more recent)
-  const contextStart =
-    groupIdx >= 0 ? groupIdx : Math.max(0, lastErrorIdx - 30);
+  const contextStart = Math.max(groupIdx, focusIdx - 30, 0);
 
   // Determine end: find ##[endgroup] after last error, or 5 lines after, or EOF
-  let contextEnd = Math.min(lines.length - 1, lastErrorIdx + 5);
-  for (let i = lastErrorIdx; i < lines.length; i++) {
+  let contextEnd = Math.min(lines.length - 1, focusIdx + 5);
+  for (let i = focusIdx; i < lines.length; i++) {
     if (/^##\[endgroup\]/i.test(lines[i])) {
       contextEnd = i;
       break;
@@ -224,40 +430,134 @@ function extractContext(
     (l) => l.trim() !== ''
   );
 
-  // Limit to 50 lines
-  const limitedErrorLines = errorLines.slice(0, 50);
+  // Limit to 50 lines (or maxLines)
+  const limitedErrorLines = errorLines.slice(0, maxLines);
 
   const fullContext = limitedErrorLines.join('\n');
-  const filePaths = extractFilePaths(limitedErrorLines);
+  const filePaths = extractFilePaths(limitedErrorLines, roots, tracked, prefixes);
 
   return { stepName, errorLines: limitedErrorLines, fullContext, filePaths, allErrors };
 }
 
+/**
+ * Splits a "file:line:col" path (as produced by extractFilePaths) into parts.
+ */
+function parseLocation(location: string): Pick<Diagnostic, 'file' | 'line' | 'column'> {
+  const match = /^(.*?)(?::(\d+))?(?::(\d+))?$/.exec(location);
+  if (!match?.[1]) return { file: location };
+  return {
+    file: match[1],
+    ...(match[2] ? { line: parseInt(match[2], 10) } : {}),
+    ...(match[3] ? { column: parseInt(match[3], 10) } : {}),
+  };
+}
+
+/**
+ * Builds the diagnostics list for a log: tool parser results first, then one
+ * generic diagnostic per detected error line not already covered by a parser.
+ * Every diagnostic gets the job and step of the log line it came from.
+ */
+function buildDiagnostics(
+  lines: string[],
+  toolDiagnostics: Diagnostic[],
+  parsedMeta: Array<{ job: string; step: string; content: string }>,
+  errorIndices: number[],
+  roots: string[],
+  tracked?: TrackedFiles,
+  prefixes: string[] = []
+): Diagnostic[] {
+  const diagnostics = [...toolDiagnostics];
+  const covered = new Set(diagnostics.map((d) => d.logLine));
+  for (const diag of diagnostics) {
+    diag.details = diag.details.map((detail) => relativizePaths(detail, roots));
+    if (!diag.file) continue;
+    const file = toRepoRelative(diag.file, roots);
+    if (!tracked) {
+      diag.file = file;
+      continue;
+    }
+    // Paths rebuilt from JVM packages may live in another source root
+    const resolved = [file, ...jvmSourceCandidates(file)]
+      .map((candidate) => resolveTrackedPath(candidate, tracked))
+      .find(Boolean);
+    diag.file = resolved ?? file;
+  }
+
+  for (const idx of errorIndices) {
+    if (covered.has(idx)) continue;
+    const message = lines[idx].replace(/^##\[error\]/i, '').trim();
+    const [location] = extractFilePaths([message], roots, tracked, prefixes);
+    diagnostics.push({
+      message,
+      severity: 'error',
+      ...(location ? parseLocation(location) : {}),
+      details: [],
+      logLine: idx,
+    });
+  }
+
+  diagnostics.sort((a, b) => (a.logLine ?? 0) - (b.logLine ?? 0));
+
+  // Attribute job and step: gh log columns first, then the nearest ##[group]
+  for (const diag of diagnostics) {
+    if (diag.logLine === undefined) continue;
+    const meta = parsedMeta[diag.logLine];
+    if (meta.job) diag.job = meta.job;
+    if (meta.step) {
+      diag.step = meta.step;
+      continue;
+    }
+    for (let i = diag.logLine; i >= 0; i--) {
+      const groupMatch = lines[i].match(/^##\[group\](.+)/i);
+      if (groupMatch) {
+        diag.step = groupMatch[1].trim();
+        break;
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
 /**
  * Extract structured error information from a CI log (GitHub Actions or GitLab CI).
  *
  * @param rawLog   - Raw log output from the CI system
  * @param provider - CI provider hint: 'github', 'gitlab', or 'auto' (default).
  *                   When 'auto', the provider is detected from log content.
+ * @param options  - Repo name / workspace roots used to make absolute runner paths repo-relative
  *
  * Algorithm:
  * 1. If GitLab, normalize section markers to ##[group]/##[endgroup] format
  * 2. Split into lines, strip ANSI + timestamps
- * 3. Find all ##[error] lines - collect indices (primary)
- * 4. If none found, try extended heuristics: Error:, FAILED, npm ERR!, ENOENT, etc.
+ * 3. Find all ##[error] lines and ::error annotations - collect indices (primary),
+ *    plus lines matching the user's error patterns; lines matching an ignore
+ *    pattern are skipped here and in every later step
+ * 4. If none found, try extended heuristics: Error:, FAILED, npm ERR!, ENOENT,
+ *    the user's error patterns, etc.
  * 5. If still none found, fall back to last 30 lines (better than empty output)
- * 6. Focus on the LAST matching line (usually the root cause)
+ * 6. Focus on the best-scoring candidate (see rankErrorLines): error lines and
+ *    tool parser findings, scored on specificity, file location, known tool
+ *    patterns and exit-code noise; ties go to the later line
  * 7. Scan backwards for nearest ##[group] - failing step name
  * 8. Extract context: from ##[group] through ##[endgroup] (or +/-30/5 lines)
- * 9. Extract file paths from error lines
+ * 9. Extract file paths from error lines, mapping absolute runner paths
+ *    (/home/runner/work/app/app/..., /builds/group/project/...) to repo-relative ones
+ * 10. Build structured diagnostics: tool parsers over the whole log, plus one
+ *     generic diagnostic per remaining error line; exact locations lead filePaths
  */
-export function extractErrors(rawLog: string, provider: CIProvider | 'auto' = 'auto'): ExtractedError {
+export function extractErrors(
+  rawLog: string,
+  provider: CIProvider | 'auto' = 'auto',
+  options: ExtractOptions = {}
+): ExtractedError {
   const empty: ExtractedError = {
     stepName: '(unknown)',
     errorLines: [],
     allErrors: [],
     fullContext: '',
     filePaths: [],
+    diagnostics: [],
   };
 
   if (!rawLog || rawLog.trim() === '') {
@@ -273,56 +573,220 @@ export function extractErrors(rawLog: string, provider: CIProvider | 'auto' = 'a
   // Pre-parse gh log format to extract step names per line
   const parsed = rawLines.map(parseGhLogLine);
   const lines = parsed.map((p) => p.content);
+  const indentedLines = rawLines.map(contentWithIndent);
+  const roots = options.workspaceRoots ?? detectWorkspaceRoots(lines.join('\n'), options.repoName);
+  const errorPatterns = options.errorPatterns ?? [];
+  const ignorePatterns = options.ignorePatterns ?? [];
+  const ignored = new Set<number>();
+  if (ignorePatterns.length > 0) {
+    lines.forEach((line, i) => {
+      if (matchLinePatterns(line, ignorePatterns)) ignored.add(i);
+    });
+  }
+  const toolDiagnostics = [...parseDiagnostics(indentedLines), ...parseCustomDiagnostics(lines, errorPatterns)]
+    .filter((d) => d.logLine === undefined || !ignored.has(d.logLine))
+    .sort((a, b) => (a.logLine ?? 0) - (b.logLine ?? 0));
+
+  // Candidates for the root cause: the error lines plus every line a tool parser recognized
+  const rank = (errorIndices: number[]): ScoredErrorLine[] => {
+    const toolLines = toolDiagnostics.flatMap((d) => (d.logLine !== undefined ? [d.logLine] : []));
+    return rankErrorLines(lines, [...errorIndices, ...toolLines], toolDiagnostics);
+  };
 
-  // --- Primary: ##[error] markers ---
+  // Structured diagnostics come from the whole log, not just the capped context.
+  // Diagnostic locations are exact, so they lead the file path list.
+  const finish = (
+    result: Omit<ExtractedError, 'diagnostics' | 'rankedErrors' | 'errorClusters' | 'classification'>,
+    errorIndices: number[],
+    ranked: ScoredErrorLine[] = []
+  ): ExtractedError => {
+    const diagnostics = buildDiagnostics(
+      lines,
+      toolDiagnostics,
+      parsed,
+      errorIndices,
+      roots,
+      options.trackedFiles,
+      options.pathPrefixes
+    );
+    // Annotations carry the location the tool itself reported, so they come first
+    const locations = [
+      ...diagnostics.filter((d) => d.tool === ANNOTATION_TOOL),
+      ...diagnostics.filter((d) => d.tool !== ANNOTATION_TOOL),
+    ]
+      .map(formatLocation)
+      .filter((loc): loc is string => loc !== undefined);
+    // allErrors follows errorIndices, so each entry takes the file of its line's diagnostic
+    const fileByLine = new Map<number, string>();
+    for (const diag of diagnostics) {
+      if (diag.file && diag.logLine !== undefined && !fileByLine.has(diag.logLine)) {
+        fileByLine.set(diag.logLine, diag.file);
+      }
+    }
+    const errorClusters = clusterErrors(
+      result.allErrors.map((message, i) => {
+        const file = fileByLine.get(errorIndices[i]);
+        return file ? { message, file } : { message };
+      })
+    );
+    return {
+      ...result,
+      filePaths: Array.from(new Set([...locations, ...result.filePaths])),
+      diagnostics,
+      rankedErrors: ranked.slice(0, MAX_RANKED_ERRORS),
+      errorClusters,
+      classification: classifyFailure(
+        ignored.size > 0 ? lines.map((line, i) => (ignored.has(i) ? '' : line)) : lines,
+        diagnostics
+      ),
+    };
+  };
+
+  // --- Primary: ##[error] markers and ::error annotations ---
+  // Lines matching a user error pattern join them, so they count even when
+  // the log has markers
   const markerErrorIndices: number[] = [];
+  let hasMarkers = false;
   for (let i = 0; i < lines.length; i++) {
-    if (/^##\[error\]/i.test(lines[i])) {
+    if (ignored.has(i)) continue;
+    if (/^##\[error\]/i.test(lines[i]) || isErrorAnnotation(lines[i])) {
+      markerErrorIndices.push(i);
+      hasMarkers = true;
+    } else if (matchLinePatterns(lines[i], errorPatterns)) {
       markerErrorIndices.push(i);
     }
   }
 
-  if (markerErrorIndices.length > 0) {
-    const result = extractContext(lines, markerErrorIndices, parsed);
-    return {
-      stepName: result.stepName,
-      errorLines: result.errorLines,
-      allErrors: result.allErrors,
-      fullContext: result.fullContext,
-      filePaths: result.filePaths,
-    };
+  if (hasMarkers) {
+    const ranked = rank(markerErrorIndices);
+    const result = extractContext(
+      lines,
+      markerErrorIndices,
+      ranked[0].logLine,
+      parsed,
+      roots,
+      options.trackedFiles,
+      options.maxContextLines,
+      options.pathPrefixes
+    );
+    return finish(
+      {
+        stepName: result.stepName,
+        errorLines: result.errorLines,
+        allErrors: result.allErrors,
+        fullContext: result.fullContext,
+        filePaths: result.filePaths,
+      },
+      markerErrorIndices,
+      ranked
+    );
   }
 
   // --- Fallback 1: Extended error heuristics ---
   const extendedErrorIndices: number[] = [];
   for (let i = 0; i < lines.length; i++) {
-    if (isExtendedError(lines[i])) {
+    // Test log lines belong to their failing test, not to a compile error of their own
+    if (isGoTestLog(indentedLines[i])) continue;
+    if (!ignored.has(i) && isExtendedError(lines[i], errorPatterns)) {
       extendedErrorIndices.push(i);
     }
   }
 
   if (extendedErrorIndices.length > 0) {
-    const result = extractContext(lines, extendedErrorIndices, parsed);
-    return {
-      stepName: result.stepName,
-      errorLines: result.errorLines,
-      allErrors: result.allErrors,
-      fullContext: result.fullContext,
-      filePaths: result.filePaths,
-    };
+    const ranked = rank(extendedErrorIndices);
+    const result = extractContext(
+      lines,
+      extendedErrorIndices,
+      ranked[0].logLine,
+      parsed,
+      roots,
+      options.trackedFiles,
+      options.maxContextLines,
+      options.pathPrefixes
+    );
+    return finish(
+      {
+        stepName: result.stepName,
+        errorLines: result.errorLines,
+        allErrors: result.allErrors,
+        fullContext: result.fullContext,
+        filePaths: result.filePaths,
+      },
+      extendedErrorIndices,
+      ranked
+    );
   }
 
   // --- Fallback 2: Last 30 lines (better than empty output) ---
   const last30 = lines.slice(-30).filter((l) => l.trim() !== '');
   if (last30.length > 0) {
-    return {
-      stepName: '(unknown)',
-      errorLines: last30,
-      allErrors: [],
-      fullContext: last30.join('\n'),
-      filePaths: extractFilePaths(last30),
-    };
+    return finish(
+      {
+        stepName: '(unknown)',
+        errorLines: last30,
+        allErrors: [],
+        fullContext: last30.join('\n'),
+        filePaths: extractFilePaths(last30, roots, options.trackedFiles, options.pathPrefixes),
+      },
+      []
+    );
   }
 
   return empty;
 }
+
+/**
+ * Extract errors separately for every job in a multi-job log.
+ *
+ * `gh run view --log-failed` (and the REST API fetcher) interleave several
+ * jobs in one stream, with the job name in the first tab-separated column.
+ * Lines are grouped by that column, keeping their original order, and each
+ * group goes through extractErrors() on its own, so a matrix build with three
+ * failing jobs yields three results instead of one focused on the last error.
+ *
+ * Lines without a job column (continuations, plain logs) stay with the job of
+ * the preceding line. Logs with at most one job return a single result.
+ *
+ * @returns One ExtractedError per job, in order of first appearance, with `jobName` set
+ */
+export function extractErrorsByJob(
+  rawLog: string,
+  provider: CIProvider | 'auto' = 'auto',
+  options: ExtractOptions = {}
+): ExtractedError[] {
+  const groups = new Map<string, string[]>();
+  let currentJob = '';
+
+  for (const line of rawLog.split('\n')) {
+    const { job } = parseGhLogLine(line);
+    if (job) currentJob = job;
+    const group = groups.get(currentJob);
+    if (group) {
+      group.push(line);
+    } else {
+      groups.set(currentJob, [line]);
+    }
+  }
+
+  // Leading lines before the first job column carry no job: fold them into
+  // the first named job rather than reporting a nameless one
+  const unnamed = groups.get('');
+  const named = Array.from(groups.entries()).filter(([job]) => job !== '');
+
+  if (named.length <= 1) {
+    const result = extractErrors(rawLog, provider, options);
+    return [named.length === 1 ? { ...result, jobName: named[0][0] } : result];
+  }
+
+  if (unnamed) {
+    named[0][1].unshift(...unnamed);
+  }
+
+  // GITHUB_WORKSPACE may only be echoed by one job; detect roots over the whole log
+  const workspaceRoots = options.workspaceRoots ?? detectWorkspaceRoots(rawLog, options.repoName);
+
+  return named.map(([job, lines]) => ({
+    ...extractErrors(lines.join('\n'), provider, { ...options, workspaceRoots }),
+    jobName: job,
+  }));
+}
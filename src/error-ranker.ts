@@ -0,0 +1,144 @@
+import type { Diagnostic } from './diagnostic.js';
+import { ANNOTATION_TOOL } from './parsers/annotations.js';
+
+/**
+ * Scores candidate error lines to find the root cause of a failure.
+ *
+ * The last error in a log is usually the runner's "Process completed with
+ * exit code 1" or GitLab's "ERROR: Job failed", while the compiler error that
+ * caused it sits further up. Each candidate earns points for what makes an
+ * error actionable (a tool that recognized it, a file location, an error code,
+ * a specific message) and loses points for generic exit-code noise. The
+ * factors are kept with the score so --verbose and --json can show them.
+ */
+
+/** One contribution to a line's score */
+export interface ScoreFactor {
+  reason: string;
+  points: number;
+}
+
+/** A candidate error line with its score, best first in rankErrorLines() results */
+export interface ScoredErrorLine {
+  /** Index of the line in the cleaned log */
+  logLine: number;
+  text: string;
+  score: number;
+  factors: ScoreFactor[];
+}
+
+/** Points per factor */
+export const SCORE_WEIGHTS = {
+  /** A workflow command annotation with a file: the tool reported the location itself */
+  annotation: 60,
+  /** A tool parser (tsc, jest, cargo, ...) recognized the line */
+  toolDiagnostic: 40,
+  /** The line names a file and line number */
+  fileLocation: 30,
+  /** An error code such as TS2345 or E0308 */
+  errorCode: 10,
+  /** A quoted identifier, type or value */
+  quotedIdentifier: 10,
+  /** A message of at least DESCRIPTIVE_WORDS words, not just "Error" or "FAILED" */
+  descriptiveMessage: 10,
+  /** Warnings and notices rarely fail a build */
+  warning: -20,
+  /** Exit codes, "Job failed" and other summaries of an earlier error */
+  exitCodeNoise: -60,
+} as const;
+
+/** Word count from which a message counts as descriptive */
+const DESCRIPTIVE_WORDS = 4;
+
+/** Lines that only report that something earlier failed */
+const NOISE_PATTERNS: RegExp[] = [
+  /Process completed with exit code \d+/i,
+  /^ERROR: Job failed\b/i,
+  /failed with exit code \d+/i,
+  /\bexit (?:status|code):? \d+\.?$/i,
+  /^npm ERR! (?:code|errno|syscall|path|command|Lifecycle|Failed at|Exit status|This is probably|A complete log)\b/i,
+  /\bELIFECYCLE\b/,
+  /Command failed with exit code \d+/i,
+  /^make(?:\[\d+\])?: \*\*\* .*Error \d+/,
+  /^error: (?:could not compile|aborting due to)/,
+  /^\[ERROR\] (?:Failed to execute goal|BUILD FAILURE)/,
+  /^FAILURE: Build failed with an exception/,
+  /^Tests?(?: Suites| Files)?:\s+\d+ failed/,
+];
+
+/** "file.ext:12", "file.ext(12,5)" or 'File "x.py", line 12' */
+const FILE_LOCATION = /[\w.-]+\.[A-Za-z]\w{0,5}(?::\d+|\(\d+,\d+\)|", line \d+)/;
+
+/** Error codes: TS2345, E0308, CS1002, SC2086 */
+const ERROR_CODE = /\b(?:TS\d{4}|E\d{4}|[A-Z]{2}\d{4})\b/;
+
+/** A quoted identifier, type or value: 'x', "x" or `x` */
+const QUOTED = /(['"`])[^'"`\s]{1,80}\1/;
+
+/** Scores one candidate line */
+function scoreLine(logLine: number, text: string, diag: Diagnostic | undefined): ScoredErrorLine {
+  const factors: ScoreFactor[] = [];
+  const message = text.replace(/^##\[\w+\]/, '').trim();
+
+  if (diag?.tool === ANNOTATION_TOOL && diag.file) {
+    factors.push({ reason: 'annotation with location', points: SCORE_WEIGHTS.annotation });
+  } else if (diag?.tool) {
+    factors.push({ reason: `${diag.tool} diagnostic`, points: SCORE_WEIGHTS.toolDiagnostic });
+  }
+  if ((diag?.file && diag.line !== undefined) || FILE_LOCATION.test(message)) {
+    factors.push({ reason: 'file location', points: SCORE_WEIGHTS.fileLocation });
+  }
+  if (diag?.code || ERROR_CODE.test(message)) {
+    factors.push({ reason: 'error code', points: SCORE_WEIGHTS.errorCode });
+  }
+  if (QUOTED.test(message)) {
+    factors.push({ reason: 'quoted identifier', points: SCORE_WEIGHTS.quotedIdentifier });
+  }
+  if (message.split(/\s+/).filter(Boolean).length >= DESCRIPTIVE_WORDS) {
+    factors.push({ reason: 'descriptive message', points: SCORE_WEIGHTS.descriptiveMessage });
+  }
+  if (diag && diag.severity !== 'error') {
+    factors.push({ reason: diag.severity, points: SCORE_WEIGHTS.warning });
+  }
+  // A tool parser found meaning in the line, so it isn't just an exit code
+  if (!diag?.tool && NOISE_PATTERNS.some((pattern) => pattern.test(message))) {
+    factors.push({ reason: 'exit-code noise', points: SCORE_WEIGHTS.exitCodeNoise });
+  }
+
+  const score = factors.reduce((sum, factor) => sum + factor.points, 0);
+  return { logLine, text, score, factors };
+}
+
+/**
+ * Ranks candidate error lines, best first. Equal scores keep the later line
+ * first, so logs without a clear winner still focus on the last error.
+ *
+ * @param lines       - Cleaned log lines
+ * @param candidates  - Indices of the candidate lines (duplicates are ignored)
+ * @param diagnostics - Tool parser diagnostics, matched to candidates by logLine
+ */
+export function rankErrorLines(
+  lines: string[],
+  candidates: number[],
+  diagnostics: Diagnostic[] = []
+): ScoredErrorLine[] {
+  const byLine = new Map<number, Diagnostic>();
+  for (const diag of diagnostics) {
+    if (diag.logLine !== undefined && !byLine.has(diag.logLine)) byLine.set(diag.logLine, diag);
+  }
+
+  return Array.from(new Set(candidates))
+    .map((idx) => scoreLine(idx, lines[idx], byLine.get(idx)))
+    .sort((a, b) => b.score - a.score || b.logLine - a.logLine);
+}
+
+/**
+ * Formats a scored line for --verbose, e.g.
+ * "72 (line 12): src/a.ts:3:1 - error TS2304 ... [tsc diagnostic +40, file location +30, ...]"
+ */
+export function formatScoredLine(scored: ScoredErrorLine): string {
+  const factors = scored.factors
+    .map((f) => `${f.reason} ${f.points >= 0 ? '+' : ''}${String(f.points)}`)
+    .join(', ');
+  return `${String(scored.score)} (line ${String(scored.logLine + 1)}): ${scored.text} [${factors}]`;
+}
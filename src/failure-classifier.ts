@@ -0,0 +1,128 @@
+import type { Diagnostic } from './diagnostic.js';
+
+/**
+ * Classifies why a CI job failed.
+ *
+ * Plenty of red runs are not code problems: the runner was OOM-killed, the
+ * job hit its time limit or was canceled, the registry returned a 503 during
+ * `npm ci`, or the runner went away. Those need a retry or a CI config change,
+ * not a code fix, so the prompt asks for something different. Each category
+ * has log signals with a confidence; the most confident match wins, and jobs
+ * without a signal fall back to what the tool parsers found.
+ */
+
+export type FailureCategory = 'code' | 'test' | 'dependency' | 'infrastructure' | 'timeout' | 'cancellation';
+
+export interface FailureClassification {
+  category: FailureCategory;
+  /** 0 to 1 */
+  confidence: number;
+  /** Why the category was chosen, e.g. "runner ran out of memory (exit code 137)" */
+  reason: string;
+  /** The log line the decision is based on, when there is one */
+  evidence?: string;
+  /** Index of that line in the cleaned log */
+  logLine?: number;
+}
+
+/** Categories that call for a retry or a CI config change rather than a code fix */
+export const NON_CODE_CATEGORIES: ReadonlySet<FailureCategory> = new Set(['infrastructure', 'timeout', 'cancellation']);
+
+interface FailureSignal {
+  category: FailureCategory;
+  confidence: number;
+  reason: string;
+  pattern: RegExp;
+}
+
+/**
+ * Log signals per category. GitHub also prints "The operation was canceled"
+ * when a job times out, so timeouts are more confident than cancellations.
+ */
+const SIGNALS: FailureSignal[] = [
+  // Timeouts
+  { category: 'timeout', confidence: 0.95, reason: 'job exceeded its maximum execution time', pattern: /has exceeded the maximum execution time/i },
+  { category: 'timeout', confidence: 0.95, reason: 'job exceeded its maximum execution time', pattern: /execution took longer than .+ seconds/i },
+  { category: 'timeout', confidence: 0.8, reason: 'a step timed out', pattern: /\b(?:step|job) (?:has )?timed out\b/i },
+
+  // Cancellations
+  { category: 'cancellation', confidence: 0.9, reason: 'run was canceled', pattern: /The operation was canceled/i },
+  { category: 'cancellation', confidence: 0.9, reason: 'run was canceled', pattern: /The run was canceled by/i },
+  { category: 'cancellation', confidence: 0.9, reason: 'run was canceled', pattern: /^ERROR: Job failed: canceled/i },
+
+  // Runner and network problems
+  { category: 'infrastructure', confidence: 0.9, reason: 'runner ran out of memory (exit code 137)', pattern: /\b(?:exit code|exited with code|exit status) 137\b/i },
+  { category: 'infrastructure', confidence: 0.9, reason: 'runner ran out of memory', pattern: /\bOOMKilled\b|\bout of memory\b|Cannot allocate memory|signal: killed/i },
+  { category: 'infrastructure', confidence: 0.9, reason: 'runner ran out of disk space', pattern: /No space left on device/i },
+  { category: 'infrastructure', confidence: 0.9, reason: 'lost the runner', pattern: /lost communication with the server|runner has received a shutdown signal/i },
+  { category: 'infrastructure', confidence: 0.9, reason: 'lost the runner', pattern: /\(system failure\)|Runner system failure/i },
+  { category: 'infrastructure', confidence: 0.85, reason: 'package registry returned a server error', pattern: /\b50[0-4] (?:Internal Server Error|Bad Gateway|Service Unavailable|Gateway Time-?out)\b/i },
+  { category: 'infrastructure', confidence: 0.85, reason: 'package registry returned a server error', pattern: /npm ERR! code E5\d\d\b|ERR_PNPM_FETCH_5\d\d|returned error: 5\d\d\b/ },
+  { category: 'infrastructure', confidence: 0.6, reason: 'network error', pattern: /\b(?:ECONNRESET|ETIMEDOUT|EAI_AGAIN|ECONNREFUSED)\b|Could not resolve host/ },
+
+  // Dependency resolution
+  { category: 'dependency', confidence: 0.8, reason: 'dependency versions could not be resolved', pattern: /\bERESOLVE\b|No matching version found|ERR_PNPM_NO_MATCHING_VERSION|ResolutionImpossible|No matching distribution found|failed to select a version/ },
+  { category: 'dependency', confidence: 0.8, reason: 'dependency versions could not be resolved', pattern: /Could not resolve dependencies for project|Could not resolve all (?:files|dependencies) for configuration/ },
+  { category: 'dependency', confidence: 0.8, reason: 'lockfile is out of date', pattern: /package\.json and package-lock\.json .*are in sync|lockfile needs to be updated|ERR_PNPM_OUTDATED_LOCKFILE|missing go\.sum entry/i },
+  { category: 'dependency', confidence: 0.75, reason: 'package not found in the registry', pattern: /npm ERR! code E404\b|ERR_PNPM_FETCH_404/ },
+];
+
+/** Confidence of a failure backed by failing-test diagnostics */
+const TEST_CONFIDENCE = 0.8;
+
+/** Confidence of a failure backed by located tool diagnostics */
+const CODE_CONFIDENCE = 0.7;
+
+/** Confidence when nothing in the log points anywhere */
+const FALLBACK_CONFIDENCE = 0.3;
+
+/**
+ * Classifies a failed job.
+ *
+ * @param lines       - Cleaned log lines of the job
+ * @param diagnostics - Diagnostics extracted from the same lines
+ */
+export function classifyFailure(lines: string[], diagnostics: Diagnostic[] = []): FailureClassification {
+  let best: FailureClassification | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/^##\[\w+\]/, '').trim();
+    for (const signal of SIGNALS) {
+      // Later lines win ties, like the error ranker
+      if (best && signal.confidence < best.confidence) continue;
+      if (!signal.pattern.test(line)) continue;
+      best = {
+        category: signal.category,
+        confidence: signal.confidence,
+        reason: signal.reason,
+        evidence: line,
+        logLine: i,
+      };
+    }
+  }
+
+  const tests = diagnostics.filter((d) => d.test !== undefined && d.severity === 'error');
+  if (tests.length > 0 && (!best || best.confidence < TEST_CONFIDENCE)) {
+    return {
+      category: 'test',
+      confidence: TEST_CONFIDENCE,
+      reason: `${String(tests.length)} failing test${tests.length === 1 ? '' : 's'}`,
+    };
+  }
+
+  const located = diagnostics.filter((d) => d.tool !== undefined && d.file && d.severity === 'error');
+  if (located.length > 0 && (!best || best.confidence < CODE_CONFIDENCE)) {
+    return {
+      category: 'code',
+      confidence: CODE_CONFIDENCE,
+      reason: `${String(located.length)} error${located.length === 1 ? '' : 's'} in source files`,
+    };
+  }
+
+  return best ?? { category: 'code', confidence: FALLBACK_CONFIDENCE, reason: 'no infrastructure signal found' };
+}
+
+/** Formats a classification for the prompt header, e.g. "infrastructure (90% confidence) - runner ran out of memory" */
+export function formatClassification(classification: FailureClassification): string {
+  const percent = Math.round(classification.confidence * 100);
+  return `${classification.category} (${String(percent)}% confidence) - ${classification.reason}`;
+}
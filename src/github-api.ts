@@ -0,0 +1,272 @@
+import { httpGet, parseJsonBody } from './http-client.js';
+import type { HttpResponse } from './http-client.js';
+import { readZipEntries } from './zip-reader.js';
+import type { ZipEntry } from './zip-reader.js';
+
+// ---------------------------------------------------------------------------
+// GitHub Actions (native REST API, no gh CLI)
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+export interface GitHubApiOptions {
+  /** Repository in "owner/repo" format */
+  repo: string;
+  /** API token (GITHUB_TOKEN / GH_TOKEN). Public repos work without one, rate-limited. */
+  token?: string;
+  /** API base URL. Defaults to https://api.github.com (GHES: https://host/api/v3) */
+  apiUrl?: string;
+  /** Specific run ID. If omitted, the latest failed run is auto-detected. */
+  runId?: string;
+  /** Branch to search for the latest failed run. If omitted, all branches are searched. */
+  branch?: string;
+}
+
+interface ApiStep {
+  name: string;
+  number: number;
+  conclusion: string | null;
+}
+
+interface ApiJob {
+  id: number;
+  name: string;
+  conclusion: string | null;
+  steps: ApiStep[];
+}
+
+/** Job and step conclusions that count as failed (mirrors `gh run view --log-failed`) */
+const FAILED_CONCLUSIONS = new Set(['failure', 'timed_out']);
+
+/**
+ * Resolves the GitHub API token from the environment.
+ * GH_TOKEN wins over GITHUB_TOKEN, matching the precedence used by gh.
+ */
+export function resolveGitHubToken(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env['GH_TOKEN'] || env['GITHUB_TOKEN'] || undefined;
+}
+
+/**
+ * Maps a GitHub API error status to a user-friendly, actionable message.
+ */
+function mapGitHubApiError(status: number, body: string): string {
+  if (status === 401) {
+    return 'Set GITHUB_TOKEN or GH_TOKEN to a valid token';
+  }
+  if (status === 403 && /rate limit/i.test(body)) {
+    return 'API rate limit exceeded. Set GITHUB_TOKEN or GH_TOKEN to raise the limit';
+  }
+  if (status === 403) {
+    return 'Token lacks permission. It needs read access to Actions (actions:read)';
+  }
+  if (status === 404) {
+    return 'Check repo name and that you have access';
+  }
+  if (status === 410) {
+    return 'Logs have expired or were deleted';
+  }
+  return `GitHub API error: HTTP ${status}`;
+}
+
+/** Builds the request headers for the GitHub REST API */
+function githubHeaders(token: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'User-Agent': 'failprompt',
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+/** GETs a GitHub API path, throwing a mapped error on non-2xx responses */
+async function githubGet(options: GitHubApiOptions, path: string, what: string): Promise<HttpResponse> {
+  const base = (options.apiUrl ?? DEFAULT_GITHUB_API_URL).replace(/\/+$/, '');
+  const response = await httpGet(`${base}${path}`, githubHeaders(options.token));
+  if (response.status < 200 || response.status >= 300) {
+    const body = response.body.toString('utf-8');
+    throw new Error(`Failed to fetch ${what}: ${mapGitHubApiError(response.status, body)}`);
+  }
+  return response;
+}
+
+/**
+ * Auto-detects the latest failed run ID via the REST API.
+ */
+async function detectLatestFailedRunIdViaApi(options: GitHubApiOptions): Promise<string> {
+  const query = new URLSearchParams({ status: 'failure', per_page: '1' });
+  if (options.branch) query.set('branch', options.branch);
+
+  const response = await githubGet(
+    options,
+    `/repos/${options.repo}/actions/runs?${query.toString()}`,
+    'workflow runs'
+  );
+  const parsed = parseJsonBody(response, 'workflow runs');
+  const runs: unknown =
+    typeof parsed === 'object' && parsed !== null && 'workflow_runs' in parsed
+      ? (parsed as { workflow_runs: unknown }).workflow_runs
+      : undefined;
+  if (!Array.isArray(runs)) {
+    throw new Error('Unexpected response from GitHub API: expected workflow_runs array');
+  }
+
+  const first: unknown = runs[0];
+  if (typeof first !== 'object' || first === null || !('id' in first)) {
+    const where = options.branch ? ` on branch "${options.branch}"` : '';
+    throw new Error(`No failed runs found${where}.`);
+  }
+  return String((first as { id: unknown }).id);
+}
+
+/** Narrows an unknown API value to a job object, dropping malformed entries */
+function toApiJob(value: unknown): ApiJob | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const job = value as Record<string, unknown>;
+  if (typeof job['id'] !== 'number' || typeof job['name'] !== 'string') return null;
+
+  const steps: ApiStep[] = [];
+  if (Array.isArray(job['steps'])) {
+    for (const s of job['steps'] as unknown[]) {
+      if (typeof s !== 'object' || s === null) continue;
+      const step = s as Record<string, unknown>;
+      if (typeof step['name'] !== 'string' || typeof step['number'] !== 'number') continue;
+      steps.push({
+        name: step['name'],
+        number: step['number'],
+        conclusion: typeof step['conclusion'] === 'string' ? step['conclusion'] : null,
+      });
+    }
+  }
+
+  return {
+    id: job['id'],
+    name: job['name'],
+    conclusion: typeof job['conclusion'] === 'string' ? job['conclusion'] : null,
+    steps,
+  };
+}
+
+/**
+ * Lists the failed jobs (latest attempt) of a workflow run.
+ */
+async function listFailedJobs(options: GitHubApiOptions, runId: string): Promise<ApiJob[]> {
+  const response = await githubGet(
+    options,
+    `/repos/${options.repo}/actions/runs/${runId}/jobs?filter=latest&per_page=100`,
+    `jobs for run ${runId}`
+  );
+  const parsed = parseJsonBody(response, `jobs for run ${runId}`);
+  const jobs: unknown =
+    typeof parsed === 'object' && parsed !== null && 'jobs' in parsed
+      ? (parsed as { jobs: unknown }).jobs
+      : undefined;
+  if (!Array.isArray(jobs)) {
+    throw new Error('Unexpected response from GitHub API: expected jobs array');
+  }
+
+  return jobs
+    .map(toApiJob)
+    .filter((j): j is ApiJob => j !== null && FAILED_CONCLUSIONS.has(j.conclusion ?? ''));
+}
+
+/**
+ * Normalizes a job name the way GitHub does for directory names in the log
+ * archive (characters that are invalid in file names are dropped).
+ */
+function archiveDirName(jobName: string): string {
+  return jobName.replace(/[/\\:*?"<>|]/g, '').trim();
+}
+
+/**
+ * Prefixes each log line with job and step columns, reproducing the
+ * `gh run view --log-failed` format so the extractor handles both identically.
+ */
+function toGhLogFormat(jobName: string, stepName: string, log: string): string {
+  return log
+    .replace(/\r?\n$/, '')
+    .split(/\r?\n/)
+    .map((line) => `${jobName}\t${stepName}\t${line}`)
+    .join('\n');
+}
+
+/**
+ * Picks the failed-step logs of one job out of the run log archive.
+ * Archive layout: "<job name>/<step number>_<step name>.txt".
+ * Returns null when the archive has no directory for the job.
+ */
+function jobLogFromArchive(entries: ZipEntry[], job: ApiJob): string | null {
+  const dir = archiveDirName(job.name);
+  const jobEntries = entries.filter((e) => {
+    const slash = e.name.indexOf('/');
+    return slash > 0 && archiveDirName(e.name.slice(0, slash)) === dir;
+  });
+  if (jobEntries.length === 0) return null;
+
+  // A failed job without a failed step (e.g. setup failure): keep all steps
+  const failedSteps = job.steps.filter((s) => FAILED_CONCLUSIONS.has(s.conclusion ?? ''));
+  const steps = failedSteps.length > 0 ? failedSteps : job.steps;
+
+  const chunks: string[] = [];
+  for (const step of steps) {
+    const entry = jobEntries.find((e) => (e.name.split('/').pop() ?? '').startsWith(`${step.number}_`));
+    if (entry) {
+      chunks.push(toGhLogFormat(job.name, step.name, entry.content.toString('utf-8')));
+    }
+  }
+  return chunks.length > 0 ? chunks.join('\n') : null;
+}
+
+/**
+ * Downloads the full log of a single job via the per-job `/logs` endpoint.
+ * That log has no per-step split, so every line is attributed to the first
+ * failed step (or "UNKNOWN STEP", as gh does).
+ */
+async function jobLogFromEndpoint(options: GitHubApiOptions, job: ApiJob): Promise<string> {
+  const response = await githubGet(
+    options,
+    `/repos/${options.repo}/actions/jobs/${String(job.id)}/logs`,
+    `log for job ${job.name}`
+  );
+  const failedStep = job.steps.find((s) => FAILED_CONCLUSIONS.has(s.conclusion ?? ''));
+  return toGhLogFormat(job.name, failedStep?.name ?? 'UNKNOWN STEP', response.body.toString('utf-8'));
+}
+
+/**
+ * Fetches the failed log from GitHub Actions via the REST API.
+ *
+ * Steps:
+ * 1. Find the latest failed run (or use the provided runId)
+ * 2. List the run's jobs and keep the failed ones
+ * 3. Download the run log archive (zip) and pick the failed steps of each job
+ * 4. For jobs missing from the archive (or if the archive is unavailable),
+ *    fall back to the per-job `/logs` endpoint
+ *
+ * @returns Log text in the same format as `gh run view --log-failed`
+ */
+export async function fetchFailedLogViaApi(options: GitHubApiOptions): Promise<string> {
+  if (!/^[\w.-]+\/[\w.-]+$/.test(options.repo)) {
+    throw new Error(`Invalid repository "${options.repo}". Pass --repo owner/repo`);
+  }
+
+  const runId = options.runId ?? (await detectLatestFailedRunIdViaApi(options));
+  const jobs = await listFailedJobs(options, runId);
+  if (jobs.length === 0) {
+    throw new Error(`No failed jobs in run ${runId}`);
+  }
+
+  let entries: ZipEntry[] = [];
+  try {
+    const archive = await githubGet(options, `/repos/${options.repo}/actions/runs/${runId}/logs`, `logs for run ${runId}`);
+    entries = readZipEntries(archive.body);
+  } catch {
+    // The archive is an optimization; per-job logs below still work without it
+    entries = [];
+  }
+
+  const logs: string[] = [];
+  for (const job of jobs) {
+    logs.push(jobLogFromArchive(entries, job) ?? (await jobLogFromEndpoint(options, job)));
+  }
+  return logs.join('\n');
+}
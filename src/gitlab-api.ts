@@ -0,0 +1,145 @@
+import { httpGet, parseJsonBody } from './http-client.js';
+import type { HttpResponse } from './http-client.js';
+import { selectFailedGitLabJobs } from './log-fetcher.js';
+import type { JobLog } from './log-fetcher.js';
+
+// ---------------------------------------------------------------------------
+// GitLab CI (native REST API, no glab CLI)
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+/**
+ * GitLab API credentials. Personal and project access tokens are sent as
+ * PRIVATE-TOKEN; the CI_JOB_TOKEN of a running job is sent as JOB-TOKEN.
+ */
+export interface GitLabToken {
+  value: string;
+  header: 'PRIVATE-TOKEN' | 'JOB-TOKEN';
+}
+
+export interface GitLabApiOptions {
+  /** Project path ("group/subgroup/project") or numeric project ID */
+  project: string;
+  token?: GitLabToken;
+  /** Instance URL for self-managed GitLab. Defaults to https://gitlab.com */
+  gitlabUrl?: string;
+  /** Specific pipeline ID. If omitted, the latest failed pipeline is auto-detected. */
+  pipelineId?: string;
+  /** Branch (ref) to search for the latest failed pipeline. If omitted, all refs are searched. */
+  branch?: string;
+  /** Only fetch the failed job with this name */
+  jobName?: string;
+}
+
+/**
+ * Resolves GitLab API credentials from the environment.
+ * GITLAB_TOKEN (personal or project token) wins over CI_JOB_TOKEN.
+ */
+export function resolveGitLabToken(env: NodeJS.ProcessEnv = process.env): GitLabToken | undefined {
+  const personal = env['GITLAB_TOKEN'];
+  if (personal) return { value: personal, header: 'PRIVATE-TOKEN' };
+  const job = env['CI_JOB_TOKEN'];
+  if (job) return { value: job, header: 'JOB-TOKEN' };
+  return undefined;
+}
+
+/**
+ * Maps a GitLab API error status to a user-friendly, actionable message.
+ */
+function mapGitLabApiError(status: number): string {
+  if (status === 401) {
+    return 'Set GITLAB_TOKEN (or CI_JOB_TOKEN inside a job) to a valid token';
+  }
+  if (status === 403) {
+    return 'Token lacks permission. It needs the read_api scope (job tokens need project access)';
+  }
+  if (status === 404) {
+    return 'Check project path and that you have access';
+  }
+  return `GitLab API error: HTTP ${status}`;
+}
+
+/** GETs a GitLab API v4 path, throwing a mapped error on non-2xx responses */
+async function gitlabGet(options: GitLabApiOptions, path: string, what: string): Promise<HttpResponse> {
+  const base = (options.gitlabUrl ?? DEFAULT_GITLAB_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'User-Agent': 'failprompt' };
+  if (options.token) headers[options.token.header] = options.token.value;
+
+  const response = await httpGet(`${base}/api/v4${path}`, headers);
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Failed to fetch ${what}: ${mapGitLabApiError(response.status)}`);
+  }
+  return response;
+}
+
+/** URL path segment for a project: numeric IDs as-is, paths URL-encoded */
+function projectSegment(project: string): string {
+  return `/projects/${encodeURIComponent(project)}`;
+}
+
+/**
+ * Auto-detects the latest failed pipeline ID via the REST API.
+ */
+async function detectLatestFailedPipelineIdViaApi(options: GitLabApiOptions): Promise<string> {
+  const query = new URLSearchParams({ status: 'failed', per_page: '1', order_by: 'id', sort: 'desc' });
+  if (options.branch) query.set('ref', options.branch);
+
+  const response = await gitlabGet(
+    options,
+    `${projectSegment(options.project)}/pipelines?${query.toString()}`,
+    'pipelines'
+  );
+  const pipelines = parseJsonBody(response, 'pipelines');
+  if (!Array.isArray(pipelines)) {
+    throw new Error('Unexpected response from GitLab API: expected an array of pipelines');
+  }
+
+  const first: unknown = pipelines[0];
+  if (typeof first !== 'object' || first === null || !('id' in first)) {
+    const where = options.branch ? ` on branch "${options.branch}"` : '';
+    throw new Error(`No failed pipelines found${where}.`);
+  }
+  return String((first as { id: unknown }).id);
+}
+
+/**
+ * Fetches the logs of all failed jobs in a GitLab CI pipeline via the REST API.
+ *
+ * Same steps as the glab path, without needing a checked-out repo:
+ * 1. Find the failed pipeline (or use the provided pipelineId)
+ * 2. List jobs in that pipeline and keep every failed one (optionally only `jobName`)
+ * 3. Fetch each job trace (log output)
+ *
+ * @returns One entry per failed job, in pipeline order
+ */
+export async function fetchGitLabFailedLogViaApi(options: GitLabApiOptions): Promise<JobLog[]> {
+  if (!options.project.trim()) {
+    throw new Error('No GitLab project given. Pass --project <group/project or ID>');
+  }
+
+  const pipelineId = options.pipelineId ?? (await detectLatestFailedPipelineIdViaApi(options));
+
+  const response = await gitlabGet(
+    options,
+    `${projectSegment(options.project)}/pipelines/${pipelineId}/jobs?per_page=100`,
+    `jobs for pipeline ${pipelineId}`
+  );
+  const jobs = parseJsonBody(response, `jobs for pipeline ${pipelineId}`);
+  if (!Array.isArray(jobs)) {
+    throw new Error('Unexpected response from GitLab API: expected an array of jobs');
+  }
+
+  const failedJobs = selectFailedGitLabJobs(jobs, pipelineId, options.jobName);
+
+  const logs: JobLog[] = [];
+  for (const job of failedJobs) {
+    const trace = await gitlabGet(
+      options,
+      `${projectSegment(options.project)}/jobs/${String(job.id)}/trace`,
+      `log for job ${job.name}`
+    );
+    logs.push({ name: job.name, stage: job.stage, log: trace.body.toString('utf-8') });
+  }
+  return logs;
+}
@@ -0,0 +1,54 @@
+/**
+ * Minimal HTTP client for the CI provider REST APIs.
+ *
+ * Built on the global `fetch` (Node 18+) so failprompt needs neither the
+ * gh/glab CLIs nor an extra runtime dependency. Redirects are followed, which
+ * matters for log downloads: both GitHub and GitLab redirect to blob storage.
+ */
+
+export interface HttpResponse {
+  status: number;
+  body: Buffer;
+}
+
+/** Default request timeout: log archives can be large, so be generous */
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/**
+ * Performs a GET request and returns the status and raw body.
+ * Does NOT throw on non-2xx statuses; callers map those to provider-specific
+ * messages. Throws only on network-level failures (DNS, refused, timeout).
+ */
+export async function httpGet(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<HttpResponse> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'GET',
+      headers,
+      redirect: 'follow',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err: unknown) {
+    const cause = err instanceof Error && err.cause instanceof Error ? err.cause.message : '';
+    const raw = err instanceof Error ? err.message : String(err);
+    throw new Error(`Request to ${url} failed: ${cause || raw}`);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  return { status: response.status, body };
+}
+
+/**
+ * Parses a JSON response body, throwing a clear error if it is not valid JSON.
+ */
+export function parseJsonBody(response: HttpResponse, what: string): unknown {
+  try {
+    return JSON.parse(response.body.toString('utf-8'));
+  } catch {
+    throw new Error(`Unexpected response while fetching ${what}: body is not valid JSON`);
+  }
+}
@@ -2,12 +2,34 @@
 import { Command } from 'commander';
 import { writeFileSync, readFileSync } from 'fs';
 import { execSync } from 'child_process';
-import { fetchFailedLog, fetchGitLabFailedLog } from './log-fetcher.js';
-import { extractErrors } from './error-extractor.js';
-import { buildPrompt } from './prompt-builder.js';
-import { detectCIProvider } from './ci-provider.js';
+import { fetchFailedLog, fetchGitLabFailedLog, readLocalLog } from './log-fetcher.js';
+import type { JobLog } from './log-fetcher.js';
+import { fetchFailedLogViaApi, resolveGitHubToken } from './github-api.js';
+import { fetchGitLabFailedLogViaApi, resolveGitLabToken } from './gitlab-api.js';
+import { extractErrorsByJob } from './error-extractor.js';
+import type { ErrorCluster } from './error-clusterer.js';
+import { formatScoredLine } from './error-ranker.js';
+import { formatClassification } from './failure-classifier.js';
+import type { FailureClassification } from './failure-classifier.js';
+import type { ScoredErrorLine } from './error-ranker.js';
+import { buildMultiJobPrompt } from './prompt-builder.js';
+import { loadTemplate, parseTemplate } from './prompt-template.js';
+import { createBudgetReport, formatBudgetReport } from './token-budget.js';
+import { createTrackedFileIndex, listTrackedFiles } from './tracked-files.js';
+import {
+  DEFAULT_REDACTION_RULES,
+  compileRedactionPatterns,
+  formatRedactionReport,
+  redactError,
+  redactText,
+} from './redactor.js';
+import type { RedactionReport, RedactionRule } from './redactor.js';
+import { detectCIProvider, detectProviderFromLog } from './ci-provider.js';
 import type { CIProvider } from './ci-provider.js';
-import type { ExtractedError } from './error-extractor.js';
+import { loadConfigFiles, mergeConfigs } from './config.js';
+import { compileLinePatterns } from './parsers/custom.js';
+import type { FailpromptConfig } from './config.js';
+import type { Diagnostic, ExtractedError, ExtractOptions } from './error-extractor.js';
 
 /** Detect current git repo in "owner/repo" format from remote origin */
 function detectRepo(): string {
@@ -38,6 +60,61 @@ function detectBranch(): string {
   }
 }
 
+/** Commander option parser for repeatable flags: collects every value */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/** Parses --max-tokens: a positive integer */
+function parseMaxTokens(value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new Error(`Invalid --max-tokens "${value}": expected a positive integer`);
+  }
+  return n;
+}
+
+/** CLI options that can also be set in a config file */
+interface ConfigFlags {
+  provider?: string;
+  apiUrl?: string;
+  gitlabUrl?: string;
+  template?: string;
+  errorPattern: string[];
+  ignorePattern: string[];
+  redactPattern: string[];
+  redact?: boolean;
+  format?: string;
+  json?: boolean;
+}
+
+/** The config-file settings given as flags; only flags actually passed are set */
+function configFromFlags(options: ConfigFlags): FailpromptConfig {
+  const config: FailpromptConfig = {};
+  if (options.provider !== undefined) {
+    if (options.provider !== 'github' && options.provider !== 'gitlab' && options.provider !== 'auto') {
+      throw new Error(`Unknown provider "${options.provider}". Use: github, gitlab, or auto`);
+    }
+    config.provider = options.provider;
+  }
+  if (options.format !== undefined) {
+    if (options.format !== 'markdown' && options.format !== 'json') {
+      throw new Error(`Unknown format "${options.format}". Use: markdown or json`);
+    }
+    config.format = options.format;
+  }
+  if (options.json) config.format = 'json';
+  if (options.apiUrl !== undefined) config.apiUrl = options.apiUrl;
+  if (options.gitlabUrl !== undefined) config.gitlabUrl = options.gitlabUrl;
+  if (options.template !== undefined) config.template = options.template;
+  if (options.errorPattern.length > 0) config.errorPatterns = options.errorPattern;
+  if (options.ignorePattern.length > 0) config.ignorePatterns = options.ignorePattern;
+  if (options.redactPattern.length > 0) config.redactPatterns = options.redactPattern;
+  // --no-redact only shows up as false; true is commander's default
+  if (options.redact === false) config.redact = false;
+  return config;
+}
+
 /** Read version from package.json (relative to this file) */
 function getVersion(): string {
   try {
@@ -52,16 +129,56 @@ function getVersion(): string {
   }
 }
 
+/** Per-job entry of the JSON output */
+interface JsonJobOutput {
+  job: string;
+  stage: string;
+  stepName: string;
+  errors: string[];
+  filePaths: string[];
+  sourceContext: string;
+  diagnostics: Diagnostic[];
+  /** Candidate error lines with their scores, best first */
+  rankedErrors: ScoredErrorLine[];
+  /** Errors grouped by normalized message */
+  errorClusters: ErrorCluster[];
+  /** Why the job failed; null when the log was empty */
+  classification: FailureClassification | null;
+}
+
 /** Structured JSON output shape for --json mode */
 interface JsonOutput {
   repo: string;
   branch: string;
   runId: string;
   provider: string;
+  /** Top-level fields describe the first failed job (kept for single-job consumers) */
   stepName: string;
   errors: string[];
   filePaths: string[];
   sourceContext: string;
+  diagnostics: Diagnostic[];
+  rankedErrors: ScoredErrorLine[];
+  errorClusters: ErrorCluster[];
+  classification: FailureClassification | null;
+  /** One entry per failed job */
+  jobs: JsonJobOutput[];
+}
+
+/** Build the JSON entry for one failed job */
+function buildJsonJob(error: ExtractedError): JsonJobOutput {
+  return {
+    job: error.jobName ?? '',
+    stage: error.stage ?? '',
+    stepName: error.stepName,
+    errors: error.allErrors,
+    filePaths: error.filePaths,
+    sourceContext: error.fullContext,
+    diagnostics: error.diagnostics ?? [],
+    rankedErrors: error.rankedErrors ?? [],
+    errorClusters: error.errorClusters ?? [],
+    classification: error.classification ?? null,
+  };
 }
 
 /** Build structured JSON output from extracted error data */
@@ -70,17 +187,24 @@ function buildJsonOutput(options: {
   branch: string;
   runId: string;
   provider: string;
-  error: ExtractedError;
+  errors: ExtractedError[];
 }): JsonOutput {
+  const jobs = options.errors.map(buildJsonJob);
+  const first = jobs.length > 0 ? jobs[0] : undefined;
   return {
     repo: options.repo,
     branch: options.branch,
     runId: options.runId,
     provider: options.provider,
-    stepName: options.error.stepName,
-    errors: options.error.allErrors,
-    filePaths: options.error.filePaths,
-    sourceContext: options.error.fullContext,
+    stepName: first?.stepName ?? '(unknown)',
+    errors: first?.errors ?? [],
+    filePaths: first?.filePaths ?? [],
+    sourceContext: first?.sourceContext ?? '',
+    diagnostics: first?.diagnostics ?? [],
+    rankedErrors: first?.rankedErrors ?? [],
+    errorClusters: first?.errorClusters ?? [],
+    classification: first?.classification ?? null,
+    jobs,
   };
 }
 
@@ -90,24 +214,53 @@ program
   .name('failprompt')
   .description('Parse CI failure logs and generate ready-to-paste AI prompts')
   .version(getVersion(), '-V, --version', 'Output version number')
+  .argument('[log]', 'Read the CI log from a local file, or "-" for stdin (offline mode)')
   .option('-r, --run <id>', 'Specific GitHub Actions run ID (default: auto-detect latest failed)')
   .option('-p, --pipeline <id>', 'Specific GitLab CI pipeline ID (default: auto-detect latest failed)')
-  .option('-P, --provider <type>', 'CI provider: github, gitlab, auto (default: auto)', 'auto')
+  .option('-P, --provider <type>', 'CI provider: github, gitlab, auto (default: auto)')
   .option('-R, --repo <owner/repo>', 'Repository in owner/repo format (default: git remote origin)')
   .option('-b, --branch <name>', 'Branch name to look up failed runs on (no silent fallback)')
+  .option('-l, --log-file <path>', 'Read the CI log from a local file, or "-" for stdin (skips gh/glab)')
+  .option('--api-url <url>', 'GitHub REST API base URL; uses the built-in HTTP client instead of gh (default: $GITHUB_API_URL or https://api.github.com)')
+  .option('--gitlab-url <url>', 'GitLab instance URL; uses the built-in HTTP client instead of glab (default: $CI_SERVER_URL or https://gitlab.com)')
+  .option('--project <path|id>', 'GitLab project path or numeric ID for the API client (default: $CI_PROJECT_ID or git remote origin)')
+  .option('-j, --job <name>', 'Only report the failed job with this name')
+  .option('--git-paths', 'Match file paths against `git ls-files` (any tracked file, partial paths by suffix) instead of the built-in directory list')
   .option('-o, --output <file>', 'Write prompt to file instead of stdout')
   .option('--no-context', 'Skip git source context extraction')
-  .option('--json', 'Output structured JSON instead of a markdown prompt')
+  .option('--error-pattern <regex>', 'Extra regex for error lines (repeatable; named groups file, line, column and message set the location and text)', collect, [])
+  .option('--ignore-pattern <regex>', 'Regex for log lines that are never picked as errors (repeatable)', collect, [])
+  .option('--template <path>', 'Prompt template file, or a built-in preset: default, minimal, issue')
+  .option('--max-tokens <n>', 'Token budget for the prompt: lower-priority errors and files are dropped to fit, and larger context is used when there is room')
+  .option('--redact-pattern <regex>', 'Extra regex to mask in the output (repeatable; a (?<secret>...) group masks only that part)', collect, [])
+  .option('--no-redact', 'Do not mask tokens, keys and credentials in the output')
+  .option('--format <type>', 'Output format: markdown or json (default: markdown)')
+  .option('--json', 'Output structured JSON instead of a markdown prompt (same as --format json)')
+  .option('--print-config', 'Print the settings merged from config files and flags, then exit')
   .option('-v, --verbose', 'Print debug info to stderr')
-  .action((options: {
+  .action(async (logArg: string | undefined, options: {
     run?: string;
     pipeline?: string;
-    provider: string;
+    provider?: string;
     repo?: string;
     branch?: string;
+    logFile?: string;
+    apiUrl?: string;
+    gitlabUrl?: string;
+    project?: string;
+    job?: string;
+    gitPaths?: boolean;
     output?: string;
     context?: boolean;
+    template?: string;
+    maxTokens?: string;
+    errorPattern: string[];
+    ignorePattern: string[];
+    redactPattern: string[];
+    redact?: boolean;
+    format?: string;
     json?: boolean;
+    printConfig?: boolean;
     verbose?: boolean;
   }) => {
     const log = (msg: string) => {
@@ -115,16 +268,57 @@ program
     };
 
     try {
+      // Config files (home directory, then the repo root down to here), overridden by flags
+      const configFiles = loadConfigFiles();
+      const config = mergeConfigs([...configFiles.map((file) => file.config), configFromFlags(options)]);
+      for (const file of configFiles) log(`Config file: ${file.path}`);
+      if (options.printConfig) {
+        process.stdout.write(JSON.stringify(config, null, 2) + '\n');
+        process.stderr.write(
+          configFiles.length > 0
+            ? `Merged from: ${configFiles.map((file) => file.path).join(', ')} and command-line flags\n`
+            : 'No config files found; showing command-line flags only\n'
+        );
+        return;
+      }
+
       // Resolve CI provider
-      let provider: CIProvider | 'auto' = 'auto';
-      if (options.provider === 'github' || options.provider === 'gitlab') {
-        provider = options.provider;
-      } else if (options.provider !== 'auto') {
-        throw new Error(`Unknown provider "${options.provider}". Use: github, gitlab, or auto`);
+      let provider: CIProvider | 'auto' = config.provider ?? 'auto';
+
+      // Validate user redaction, error and ignore patterns before doing any network work
+      const redactionRules: RedactionRule[] =
+        config.redact === false
+          ? []
+          : [...DEFAULT_REDACTION_RULES, ...compileRedactionPatterns(config.redactPatterns ?? [])];
+      if (config.redact === false) {
+        process.stderr.write('Warning: secret masking is off; tokens and credentials in the log are printed as they are\n');
+      }
+      const errorPatterns = compileLinePatterns(config.errorPatterns ?? [], 'error');
+      const ignorePatterns = compileLinePatterns(config.ignorePatterns ?? [], 'ignore');
+      const maxTokens = options.maxTokens !== undefined ? parseMaxTokens(options.maxTokens) : undefined;
+
+      // Load and check the template up front too, so a typo fails fast
+      let template: string | undefined;
+      if (config.template !== undefined) {
+        if (maxTokens !== undefined) {
+          throw new Error(
+            '--max-tokens applies to the built-in layout and cannot be combined with a template (--template or "template" in a config file)'
+          );
+        }
+        template = loadTemplate(config.template);
+        parseTemplate(template);
+      }
+      const { errorLines, ...contextLimits } = config.context ?? {};
+
+      // Offline mode: a local log file or stdin replaces the gh/glab fetch
+      const logSource = options.logFile ?? logArg;
+      if (options.logFile && logArg && options.logFile !== logArg) {
+        throw new Error('Pass the log either as an argument or via --log-file, not both');
       }
 
-      // Auto-detect provider from env vars if not specified
-      if (provider === 'auto') {
+      // Auto-detect provider from env vars if not specified. Skipped in offline
+      // mode: the environment describes this machine, not the log being read.
+      if (provider === 'auto' && !logSource) {
         const detected = detectCIProvider();
         if (detected.provider !== 'unknown') {
           provider = detected.provider;
@@ -132,8 +326,8 @@ program
         }
       }
 
-      // If --pipeline is given, force GitLab provider
-      if (options.pipeline && provider === 'auto') {
+      // If --pipeline (or a GitLab API option) is given, force GitLab provider
+      if ((options.pipeline || config.gitlabUrl || options.project) && provider === 'auto') {
         provider = 'gitlab';
       }
 
@@ -145,60 +339,160 @@ program
       const branch = options.branch ?? detectBranch();
 
       // Determine the run/pipeline ID for the prompt
-      const runId = options.run ?? options.pipeline ?? 'latest';
+      const defaultRunId = logSource ? (logSource === '-' ? 'stdin' : logSource) : 'latest';
+      const runId = options.run ?? options.pipeline ?? defaultRunId;
 
       log(`Provider: ${provider}`);
       log(`Repo: ${repo}`);
       log(`Branch: ${branch}`);
       log(`Run/Pipeline ID: ${runId}`);
 
-      // Fetch the log based on provider
-      let rawLog: string;
-      if (provider === 'gitlab') {
-        log('Fetching failed CI log via glab...');
-        rawLog = fetchGitLabFailedLog(options.pipeline);
+      // Fetch the log(s) based on provider: one entry per failed job
+      let jobLogs: JobLog[];
+      if (logSource) {
+        log(`Reading CI log from ${logSource === '-' ? 'stdin' : logSource}...`);
+        const rawLog = readLocalLog(logSource);
+        jobLogs = [{ name: '', stage: '', log: rawLog }];
+        if (provider === 'auto') {
+          const detected = detectProviderFromLog(rawLog);
+          if (detected !== 'unknown') {
+            provider = detected;
+            log(`Detected CI provider from log content: ${provider}`);
+          }
+        }
+      } else if (provider === 'gitlab') {
+        const gitlabToken = resolveGitLabToken();
+        if (gitlabToken || config.gitlabUrl || options.project) {
+          log('Fetching failed CI log via the GitLab REST API...');
+          jobLogs = await fetchGitLabFailedLogViaApi({
+            project: options.project ?? process.env['CI_PROJECT_ID'] ?? repo,
+            token: gitlabToken,
+            gitlabUrl: config.gitlabUrl ?? process.env['CI_SERVER_URL'],
+            pipelineId: options.pipeline,
+            branch: branch === 'unknown' || branch === '' ? undefined : branch,
+            jobName: options.job,
+          });
+        } else {
+          log('Fetching failed CI log via glab...');
+          jobLogs = fetchGitLabFailedLog(options.pipeline, options.job);
+        }
       } else {
-        log('Fetching failed CI log via gh...');
-        // Pass the explicit branch (if given) to prevent silent fallback to "main"
-        rawLog = fetchFailedLog(options.run, options.repo, options.branch);
+        // Prefer the built-in REST client when a token or API URL is configured;
+        // the gh CLI remains the fallback for interactive use
+        const token = resolveGitHubToken();
+        if (token || config.apiUrl) {
+          log('Fetching failed CI log via the GitHub REST API...');
+          const rawLog = await fetchFailedLogViaApi({
+            repo,
+            token,
+            apiUrl: config.apiUrl ?? process.env['GITHUB_API_URL'],
+            runId: options.run,
+            branch: branch === 'unknown' || branch === '' ? undefined : branch,
+          });
+          jobLogs = [{ name: '', stage: '', log: rawLog }];
+        } else {
+          log('Fetching failed CI log via gh...');
+          // Pass the explicit branch (if given) to prevent silent fallback to "main"
+          const rawLog = fetchFailedLog(options.run, options.repo, options.branch);
+          jobLogs = [{ name: '', stage: '', log: rawLog }];
+        }
       }
 
-      log(`Fetched ${rawLog.length} bytes of log output.`);
+      for (const jobLog of jobLogs) {
+        log(`Fetched ${jobLog.log.length} bytes of log output${jobLog.name ? ` for job ${jobLog.name}` : ''}.`);
+      }
 
-      // Extract errors (provider hint for log format detection)
+      // Extract errors per job (provider hint for log format detection).
+      // A single fetched log may still hold several jobs (gh --log-failed).
       log('Extracting errors from log...');
       const resolvedProvider = provider === 'auto' ? 'auto' : provider;
-      const error = extractErrors(rawLog, resolvedProvider);
+      const extractOptions: ExtractOptions = repo === 'unknown/repo' ? {} : { repoName: repo };
+      if (config.pathPrefixes) extractOptions.pathPrefixes = config.pathPrefixes;
+      if (errorPatterns.length > 0) extractOptions.errorPatterns = errorPatterns;
+      if (ignorePatterns.length > 0) extractOptions.ignorePatterns = ignorePatterns;
+      if (errorLines !== undefined) extractOptions.maxContextLines = errorLines;
+      // With a budget, the error context is trimmed to fit instead of capped at 50 lines
+      if (maxTokens !== undefined) extractOptions.maxContextLines = Infinity;
+      if (options.gitPaths) {
+        const tracked = listTrackedFiles();
+        log(`Validating file paths against ${String(tracked.length)} tracked files`);
+        extractOptions.trackedFiles = createTrackedFileIndex(tracked);
+      }
+      let errors: ExtractedError[] = jobLogs.flatMap((jobLog) =>
+        extractErrorsByJob(jobLog.log, resolvedProvider, extractOptions).map((error) => ({
+          ...error,
+          ...(jobLog.name ? { jobName: jobLog.name } : {}),
+          ...(jobLog.stage ? { stage: jobLog.stage } : {}),
+        }))
+      );
+
+      if (options.job !== undefined) {
+        const matching = errors.filter((e) => e.jobName === options.job);
+        if (matching.length === 0) {
+          const names = errors.map((e) => e.jobName).filter((n): n is string => !!n);
+          const hint = names.length > 0 ? `failed jobs: ${names.join(', ')}` : 'the log has no job names';
+          throw new Error(`No failed job named "${options.job}" (${hint})`);
+        }
+        errors = matching;
+      }
 
-      log(`Step: ${error.stepName}`);
-      log(`Errors found: ${error.allErrors.length}`);
-      log(`File paths: ${error.filePaths.join(', ')}`);
+      // Mask secrets before anything is printed or written
+      const redaction: RedactionReport = new Map();
+      errors = errors.map((error) => redactError(error, redactionRules, redaction));
+      const reportRedactions = () => {
+        const report = formatRedactionReport(redaction);
+        if (report) process.stderr.write(`${report}\n`);
+      };
+
+      for (const error of errors) {
+        if (error.jobName) log(`Job: ${error.jobName}${error.stage ? ` (stage: ${error.stage})` : ''}`);
+        log(`Step: ${error.stepName}`);
+        log(`Errors found: ${error.allErrors.length}`);
+        log(`File paths: ${error.filePaths.join(', ')}`);
+        log(`Diagnostics: ${String(error.diagnostics?.length ?? 0)}`);
+        if (error.classification) log(`Failure type: ${formatClassification(error.classification)}`);
+        for (const scored of (error.rankedErrors ?? []).slice(0, 5)) {
+          log(`Error score ${formatScoredLine(scored)}`);
+        }
+      }
 
       // Determine resolved provider string for output
       const providerLabel = provider === 'auto' ? 'unknown' : provider;
 
       // --json mode: output structured JSON
-      if (options.json) {
+      if (config.format === 'json') {
         const jsonOut = buildJsonOutput({
           repo,
           branch,
           runId,
           provider: providerLabel,
-          error,
+          errors,
         });
         process.stdout.write(JSON.stringify(jsonOut, null, 2) + '\n');
+        reportRedactions();
         return;
       }
 
       // Build prompt
       log('Building LLM prompt...');
-      const prompt = buildPrompt({
-        repo,
-        branch,
-        runId,
-        includeContext: options.context !== false,
-        error,
-      });
+      // Source snippets come from local files and get the same redaction
+      const budget = createBudgetReport();
+      const prompt = redactText(
+        buildMultiJobPrompt({
+          repo,
+          branch,
+          runId,
+          includeContext: options.context !== false,
+          errors,
+          ...(maxTokens !== undefined ? { maxTokens, budgetReport: budget } : {}),
+          ...(template !== undefined ? { template } : {}),
+          contextLimits,
+        }),
+        redactionRules,
+        redaction
+      );
+      reportRedactions();
+      if (maxTokens !== undefined) process.stderr.write(`${formatBudgetReport(budget, maxTokens)}\n`);
 
       // Output
       if (options.output) {
@@ -217,4 +511,4 @@ program
     }
   });
 
-program.parse(process.argv);
+await program.parseAsync(process.argv);
@@ -1,4 +1,17 @@
 import { execSync } from 'child_process';
+import { readFileSync } from 'fs';
+
+/**
+ * The log of a single failed CI job.
+ */
+export interface JobLog {
+  /** Job name ('' when unknown, e.g. offline mode or a combined gh log) */
+  name: string;
+  /** Pipeline stage of the job ('' when the provider has no stages) */
+  stage: string;
+  /** Raw log output of the job */
+  log: string;
+}
 
 // ---------------------------------------------------------------------------
 // GitHub Actions (gh CLI)
@@ -153,6 +166,44 @@ function assertGlabAvailable(): void {
   }
 }
 
+/**
+ * Picks the failed jobs out of a GitLab "list pipeline jobs" response.
+ * Shared by the glab and native API fetchers.
+ *
+ * @param jobs       - Parsed JSON array from the jobs endpoint
+ * @param pipelineId - Pipeline ID, for error messages
+ * @param jobName    - Optional job name filter
+ * @throws If no job failed, or no failed job matches `jobName`
+ */
+export function selectFailedGitLabJobs(
+  jobs: unknown[],
+  pipelineId: string,
+  jobName?: string
+): Array<{ id: number; name: string; stage: string }> {
+  const failedJobs = jobs
+    .filter(
+      (j: unknown): j is { id: number; name: string; status: string; stage?: unknown } =>
+        typeof j === 'object' &&
+        j !== null &&
+        'status' in j &&
+        (j as { status: unknown }).status === 'failed'
+    )
+    .map((j) => ({ id: j.id, name: j.name, stage: typeof j.stage === 'string' ? j.stage : '' }));
+
+  if (failedJobs.length === 0) {
+    throw new Error(`No failed jobs in pipeline ${pipelineId}`);
+  }
+
+  if (jobName === undefined) return failedJobs;
+
+  const matching = failedJobs.filter((j) => j.name === jobName);
+  if (matching.length === 0) {
+    const names = failedJobs.map((j) => j.name).join(', ');
+    throw new Error(`No failed job named "${jobName}" in pipeline ${pipelineId} (failed jobs: ${names})`);
+  }
+  return matching;
+}
+
 /**
  * Auto-detects the latest failed pipeline ID on the current branch.
  */
@@ -193,17 +244,18 @@ function detectLatestFailedPipelineId(): string {
 }
 
 /**
- * Fetches the failed job log from GitLab CI via the `glab` CLI.
+ * Fetches the logs of all failed jobs in a GitLab CI pipeline via the `glab` CLI.
  *
  * Uses the GitLab API through glab to:
  * 1. Find the failed pipeline (or use the provided pipelineId)
- * 2. List jobs in that pipeline and find the failed one
- * 3. Fetch the job trace (log output)
+ * 2. List jobs in that pipeline and keep every failed one (optionally only `jobName`)
+ * 3. Fetch each job trace (log output)
  *
  * @param pipelineId - Optional specific pipeline ID. If omitted, auto-detects latest failed.
- * @returns Raw log string from the failed GitLab CI job
+ * @param jobName    - Optional job name filter. Only the failed job with this name is fetched.
+ * @returns One entry per failed job, in pipeline order
  */
-export function fetchGitLabFailedLog(pipelineId?: string): string {
+export function fetchGitLabFailedLog(pipelineId?: string, jobName?: string): JobLog[] {
   assertGlabAvailable();
 
   const resolvedPipelineId = pipelineId ?? detectLatestFailedPipelineId();
@@ -223,29 +275,52 @@ export function fetchGitLabFailedLog(pipelineId?: string): string {
     throw new Error('Unexpected response from GitLab API: expected an array of jobs');
   }
 
-  // Find the first failed job
-  const failedJob = jobs.find(
-    (j: unknown): j is { id: number; name: string; status: string } =>
-      typeof j === 'object' &&
-      j !== null &&
-      'status' in j &&
-      (j as { status: unknown }).status === 'failed'
-  );
+  const failedJobs = selectFailedGitLabJobs(jobs, resolvedPipelineId, jobName);
 
-  if (!failedJob) {
-    throw new Error(`No failed jobs in pipeline ${resolvedPipelineId}`);
-  }
+  // Fetch each job trace (log output)
+  return failedJobs.map((job) => {
+    const traceCmd = `glab api "projects/:fullpath/jobs/${String(job.id)}/trace"`;
+    try {
+      const output = execSync(traceCmd, {
+        stdio: 'pipe',
+        maxBuffer: 50 * 1024 * 1024,
+      });
+      return { name: job.name, stage: job.stage, log: output.toString() };
+    } catch (err: unknown) {
+      const raw = err instanceof Error ? err.message : String(err);
+      throw new Error(`Failed to fetch log for job ${job.name}: ${mapGlabError(raw)}`);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Local log files (offline mode)
+// ---------------------------------------------------------------------------
 
-  // Fetch the job trace (log output)
-  const traceCmd = `glab api "projects/:fullpath/jobs/${String(failedJob.id)}/trace"`;
+/**
+ * Reads a CI log that was already downloaded, from a file or from stdin.
+ *
+ * Used for offline mode: no gh/glab availability checks and no network access,
+ * so it works on air-gapped machines and on logs attached to bug reports.
+ *
+ * @param source - Path to the log file, or "-" to read from stdin
+ * @returns Raw log string
+ */
+export function readLocalLog(source: string): string {
+  const label = source === '-' ? 'stdin' : source;
   try {
-    const output = execSync(traceCmd, {
-      stdio: 'pipe',
-      maxBuffer: 50 * 1024 * 1024,
-    });
-    return output.toString();
+    return readFileSync(source === '-' ? 0 : source, 'utf-8');
   } catch (err: unknown) {
+    const code = typeof err === 'object' && err !== null && 'code' in err
+      ? (err as { code: unknown }).code
+      : undefined;
+    if (code === 'ENOENT') {
+      throw new Error(`Log file not found: ${label}`);
+    }
+    if (code === 'EISDIR') {
+      throw new Error(`Log path is a directory, expected a file: ${label}`);
+    }
     const raw = err instanceof Error ? err.message : String(err);
-    throw new Error(`Failed to fetch log for job ${failedJob.name}: ${mapGlabError(raw)}`);
+    throw new Error(`Failed to read log from ${label}: ${raw}`);
   }
 }
@@ -0,0 +1,134 @@
+/**
+ * GitHub Actions workflow command (annotation) parser.
+ *
+ * Actions and problem matchers report errors with the exact location:
+ *   ::error file=src/a.ts,line=10,col=3,endLine=10,title=Type error::Cannot find name 'x'
+ *   ::warning file=README.md,line=4::Line too long
+ *   ::notice::Deployed to staging
+ *
+ * Messages escape "%", CR and LF as %25, %0D and %0A; property values also
+ * escape ":" and "," as %3A and %2C. The same commands may show up after a
+ * "##[error]" marker in downloaded logs.
+ */
+import { formatLocation } from '../diagnostic.js';
+import type { Diagnostic, DiagnosticSeverity } from '../diagnostic.js';
+
+/** Tool name of annotation diagnostics */
+export const ANNOTATION_TOOL = 'github';
+
+/** "::error file=a.ts,line=1::msg", optionally after "##[error]"; properties are optional */
+const COMMAND = /^(?:##\[\w+\])?::(error|warning|notice)(?: ([^:]*))?::(.*)$/;
+
+/** Properties without the command name, as left after a "##[error]" marker: "file=a.ts,line=1::msg" */
+const BARE_PROPERTIES = /^(?:##\[(error|warning|notice)\])?(file=[^:]*)::(.*)$/;
+
+export interface Annotation {
+  level: DiagnosticSeverity;
+  file?: string;
+  line?: number;
+  column?: number;
+  title?: string;
+  /** Unescaped message; may span several lines */
+  message: string;
+}
+
+/** Undoes workflow command escaping ("%0A" → newline, ...) */
+function unescape(value: string, property: boolean): string {
+  const decoded = value.replace(/%0D/gi, '\r').replace(/%0A/gi, '\n');
+  const withProperty = property ? decoded.replace(/%3A/gi, ':').replace(/%2C/gi, ',') : decoded;
+  return withProperty.replace(/%25/g, '%');
+}
+
+/** Parses "key=value,key=value" annotation properties */
+function parseProperties(raw: string): Map<string, string> {
+  const properties = new Map<string, string>();
+  for (const pair of raw.split(',')) {
+    const eq = pair.indexOf('=');
+    if (eq > 0) properties.set(pair.slice(0, eq).trim(), unescape(pair.slice(eq + 1).trim(), true));
+  }
+  return properties;
+}
+
+/** Parses a positive integer property ("line", "col"), or undefined */
+function numberProperty(properties: Map<string, string>, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = parseInt(properties.get(key) ?? '', 10);
+    if (value > 0) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Parses one workflow command annotation.
+ *
+ * @param line - A trimmed log line
+ * @returns The annotation, or null if the line is not one
+ */
+export function parseAnnotation(line: string): Annotation | null {
+  const match = COMMAND.exec(line) ?? BARE_PROPERTIES.exec(line);
+  if (!match) return null;
+  const [, level = 'error', rawProperties = '', rawMessage = ''] = match;
+  const properties = parseProperties(rawProperties);
+  const file = properties.get('file');
+  const lineNo = numberProperty(properties, 'line');
+  const column = numberProperty(properties, 'col', 'column');
+  const title = properties.get('title');
+  return {
+    level: level as DiagnosticSeverity,
+    ...(file ? { file } : {}),
+    ...(lineNo !== undefined ? { line: lineNo } : {}),
+    ...(column !== undefined ? { column } : {}),
+    ...(title ? { title } : {}),
+    message: unescape(rawMessage, false).replace(/\r/g, '').trim(),
+  };
+}
+
+/**
+ * Returns true if a (trimmed) line is an `::error` annotation.
+ */
+export function isErrorAnnotation(line: string): boolean {
+  return parseAnnotation(line)?.level === 'error';
+}
+
+/** Diagnostic for an annotation; the first line of the message is the message, the rest are details */
+function annotationDiagnostic(annotation: Annotation): Diagnostic {
+  const [first = '', ...rest] = annotation.message.split('\n');
+  const title = annotation.title && !first.includes(annotation.title) ? `${annotation.title}: ` : '';
+  return {
+    message: `${title}${first}`,
+    severity: annotation.level,
+    ...(annotation.file ? { file: annotation.file } : {}),
+    ...(annotation.file && annotation.line !== undefined ? { line: annotation.line } : {}),
+    ...(annotation.file && annotation.line !== undefined && annotation.column !== undefined
+      ? { column: annotation.column }
+      : {}),
+    tool: ANNOTATION_TOOL,
+    details: rest.map((l) => l.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * Formats an annotation for the error list, e.g.
+ * "##[error]src/a.ts:10:3 - Type error: Cannot find name 'x'".
+ */
+export function formatAnnotation(annotation: Annotation): string {
+  const diag = annotationDiagnostic(annotation);
+  const location = formatLocation(diag);
+  return `##[${annotation.level}]${location ? `${location} - ` : ''}${diag.message}`;
+}
+
+/**
+ * Parses workflow command annotations out of log lines. Every annotation
+ * becomes a diagnostic, with or without a file.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed
+ * @returns Diagnostics in log order
+ */
+export function parseAnnotationDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const annotation = parseAnnotation(lines[i].trim());
+    if (annotation) diagnostics.push({ ...annotationDiagnostic(annotation), logLine: i });
+  }
+  return diagnostics;
+}
@@ -0,0 +1,193 @@
+/**
+ * Rust compiler (cargo build / check / clippy) and `cargo test` parser.
+ *
+ * rustc puts the location on its own line under the message, followed by an
+ * annotated snippet and note/help lines:
+ *   error[E0308]: mismatched types
+ *    --> src/main.rs:4:5
+ *     |
+ *   4 |     "hello"
+ *     |     ^^^^^^^ expected `u32`, found `&str`
+ *     |
+ *     = note: expected type `u32`
+ *   help: try using a conversion method
+ *
+ * Test panics name the test thread and the location:
+ *   thread 'tests::adds' panicked at src/lib.rs:10:5:
+ *   assertion `left == right` failed
+ * or, before Rust 1.73:
+ *   thread 'tests::adds' panicked at 'assertion failed: x', src/lib.rs:10:5
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** Block header: "error[E0308]: msg", "error: msg", "warning: msg" */
+const HEADER = /^(error|warning)(?:\[([\w:]+)\])?: (.+)$/;
+
+/** Span line: "  --> src/main.rs:4:5" (or "::: file" for secondary spans) */
+const SPAN = /^\s*(?:-->|:::) (.+?):(\d+):(\d+)$/;
+
+/** Note/help inside the snippet: "  = note: msg" */
+const INLINE_NOTE = /^\s*= ((?:note|help): .+)$/;
+
+/** Sub-diagnostic: "note: msg", "help: msg" (not indented) */
+const SUB_DIAGNOSTIC = /^((?:note|help): .+)$/;
+
+/** Snippet lines: gutters ("4 |", "  |"), elisions ("...") */
+const SNIPPET = /^\s*(?:\d+\s*)?\||^\.\.\.$/;
+
+/** Panic, Rust >= 1.73: "thread 'x' panicked at src/lib.rs:10:5:" with the message below */
+const PANIC = /^thread '(.+?)' panicked at (.+?):(\d+):(\d+):$/;
+
+/** Panic, older Rust: "thread 'x' panicked at 'msg', src/lib.rs:10:5" */
+const LEGACY_PANIC = /^thread '(.+?)' panicked at '(.*)', (.+?):(\d+):(\d+)$/;
+
+/** Lines that end a panic message */
+const PANIC_END = /^(?:note: |stack backtrace:|---- |failures:|thread '|test result:|error: )/;
+
+interface Span {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** Span from the file, line and column capture groups of a regex match */
+function toSpan(file: string, lineNo: string, column: string): Span {
+  return { file, line: parseInt(lineNo, 10), column: parseInt(column, 10) };
+}
+
+/**
+ * Returns true if a (trimmed) line is a rustc error with a code or a panic
+ * (plain "error: msg" lines are covered by the generic heuristics).
+ */
+export function isCargoError(line: string): boolean {
+  return /^error\[[\w:]+\]: /.test(line) || /^thread '.+' panicked at /.test(line);
+}
+
+/**
+ * Parses one rustc block starting at its header. Returns the diagnostic (or
+ * null for summary lines without a span, like "error: could not compile")
+ * and the index of the block's last line.
+ */
+function parseBlock(lines: string[], start: number): { diag: Diagnostic | null; end: number } {
+  const [, severity = 'error', code, message = ''] = HEADER.exec(lines[start]) ?? [];
+  let span: Span | undefined;
+  const details: string[] = [];
+  let end = start;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (line === '') break;
+
+    const location = SPAN.exec(line);
+    if (location) {
+      const [, file = '', lineNo = '0', column = '0'] = location;
+      if (!span) {
+        span = toSpan(file, lineNo, column);
+      } else if (details.length > 0 && /^\s*-->/.test(line)) {
+        // A sub-diagnostic with its own span: "note: defined here" + "--> src/x.rs:3:4"
+        details[details.length - 1] += ` (${file}:${lineNo}:${column})`;
+      }
+      end = i;
+      continue;
+    }
+
+    const note = INLINE_NOTE.exec(line) ?? SUB_DIAGNOSTIC.exec(line);
+    if (note) {
+      details.push(note[1]);
+      end = i;
+      continue;
+    }
+
+    if (SNIPPET.test(line) || /^\s/.test(line)) {
+      end = i;
+      continue;
+    }
+    break;
+  }
+
+  if (!span) return { diag: null, end };
+  return {
+    diag: {
+      message: message.trim(),
+      severity: severity === 'warning' ? 'warning' : 'error',
+      ...span,
+      tool: 'cargo',
+      ...(code ? { code } : {}),
+      details,
+      logLine: start,
+    },
+    end,
+  };
+}
+
+/** Collects the message lines under a Rust >= 1.73 panic header */
+function panicMessage(lines: string[], start: number): string[] {
+  const message: string[] = [];
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || PANIC_END.test(line)) break;
+    message.push(line);
+  }
+  return message;
+}
+
+/** Builds a panic diagnostic; the first message line is the message, the rest are details */
+function panicDiagnostic(thread: string, span: Span, message: string[], logLine: number): Diagnostic {
+  const [first = 'panicked', ...rest] = message;
+  return {
+    message: first,
+    severity: 'error',
+    ...span,
+    tool: 'cargo',
+    code: 'panic',
+    // The main thread is the binary itself; any other thread is a test
+    ...(thread !== 'main' ? { test: thread } : {}),
+    details: rest,
+    logLine,
+  };
+}
+
+/**
+ * Parses rustc errors and warnings and `cargo test` panics out of log lines.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed but leading
+ *                indentation preserved
+ * @returns Diagnostics in log order
+ */
+export function parseCargoDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+
+  const add = (diag: Diagnostic): void => {
+    const key = `${diag.file ?? ''}:${String(diag.line)}:${String(diag.column)}:${diag.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    diagnostics.push(diag);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+
+    if (HEADER.test(line)) {
+      const { diag, end } = parseBlock(lines, i);
+      if (diag) add(diag);
+      i = end;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    const panic = PANIC.exec(trimmed);
+    if (panic) {
+      const [, thread = '', file = '', lineNo = '0', column = '0'] = panic;
+      add(panicDiagnostic(thread, toSpan(file, lineNo, column), panicMessage(lines, i), i));
+      continue;
+    }
+    const legacy = LEGACY_PANIC.exec(trimmed);
+    if (legacy) {
+      const [, thread = '', message = '', file = '', lineNo = '0', column = '0'] = legacy;
+      add(panicDiagnostic(thread, toSpan(file, lineNo, column), [message], i));
+    }
+  }
+
+  return diagnostics;
+}
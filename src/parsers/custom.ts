@@ -0,0 +1,94 @@
+/**
+ * User-defined line patterns, from the config file or --error-pattern and
+ * --ignore-pattern.
+ *
+ * Error patterns mark lines the built-in heuristics don't know as errors. A
+ * pattern may name what it captures, and then also yields a diagnostic with
+ * that location and message:
+ *   ^DEPLOY FAILED (?<file>\S+):(?<line>\d+) (?<message>.+)$
+ *
+ * Ignore patterns suppress lines before ranking, so known noise ("warning:
+ * deprecated ...", a flaky cleanup step) never becomes the root cause.
+ *
+ * Patterns are matched against the cleaned log line without its leading
+ * ##[error] marker, and against the full line, so both annotated and plain
+ * output match.
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** Tool name of diagnostics from user-defined patterns */
+export const CUSTOM_TOOL = 'custom';
+
+/** Named groups an error pattern may use */
+export const PATTERN_GROUPS = ['file', 'line', 'column', 'message'];
+
+/** A named group in a regex source: "(?<file>" (not the lookbehinds "(?<=" and "(?<!") */
+const NAMED_GROUP = /\(\?<([A-Za-z_$][\w$]*)>/g;
+
+/** Named groups of a pattern that are not file, line, column or message */
+export function unknownPatternGroups(source: string): string[] {
+  return Array.from(source.matchAll(NAMED_GROUP), ([, name = '']) => name).filter(
+    (name) => !PATTERN_GROUPS.includes(name)
+  );
+}
+
+/**
+ * Compiles user-defined error or ignore patterns.
+ *
+ * @throws Error naming the offending pattern if it is not a valid regex, or
+ *         (for error patterns) uses a group name other than file, line, column and message
+ */
+export function compileLinePatterns(sources: string[], kind: 'error' | 'ignore'): RegExp[] {
+  return sources.map((source) => {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Invalid ${kind} pattern "${source}": ${msg}`);
+    }
+    const unknown = unknownPatternGroups(source);
+    if (kind === 'error' && unknown.length > 0) {
+      throw new Error(`Invalid error pattern "${source}": unknown group "${unknown[0]}" (use ${PATTERN_GROUPS.join(', ')})`);
+    }
+    return pattern;
+  });
+}
+
+/** The first pattern match in a log line, tried without its ##[error] marker first */
+export function matchLinePatterns(line: string, patterns: RegExp[]): RegExpExecArray | null {
+  const message = line.replace(/^##\[error\]/i, '');
+  for (const pattern of patterns) {
+    const match = pattern.exec(message) ?? (message !== line ? pattern.exec(line) : null);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Diagnostics for lines matched by an error pattern with named groups.
+ * Lines matched by a pattern without groups are left to the generic error
+ * handling, which finds their file paths the usual way.
+ */
+export function parseCustomDiagnostics(lines: string[], patterns: RegExp[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  if (patterns.length === 0) return diagnostics;
+
+  lines.forEach((text, i) => {
+    const groups = matchLinePatterns(text, patterns)?.groups;
+    if (!groups) return;
+    // Optional groups that did not take part in the match are undefined
+    const { file, line, column, message } = groups as Partial<Record<string, string>>;
+    diagnostics.push({
+      message: message?.trim() || text.replace(/^##\[error\]/i, '').trim(),
+      severity: 'error',
+      ...(file ? { file } : {}),
+      ...(file && line ? { line: parseInt(line, 10) } : {}),
+      ...(file && line && column ? { column: parseInt(column, 10) } : {}),
+      tool: CUSTOM_TOOL,
+      details: [],
+      logLine: i,
+    });
+  });
+  return diagnostics;
+}
@@ -0,0 +1,181 @@
+/**
+ * Docker build failure parser, for BuildKit (`docker build`, buildx) and the
+ * classic builder.
+ *
+ * BuildKit prefixes every output line with its step number, interleaving
+ * steps that run in parallel, and names the stage and instruction once:
+ *   #12 [builder 4/7] RUN npm ci
+ *   #12 0.512 npm ERR! code ERESOLVE
+ *   #12 ERROR: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1
+ *   Dockerfile:12
+ *   ERROR: failed to solve: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1
+ *
+ * The classic builder runs steps one after another:
+ *   Step 4/7 : RUN npm ci
+ *    ---> Running in 1a2b3c4d5e6f
+ *   npm ERR! code ERESOLVE
+ *   The command '/bin/sh -c npm ci' returned a non-zero code: 1
+ *
+ * The final "failed to solve" line only repeats the exit code; the useful
+ * part is the failing step's own output, which becomes the details.
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** Lines of step output kept as details (the end of the output) */
+const MAX_STEP_OUTPUT = 30;
+
+/** BuildKit step header: "#12 [builder 4/7] RUN npm ci" or "#5 [2/4] COPY . ." */
+const BUILDKIT_STEP = /^#(\d+) \[(?:(\S+) )?(\d+\/\d+)\] (.+)$/;
+
+/** BuildKit step output: "#12 0.512 npm ERR! ..." (timestamp optional) */
+const BUILDKIT_OUTPUT = /^#(\d+) (?:\d+\.\d+ )?(.*)$/;
+
+/** BuildKit step status lines that are not output */
+const BUILDKIT_STATUS = /^(?:DONE \d|CACHED$|CANCELED|ERROR: |sha256:|extracting |resolve |transferring |naming to |exporting |writing image )/;
+
+/** BuildKit step failure: "#12 ERROR: process ... exit code: 1" */
+const BUILDKIT_ERROR = /^#(\d+) ERROR: (.+)$/;
+
+/** BuildKit final error: "ERROR: failed to solve: ..." (also after "buildx failed with: ") */
+const FAILED_TO_SOLVE = /(?:^|: )ERROR: failed to solve: (.+)$/;
+
+/** BuildKit Dockerfile location: "Dockerfile:12", "docker/api.Dockerfile:12" */
+const DOCKERFILE_LOCATION = /^(\S*(?:Dockerfile|\.dockerfile)[\w.-]*):(\d+)$/i;
+
+/** Classic builder step: "Step 4/7 : RUN npm ci" */
+const CLASSIC_STEP = /^Step (\d+\/\d+) : (.+)$/;
+
+/** Classic builder bookkeeping lines */
+const CLASSIC_STATUS = /^(?:---> |Removing intermediate container |Successfully )/;
+
+/** Classic builder failure: "The command '/bin/sh -c npm ci' returned a non-zero code: 1" */
+const CLASSIC_ERROR = /^The command '.+' returned a non-zero code: (\d+)$/;
+
+/** Stage name from "FROM node:20 AS builder" */
+const FROM_STAGE = /^FROM\s+\S+\s+AS\s+(\S+)/i;
+
+/**
+ * Returns true if a (trimmed) line is a BuildKit step error or a classic
+ * builder command failure ("ERROR: failed to solve" is covered by the
+ * generic heuristics).
+ */
+export function isDockerError(line: string): boolean {
+  return /^#\d+ ERROR: /.test(line) || CLASSIC_ERROR.test(line);
+}
+
+interface BuildkitStep {
+  stage?: string;
+  position: string;
+  instruction: string;
+  output: string[];
+}
+
+/** Formats the failing instruction: "[builder 4/7] RUN npm ci" */
+function describeStep(stage: string | undefined, position: string, instruction: string): string {
+  return `[${stage ? `${stage} ` : ''}${position}] ${instruction}`;
+}
+
+/** Parses a BuildKit build; returns null unless a step failed */
+function parseBuildkit(lines: string[]): Diagnostic | null {
+  const steps = new Map<string, BuildkitStep>();
+  let failed: { id: string; reason: string; logLine: number } | undefined;
+  let location: { file: string; line: number } | undefined;
+  let solveLine: number | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    const header = BUILDKIT_STEP.exec(line);
+    if (header) {
+      const [, id = '', stage, position = '', instruction = ''] = header;
+      // Internal steps ("[internal] load .dockerignore") have no position and don't match
+      if (!steps.has(id)) steps.set(id, { ...(stage ? { stage } : {}), position, instruction, output: [] });
+      continue;
+    }
+
+    const error = BUILDKIT_ERROR.exec(line);
+    if (error) {
+      const [, id = '', reason = ''] = error;
+      if (steps.has(id)) failed ??= { id, reason, logLine: i };
+      continue;
+    }
+
+    const output = BUILDKIT_OUTPUT.exec(line);
+    if (output) {
+      const [, id = '', text = ''] = output;
+      const step = steps.get(id);
+      if (step && !BUILDKIT_STATUS.test(text)) step.output.push(text);
+      continue;
+    }
+
+    const dockerfile = DOCKERFILE_LOCATION.exec(line);
+    if (dockerfile && failed) {
+      const [, file = '', lineNo = '0'] = dockerfile;
+      location ??= { file, line: parseInt(lineNo, 10) };
+      continue;
+    }
+
+    if (FAILED_TO_SOLVE.test(line)) solveLine ??= i;
+  }
+
+  if (!failed) return null;
+  const step = steps.get(failed.id);
+  if (!step) return null;
+  return {
+    message: `${describeStep(step.stage, step.position, step.instruction)}: ${failed.reason}`,
+    severity: 'error',
+    file: location?.file ?? 'Dockerfile',
+    ...(location ? { line: location.line } : {}),
+    tool: 'docker',
+    code: step.instruction.split(' ')[0].toUpperCase(),
+    details: step.output.slice(-MAX_STEP_OUTPUT),
+    logLine: solveLine ?? failed.logLine,
+  };
+}
+
+/** Parses a classic builder build; returns null unless a step failed */
+function parseClassic(lines: string[]): Diagnostic | null {
+  let stage: string | undefined;
+  let current: { stage?: string; position: string; instruction: string; output: string[] } | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    const step = CLASSIC_STEP.exec(line);
+    if (step) {
+      const [, position = '', instruction = ''] = step;
+      const from = FROM_STAGE.exec(instruction);
+      if (/^FROM\s/i.test(instruction)) stage = from?.[1];
+      current = { ...(stage ? { stage } : {}), position, instruction, output: [] };
+      continue;
+    }
+    if (!current) continue;
+
+    const error = CLASSIC_ERROR.exec(line);
+    if (error) {
+      return {
+        message: `${describeStep(current.stage, current.position, current.instruction)}: exit code: ${error[1]}`,
+        severity: 'error',
+        file: 'Dockerfile',
+        tool: 'docker',
+        code: current.instruction.split(' ')[0].toUpperCase(),
+        details: current.output.slice(-MAX_STEP_OUTPUT),
+        logLine: i,
+      };
+    }
+    if (line !== '' && !CLASSIC_STATUS.test(line)) current.output.push(line);
+  }
+  return null;
+}
+
+/**
+ * Parses a failed Docker build out of log lines: the failing instruction and
+ * stage, the Dockerfile location when BuildKit prints it, and that step's
+ * output (only its own lines, even when BuildKit interleaves steps).
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed
+ * @returns At most one diagnostic per builder style
+ */
+export function parseDockerDiagnostics(lines: string[]): Diagnostic[] {
+  return [parseBuildkit(lines), parseClassic(lines)].filter((d): d is Diagnostic => d !== null);
+}
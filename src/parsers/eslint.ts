@@ -0,0 +1,134 @@
+/**
+ * ESLint and Prettier diagnostic parser.
+ *
+ * ESLint formats:
+ *   - stylish (default): the file path on its own line, findings indented below
+ *       /home/runner/work/app/app/src/a.ts
+ *         42:5  error  'x' is assigned a value but never used  no-unused-vars
+ *   - compact:  src/a.ts: line 42, col 5, Error - 'x' is unused (no-unused-vars)
+ *   - unix:     src/a.ts:42:5: 'x' is unused [Error/no-unused-vars]
+ *
+ * Prettier (`prettier --check`) lists each unformatted file as "[warn] src/a.ts".
+ */
+import type { Diagnostic, DiagnosticSeverity } from '../diagnostic.js';
+
+/** Stylish file header: a bare path on its own, non-indented line */
+const STYLISH_FILE = /^((?:[A-Za-z]:)?[\w./\\@+-]+\.[A-Za-z]\w*)$/;
+
+/** Stylish finding: "  42:5  error  message  rule-id" (rule ID absent for parse errors) */
+const STYLISH_FINDING = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}([@\w/.-]+))?$/;
+
+/** Compact: "file: line 42, col 5, Error - message (rule-id)" */
+const COMPACT_FINDING = /^(\S.*?): line (\d+), col (\d+), (Error|Warning) - (.*?)(?: \(([@\w/.-]+)\))?$/;
+
+/** Unix: "file:42:5: message [Error/rule-id]" */
+const UNIX_FINDING = /^(\S.*?):(\d+):(\d+): (.*) \[(Error|Warning)(?:\/([@\w/.-]+))?\]$/;
+
+/** prettier --check: "[warn] src/a.ts" (the summary line has spaces and is not a file) */
+const PRETTIER_FILE = /^\[warn\] (\S+\.[A-Za-z]\w*)$/;
+
+/** Builds an ESLint diagnostic */
+function eslintDiagnostic(
+  file: string,
+  line: string,
+  column: string,
+  severity: string,
+  message: string,
+  rule: string | undefined
+): Diagnostic {
+  return {
+    message: message.trim(),
+    severity: severity.toLowerCase() as DiagnosticSeverity,
+    file,
+    line: parseInt(line, 10),
+    column: parseInt(column, 10),
+    tool: 'eslint',
+    ...(rule ? { code: rule } : {}),
+    details: [],
+  };
+}
+
+/**
+ * Returns true if a (trimmed) line is an ESLint error finding or a file listed
+ * by `prettier --check`. Warnings are left out: they don't fail the build.
+ */
+export function isLintFinding(line: string): boolean {
+  return (
+    /^\d+:\d+\s+error\s+\S/.test(line) ||
+    (/, Error - /.test(line) && COMPACT_FINDING.test(line)) ||
+    (/\[Error(?:\/[@\w/.-]+)?\]$/.test(line) && UNIX_FINDING.test(line)) ||
+    PRETTIER_FILE.test(line)
+  );
+}
+
+/**
+ * Parses ESLint (stylish, compact, unix) and prettier --check output.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed but leading
+ *                indentation preserved (stylish findings are indented)
+ * @returns One diagnostic per finding, in log order, deduplicated
+ */
+export function parseEslintDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  let stylishFile: string | null = null;
+
+  const add = (diag: Diagnostic, logLine: number): void => {
+    const key = `${diag.tool ?? ''}:${diag.file ?? ''}:${String(diag.line)}:${String(diag.column)}:${diag.code ?? ''}:${diag.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    diag.logLine = logLine;
+    diagnostics.push(diag);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const rawLine = lines[i];
+
+    const stylish = stylishFile !== null ? STYLISH_FINDING.exec(rawLine) : null;
+    if (stylish && stylishFile !== null) {
+      const [, line = '0', column = '0', severity = 'error', message = '', rule] = stylish;
+      add(eslintDiagnostic(stylishFile, line, column, severity, message, rule), i);
+      continue;
+    }
+
+    const trimmed = rawLine.trim();
+
+    // A file header only counts when a finding follows it
+    const header = STYLISH_FILE.exec(rawLine);
+    if (header?.[1] && i + 1 < lines.length && STYLISH_FINDING.test(lines[i + 1])) {
+      stylishFile = header[1];
+      continue;
+    }
+    stylishFile = null;
+
+    const compact = COMPACT_FINDING.exec(trimmed);
+    if (compact) {
+      const [, file = '', line = '0', column = '0', severity = 'Error', message = '', rule] = compact;
+      add(eslintDiagnostic(file, line, column, severity, message, rule), i);
+      continue;
+    }
+
+    const unix = UNIX_FINDING.exec(trimmed);
+    if (unix) {
+      const [, file = '', line = '0', column = '0', message = '', severity = 'Error', rule] = unix;
+      add(eslintDiagnostic(file, line, column, severity, message, rule), i);
+      continue;
+    }
+
+    const prettier = PRETTIER_FILE.exec(trimmed);
+    if (prettier?.[1]) {
+      add(
+        {
+          message: 'File is not formatted with Prettier',
+          severity: 'error',
+          file: prettier[1],
+          tool: 'prettier',
+          details: [],
+        },
+        i
+      );
+    }
+  }
+
+  return diagnostics;
+}
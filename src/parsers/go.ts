@@ -0,0 +1,230 @@
+/**
+ * Go build, vet and `go test` output parser.
+ *
+ * Compile and vet errors:
+ *   ./internal/db/conn.go:31:2: undefined: Foo
+ *
+ * Test failures print the test name and indented log lines with the file
+ * basename (before the header with -v, after it without):
+ *   --- FAIL: TestConnect (0.01s)
+ *       conn_test.go:55: expected nil, got dial tcp: connection refused
+ *   FAIL	example.com/app/internal/db	0.012s
+ *
+ * Panics print a goroutine dump, innermost frame first, with runtime and
+ * testing frames around the code that actually panicked:
+ *   panic: runtime error: invalid memory address or nil pointer dereference
+ *   goroutine 7 [running]:
+ *   example.com/app/internal/db.(*Conn).Query(0x0)
+ *   	/home/runner/work/app/app/internal/db/conn.go:31 +0x1a
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** Compile/vet error: "./internal/db/conn.go:31:2: msg" (not indented) */
+const COMPILE_ERROR = /^((?:\.{1,2}\/)?[\w@./-]+\.go):(\d+)(?::(\d+))?: (.+)$/;
+
+/** Test header: "--- FAIL: TestX (0.01s)", subtests indented: "    --- FAIL: TestX/case (0.00s)" */
+const TEST_FAIL = /^(\s*)--- FAIL: (\S+)(?: \([\d.]+s\))?/;
+
+/** Other test status lines that end a test's block */
+const TEST_STATUS = /^\s*(?:--- (?:PASS|SKIP)|=== (?:RUN|PAUSE|CONT|NAME))\s*:?\s+(\S+)/;
+
+/** "=== RUN   TestX": -v output streams the test's log lines after this */
+const TEST_RUN = /^=== (?:RUN|CONT|NAME)\s+(\S+)/;
+
+/** Indented test log line: "    conn_test.go:55: message" */
+const TEST_LOG = /^\s+([\w.-]+\.go):(\d+): (.*)$/;
+
+/** Package result: "FAIL	example.com/app/internal/db	0.012s" or "ok  	example.com/app/x	0.1s" */
+const PACKAGE_RESULT = /^(?:FAIL|ok)\s+(\S+)\s+(?:[\d.]+s|\[[^\]]+\])/;
+
+/** "panic: message" (optionally "[recovered]") */
+const PANIC = /^panic: (.+?)(?: \[recovered\])?$/;
+
+/** Goroutine dump file line: "	/path/to/file.go:31 +0x1a" */
+const PANIC_FRAME_FILE = /^\s+(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/;
+
+/** True for frames in the Go toolchain or the module cache */
+function isExternalFrame(file: string, func: string): boolean {
+  return (
+    /\/(?:usr\/local\/go|hostedtoolcache\/go|go\/pkg\/mod|libexec)\//.test(file) ||
+    /\/src\/(?:runtime|testing|reflect)\//.test(file) ||
+    /^(?:runtime|testing|reflect)\./.test(func)
+  );
+}
+
+/**
+ * Directory of a Go package inside its module: drops the module path, assumed
+ * to be host/owner/repo for github.com, gitlab.com and bitbucket.org, host/name
+ * for other hosts, and a single name for modules without a host.
+ */
+function packageDir(pkg: string): string {
+  const parts = pkg.split('/');
+  const moduleLength = /^(?:github\.com|gitlab\.com|bitbucket\.org)$/.test(parts[0])
+    ? 3
+    : parts[0].includes('.')
+      ? 2
+      : 1;
+  return parts.slice(moduleLength).join('/');
+}
+
+/**
+ * Returns true if a (trimmed) line is a Go compile error, a failing test
+ * header or a panic.
+ */
+export function isGoError(line: string): boolean {
+  return COMPILE_ERROR.test(line) || /^--- FAIL: \S/.test(line) || PANIC.test(line);
+}
+
+/**
+ * Returns true if a line, with its indentation, is a log line printed by a
+ * test (t.Log, t.Error). go test indents these and never indents compile
+ * errors, but trimmed they look alike: "conn_test.go:55: expected nil".
+ */
+export function isGoTestLog(line: string): boolean {
+  return TEST_LOG.test(line);
+}
+
+/**
+ * Parses the goroutine dump after a panic and returns the first in-repo frame
+ * plus all in-repo frames (innermost first) as details.
+ */
+function parsePanicFrames(lines: string[], start: number): { file?: string; line?: number; details: string[] } {
+  const details: string[] = [];
+  let location: { file: string; line: number } | undefined;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const fileLine = PANIC_FRAME_FILE.exec(lines[i]);
+    if (!fileLine) {
+      // The dump ends at the first line that is neither a function nor a file line
+      if (lines[i].trim() === '' || /^(?:goroutine |\[signal |\s*panic: )/.test(lines[i])) continue;
+      if (/^\S.*\)$/.test(lines[i]) || /^created by /.test(lines[i])) continue;
+      break;
+    }
+    const [, file = '', lineNo = '0'] = fileLine;
+    const func = lines[i - 1].trim().replace(/^created by /, '');
+    if (isExternalFrame(file, func)) continue;
+    location ??= { file, line: parseInt(lineNo, 10) };
+    details.push(`${func} at ${file}:${lineNo}`);
+  }
+  return { ...location, details };
+}
+
+/**
+ * Parses Go compile/vet errors, failing tests and panics out of log lines.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed but leading
+ *                indentation preserved (test log lines are indented)
+ * @returns Diagnostics in log order
+ */
+export function parseGoDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  // Log lines streamed under "=== RUN" (-v), per test
+  const runLogs = new Map<string, string[]>();
+  // Failing tests waiting for their package line to complete the file path
+  let packageTests: Diagnostic[] = [];
+  let running: string | undefined;
+  let failing: { diag: Diagnostic; indent: number } | undefined;
+
+  const addLog = (diag: Diagnostic, file: string, lineNo: string, message: string): void => {
+    diag.details.push(`${file}:${lineNo}: ${message}`);
+    if (diag.line === undefined) {
+      diag.file = file;
+      diag.line = parseInt(lineNo, 10);
+      if (diag.message === 'Test failed') diag.message = message;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const rawLine = lines[i];
+
+    const fail = TEST_FAIL.exec(rawLine);
+    if (fail) {
+      const [, indent = '', test = ''] = fail;
+      const diag: Diagnostic = { message: 'Test failed', severity: 'error', tool: 'go', test, details: [], logLine: i };
+      for (const log of runLogs.get(test) ?? []) {
+        const logMatch = TEST_LOG.exec(log);
+        if (!logMatch) continue;
+        const [, file = '', lineNo = '0', message = ''] = logMatch;
+        addLog(diag, file, lineNo, message);
+      }
+      diagnostics.push(diag);
+      packageTests.push(diag);
+      failing = { diag, indent: indent.length };
+      running = undefined;
+      continue;
+    }
+
+    const status = TEST_STATUS.exec(rawLine);
+    if (status) {
+      failing = undefined;
+      const run = TEST_RUN.exec(rawLine);
+      running = run?.[1];
+      if (running && !runLogs.has(running)) runLogs.set(running, []);
+      continue;
+    }
+
+    const log = TEST_LOG.exec(rawLine);
+    if (log) {
+      const [, file = '', lineNo = '0', message = ''] = log;
+      const indent = rawLine.length - rawLine.trimStart().length;
+      if (failing && indent > failing.indent) {
+        addLog(failing.diag, file, lineNo, message);
+      } else if (running) {
+        runLogs.get(running)?.push(rawLine);
+      }
+      continue;
+    }
+
+    const pkg = PACKAGE_RESULT.exec(rawLine);
+    if (pkg?.[1]) {
+      const dir = packageDir(pkg[1]);
+      for (const diag of packageTests) {
+        if (diag.file && !diag.file.includes('/') && dir) diag.file = `${dir}/${diag.file}`;
+      }
+      packageTests = [];
+      failing = undefined;
+      continue;
+    }
+
+    const panic = PANIC.exec(rawLine);
+    if (panic?.[1]) {
+      const frames = parsePanicFrames(lines, i);
+      const diag: Diagnostic = {
+        message: `panic: ${panic[1]}`,
+        severity: 'error',
+        ...(frames.file ? { file: frames.file, line: frames.line } : {}),
+        tool: 'go',
+        code: 'panic',
+        details: frames.details,
+        logLine: i,
+      };
+      const key = `${diag.message}:${diag.file ?? ''}:${String(diag.line)}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        diagnostics.push(diag);
+      }
+      continue;
+    }
+
+    const compile = COMPILE_ERROR.exec(rawLine);
+    if (compile) {
+      const [, file = '', lineNo = '0', column = '', message = ''] = compile;
+      const key = `${file}:${lineNo}:${column}:${message}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      diagnostics.push({
+        message: message.trim(),
+        severity: 'error',
+        file: file.replace(/^\.\//, ''),
+        line: parseInt(lineNo, 10),
+        ...(column ? { column: parseInt(column, 10) } : {}),
+        tool: 'go',
+        details: [],
+        logLine: i,
+      });
+    }
+  }
+
+  return diagnostics;
+}
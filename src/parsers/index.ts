@@ -0,0 +1,44 @@
+/**
+ * Tool-aware diagnostic parsers.
+ *
+ * Each parser scans the cleaned log lines (ANSI codes and timestamps removed,
+ * indentation preserved) and returns structured Diagnostics with `logLine`
+ * set, so the extractor can attribute them to a job and step.
+ */
+import type { Diagnostic } from '../diagnostic.js';
+import { parseAnnotationDiagnostics } from './annotations.js';
+import { parseCargoDiagnostics } from './cargo.js';
+import { parseDockerDiagnostics } from './docker.js';
+import { parseEslintDiagnostics } from './eslint.js';
+import { parseGoDiagnostics } from './go.js';
+import { parseJestDiagnostics } from './jest.js';
+import { parseJvmDiagnostics } from './jvm.js';
+import { parsePythonDiagnostics } from './python.js';
+import { parseTscDiagnostics } from './tsc.js';
+
+/** A parser turns cleaned log lines into diagnostics */
+export type DiagnosticParser = (lines: string[]) => Diagnostic[];
+
+/** Registered parsers */
+const PARSERS: DiagnosticParser[] = [
+  parseAnnotationDiagnostics,
+  parseTscDiagnostics,
+  parseEslintDiagnostics,
+  parseJestDiagnostics,
+  parsePythonDiagnostics,
+  parseGoDiagnostics,
+  parseCargoDiagnostics,
+  parseJvmDiagnostics,
+  parseDockerDiagnostics,
+];
+
+/**
+ * Runs every registered parser over the log.
+ *
+ * @returns Diagnostics in log order
+ */
+export function parseDiagnostics(lines: string[]): Diagnostic[] {
+  return PARSERS.flatMap((parse) => parse(lines)).sort(
+    (a, b) => (a.logLine ?? 0) - (b.logLine ?? 0)
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * Jest and Vitest test failure parser.
+ *
+ * Jest prints each failure under a "●" header, grouped by a "FAIL <file>" line:
+ *   FAIL src/math.test.ts
+ *     ● math › adds numbers
+ *       expect(received).toBe(expected) // Object.is equality
+ *       Expected: 3
+ *       Received: 4
+ *       > 11 |     expect(add(1, 2)).toBe(3);
+ *         at Object.<anonymous> (src/math.test.ts:11:23)
+ *
+ * Vitest names file and test in one header and marks frames with "❯":
+ *    FAIL  src/math.test.ts > math > adds numbers
+ *   AssertionError: expected 4 to be 3 // Object.is equality
+ *   - Expected
+ *   + Received
+ *    ❯ src/math.test.ts:11:23
+ *
+ * Each failure becomes one diagnostic: the assertion message, the
+ * expected/received diff as details, and the location of the first stack
+ * frame inside the repo (falling back to the test file).
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** Jest file line: "FAIL src/math.test.ts" (optionally followed by a duration) */
+const JEST_FILE = /^\s*FAIL\s+(\S+)(?:\s+\([\d.]+\s*m?s\))?\s*$/;
+
+/** Jest failure header: "● suite › test" */
+const JEST_TEST = /^\s*● (.+)$/;
+
+/** Vitest failure header: "FAIL  src/math.test.ts > suite > test" */
+const VITEST_TEST = /^\s*FAIL\s+(\S+) > (.+)$/;
+
+/** Lines that end a failure block: run summaries and Vitest separators */
+const BLOCK_END = /^\s*(?:Test Suites:|Tests:|Test Files\s|Snapshots:|Time:|PASS\s|FAIL\s|⎯{3,}|Ran all test suites)/;
+
+/** Code frame lines: "> 11 |     expect(...)", "   |   ^", "  9|   test(" */
+const CODE_FRAME = /^\s*>?\s*\d*\s*\|/;
+
+/** Stack frame: "at fn (file:1:2)", "at file:1:2", "❯ file:1:2" or "❯ fn file:1:2" */
+const STACK_FRAME = /^\s*(?:at\s+(?:.*?\()?|❯\s+(?:\S+\s+)?)((?:[A-Za-z]:)?[^\s():]+):(\d+):(\d+)\)?\s*$/;
+
+/** Maximum number of detail (diff) lines kept per failure */
+const MAX_DETAIL_LINES = 30;
+
+/** True for frames outside the repo: dependencies and Node internals */
+function isExternalFrame(file: string): boolean {
+  return /(?:^|[/\\])node_modules[/\\]/.test(file) || /^node:/.test(file) || /^internal\//.test(file);
+}
+
+/**
+ * Returns true if a (trimmed) line is a Jest or Vitest failure header.
+ */
+export function isTestFailureHeader(line: string): boolean {
+  return (JEST_TEST.test(line) && line.trim() !== '● Console') || VITEST_TEST.test(line);
+}
+
+/** Fills message, details and location of a failure from its block lines */
+function fillFromBlock(diag: Diagnostic, block: string[]): void {
+  for (const rawLine of block) {
+    const line = rawLine.trim();
+    if (line === '' || CODE_FRAME.test(rawLine)) continue;
+
+    const frame = STACK_FRAME.exec(rawLine);
+    if (frame) {
+      const [, file = '', lineNo = '0', column = '0'] = frame;
+      if (diag.line === undefined && !isExternalFrame(file)) {
+        diag.file = file;
+        diag.line = parseInt(lineNo, 10);
+        diag.column = parseInt(column, 10);
+      }
+      continue;
+    }
+
+    if (diag.message === '') {
+      diag.message = line;
+    } else if (diag.details.length < MAX_DETAIL_LINES) {
+      diag.details.push(line);
+    }
+  }
+  if (diag.message === '') diag.message = 'Test failed';
+}
+
+/**
+ * Parses Jest and Vitest failures out of log lines.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed but leading
+ *                indentation preserved
+ * @returns One diagnostic per failing test, in log order, deduplicated on file/test
+ */
+export function parseJestDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  let jestFile: string | undefined;
+  let current: { diag: Diagnostic; block: string[] } | null = null;
+
+  const flush = (): void => {
+    if (!current) return;
+    fillFromBlock(current.diag, current.block);
+    const key = `${current.diag.file ?? ''}:${current.diag.test ?? ''}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      diagnostics.push(current.diag);
+    }
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const rawLine = lines[i];
+
+    const vitest = VITEST_TEST.exec(rawLine);
+    if (vitest) {
+      flush();
+      const [, file = '', test = ''] = vitest;
+      current = {
+        diag: { message: '', severity: 'error', file, tool: 'vitest', test: test.trim(), details: [], logLine: i },
+        block: [],
+      };
+      continue;
+    }
+
+    const fileLine = JEST_FILE.exec(rawLine);
+    if (fileLine) {
+      flush();
+      jestFile = fileLine[1];
+      continue;
+    }
+
+    const jest = JEST_TEST.exec(rawLine);
+    if (jest) {
+      flush();
+      // "● Console" introduces captured console output, not a failure
+      if (jest[1].trim() === 'Console') continue;
+      current = {
+        diag: {
+          message: '',
+          severity: 'error',
+          ...(jestFile ? { file: jestFile } : {}),
+          tool: 'jest',
+          test: jest[1].trim(),
+          details: [],
+          logLine: i,
+        },
+        block: [],
+      };
+      continue;
+    }
+
+    if (BLOCK_END.test(rawLine)) {
+      flush();
+      if (/^\s*PASS\s/.test(rawLine)) jestFile = undefined;
+      continue;
+    }
+
+    current?.block.push(rawLine);
+  }
+  flush();
+
+  return diagnostics;
+}
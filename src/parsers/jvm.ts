@@ -0,0 +1,352 @@
+/**
+ * Maven, Gradle and JVM (Java/Kotlin) stack trace parser.
+ *
+ * Compile errors:
+ *   [ERROR] /home/runner/work/app/app/src/main/java/com/x/Foo.java:[12,5] cannot find symbol
+ *   e: file:///home/runner/work/app/app/src/main/kotlin/com/x/Foo.kt: (12, 5): Unresolved reference: bar
+ *   /home/runner/work/app/app/src/main/java/com/x/Foo.java:12: error: cannot find symbol
+ *
+ * Test failures (Surefire and Gradle) are followed by the exception:
+ *   [ERROR] com.x.FooTest.adds -- Time elapsed: 0.01 s <<< FAILURE!
+ *   com.x.FooTest > adds() FAILED
+ *
+ * Stack frames only name the class and the file, so the path is rebuilt from
+ * the package: com.x.Foo.bar(Foo.java:42) → src/main/java/com/x/Foo.java:42.
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** Maven compiler: "[ERROR] /path/Foo.java:[12,5] msg" or, for Kotlin, "[ERROR] file:///path/Foo.kt: (12, 5) msg" */
+const MAVEN_COMPILE =
+  /^\[ERROR\] (?:file:\/\/)?(\S.*?\.(?:java|kts?|scala|groovy)):(?:\[(\d+)(?:,(\d+))?\]|\s?\((\d+), ?(\d+)\):?) (.+)$/;
+
+/** Kotlin compiler under Gradle: "e: file:///path/Foo.kt: (12, 5): msg" or "e: file:///path/Foo.kt:12:5 msg" */
+const KOTLIN_COMPILE = /^e: (?:file:\/\/)?(\S.*?\.kts?):(?:(\d+):(\d+)|\s?\((\d+), ?(\d+)\):) (.+)$/;
+
+/** javac under Gradle: "/path/Foo.java:12: error: msg" */
+const JAVAC_COMPILE = /^(\S.*?\.java):(\d+): error: (.+)$/;
+
+/** javac continuation lines: "  symbol:   variable bar", "  location: class com.x.Foo" */
+const COMPILER_DETAIL = /^\s+((?:symbol|location|required|found|reason)\s*:.*)$/;
+
+/** Surefire: "[ERROR] com.x.FooTest.adds -- Time elapsed: 0.01 s <<< FAILURE!" or "adds(com.x.FooTest)  Time elapsed: ..." */
+const SUREFIRE_TEST = /^(?:\[ERROR\] )?([\w.$]+?)(?:\(([\w.$]+)\))?\s+(?:--\s+)?Time elapsed:.*<<< (?:FAILURE|ERROR)!$/;
+
+/** Surefire summary section: "[ERROR] Failures:" / "[ERROR] Errors:" */
+const SUREFIRE_SUMMARY_START = /^\[ERROR\] (?:Failures|Errors):\s*$/;
+
+/** Surefire summary entry: "[ERROR]   FooTest.adds:20 expected: <1> but was: <2>" */
+const SUREFIRE_SUMMARY_ENTRY = /^\[ERROR\]\s{2,}([\w$]+)\.([\w$]+)(?::\d+)?(?:->\S+)?\s*»?\s*(.*)$/;
+
+/** Gradle test header: "com.x.FooTest > adds() FAILED" */
+const GRADLE_TEST = /^([\w.$]+) > (.+?) FAILED$/;
+
+/** Gradle short exception format: "org.opentest4j.AssertionFailedError at FooTest.java:20" */
+const GRADLE_SHORT_EXCEPTION = /^([\w.$]+) at ([\w$.-]+\.(?:java|kt|scala|groovy)):(\d+)$/;
+
+/** Exception line: "java.lang.IllegalStateException: msg", optionally after "Exception in thread ..." or "Caused by:" */
+const EXCEPTION_LINE = /^(?:Exception in thread "[^"]*" |Caused by: )?((?:[a-z_$][\w$]*\.)+[A-Z][\w$]*)(?::\s?(.*))?$/;
+
+/** Stack frame with a location: "at com.x.Foo.bar(Foo.java:42)", "at app//com.x.Foo.bar(Foo.kt:3)" */
+const FRAME = /^at (?:\S*\/)?([\w.$<>-]+)\.([\w$<>-]+)\(([\w$.-]+\.(?:java|kt|scala|groovy)):(\d+)\)$/;
+
+/** Any stack frame line, including "(Native Method)" frames and "... 12 more" */
+const ANY_FRAME = /^(?:at \S|\.\.\. \d+ (?:more|common frames omitted))/;
+
+/** Packages of the JDK, build tools and test frameworks; their frames are never the culprit */
+const LIBRARY_PACKAGE =
+  /^(?:java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|groovy|org\.codehaus\.groovy|org\.junit|junit|org\.opentest4j|org\.apache\.maven|org\.gradle|worker\.org\.gradle|org\.springframework|org\.mockito|org\.assertj|org\.hamcrest|net\.bytebuddy)\./;
+
+/** Test source files by naming convention */
+const TEST_FILE = /(?:Test|Tests|IT|Spec)\.\w+$/;
+
+/** Source directories under src/main and src/test, by file extension */
+const LANGUAGE_DIRS = new Map([
+  ['java', 'java'],
+  ['kt', 'kotlin'],
+  ['scala', 'scala'],
+  ['groovy', 'groovy'],
+]);
+
+/**
+ * Returns true if a (trimmed) line is a Maven/Kotlin/javac compile error, a
+ * Surefire test failure or a JVM exception header.
+ */
+export function isJvmError(line: string): boolean {
+  return (
+    MAVEN_COMPILE.test(line) ||
+    KOTLIN_COMPILE.test(line) ||
+    JAVAC_COMPILE.test(line) ||
+    /<<< (?:FAILURE|ERROR)!$/.test(line) ||
+    /^(?:Exception in thread "[^"]*"|Caused by:) \S/.test(line)
+  );
+}
+
+/** Package of a fully qualified class: the leading lowercase segments */
+function packageOf(className: string): string {
+  const segments = className.split('.');
+  const classIndex = segments.findIndex((s) => /^[A-Z]/.test(s));
+  return segments.slice(0, classIndex === -1 ? segments.length - 1 : classIndex).join('.');
+}
+
+/**
+ * Rebuilds the repo path of a source file from its package, assuming the
+ * Maven/Gradle layout: tests under src/test, everything else under src/main.
+ */
+function sourcePath(pkg: string, file: string): string {
+  const extension = file.slice(file.lastIndexOf('.') + 1);
+  const language = LANGUAGE_DIRS.get(extension) ?? 'java';
+  const sourceSet = TEST_FILE.test(file) ? 'test' : 'main';
+  const dir = pkg ? `${pkg.replace(/\./g, '/')}/` : '';
+  return `src/${sourceSet}/${language}/${dir}${file}`;
+}
+
+/**
+ * Other places a file guessed by sourcePath() may live: the same package path
+ * under src/main and src/test of every JVM language.
+ *
+ * @returns Alternative paths, or [] for paths outside a JVM source root
+ */
+export function jvmSourceCandidates(path: string): string[] {
+  const match = /^(.*?)src\/(?:main|test)\/(?:java|kotlin|scala|groovy)\/(.+)$/.exec(path);
+  if (!match) return [];
+  const [, module = '', packagePath = ''] = match;
+  const candidates: string[] = [];
+  for (const sourceSet of ['main', 'test']) {
+    for (const language of LANGUAGE_DIRS.values()) {
+      const candidate = `${module}src/${sourceSet}/${language}/${packagePath}`;
+      if (candidate !== path) candidates.push(candidate);
+    }
+  }
+  return candidates;
+}
+
+interface Frame {
+  method: string;
+  file: string;
+  line: number;
+}
+
+interface ParsedException {
+  type: string;
+  message: string;
+  /** Frames outside the JDK and libraries, innermost first */
+  frames: Frame[];
+  end: number;
+}
+
+/**
+ * Parses an exception block: the exception line, any further message lines,
+ * and the "at ..." frames. Returns null unless frames follow the exception.
+ */
+function parseException(lines: string[], start: number): ParsedException | null {
+  const header = EXCEPTION_LINE.exec(lines[start].trim());
+  if (!header) return null;
+  const [, type = '', firstMessage = ''] = header;
+  const message = [firstMessage];
+  const frames: Frame[] = [];
+  let sawFrame = false;
+  let end = start;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!ANY_FRAME.test(line)) {
+      // Multi-line messages come before the first frame
+      if (sawFrame || line === '' || i - start > 20) break;
+      message.push(line);
+      continue;
+    }
+    sawFrame = true;
+    end = i;
+    const frame = FRAME.exec(line);
+    if (!frame) continue;
+    const [, className = '', method = '', file = '', lineNo = '0'] = frame;
+    if (LIBRARY_PACKAGE.test(`${className}.`)) continue;
+    frames.push({
+      method: `${className}.${method}`,
+      file: sourcePath(packageOf(className), file),
+      line: parseInt(lineNo, 10),
+    });
+  }
+
+  if (!sawFrame) return null;
+  return { type, message: message.filter(Boolean).join('\n'), frames, end };
+}
+
+/** Exception line as shown in the log: "Type: message" */
+function exceptionText(exception: ParsedException): string {
+  const [first = ''] = exception.message.split('\n');
+  return first ? `${exception.type}: ${first}` : exception.type;
+}
+
+/** Diagnostic for a test or uncaught exception, located at its innermost in-repo frame */
+function exceptionDiagnostic(
+  exception: ParsedException,
+  tool: string,
+  logLine: number,
+  test?: string
+): Diagnostic {
+  const location = exception.frames.length > 0 ? exception.frames[0] : undefined;
+  const extraMessage = exception.message.split('\n').slice(1);
+  return {
+    message: exceptionText(exception),
+    severity: 'error',
+    ...(location ? { file: location.file, line: location.line } : {}),
+    tool,
+    code: exception.type,
+    ...(test ? { test } : {}),
+    details: [...extraMessage, ...exception.frames.map((f) => `${f.method} at ${f.file}:${String(f.line)}`)],
+    logLine,
+  };
+}
+
+/** Collects javac continuation lines ("symbol: ...", "location: ...") after a compile error */
+function compilerDetails(lines: string[], start: number): string[] {
+  const details: string[] = [];
+  for (let i = start + 1; i < lines.length && i <= start + 6; i++) {
+    const detail = COMPILER_DETAIL.exec(lines[i].replace(/^\[ERROR\]/, ''));
+    if (detail) details.push(detail[1].replace(/\s+/g, ' ').trim());
+  }
+  return details;
+}
+
+/**
+ * Parses Maven/Gradle compile errors, Surefire and Gradle test failures and
+ * uncaught JVM exceptions out of log lines.
+ *
+ * Compile errors and exceptions are located at their source file; test
+ * failures additionally carry the test name, which keeps them apart from
+ * compile errors in the prompt.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed but leading
+ *                indentation preserved
+ * @returns Diagnostics in log order
+ */
+export function parseJvmDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  const failedTests = new Set<string>();
+  let inSummary = false;
+
+  const add = (diag: Diagnostic): void => {
+    const key = `${diag.test ?? ''}:${diag.file ?? ''}:${String(diag.line)}:${diag.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    diagnostics.push(diag);
+  };
+
+  const addCompileError = (tool: string, file: string, lineNo: string, column: string, message: string, i: number): void => {
+    add({
+      message: message.trim(),
+      severity: 'error',
+      file,
+      line: parseInt(lineNo, 10),
+      ...(column ? { column: parseInt(column, 10) } : {}),
+      tool,
+      details: compilerDetails(lines, i),
+      logLine: i,
+    });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    const maven = MAVEN_COMPILE.exec(line);
+    if (maven) {
+      const [, file = '', bracketLine = '', bracketColumn = '', parenLine = '0', parenColumn = '', message = ''] = maven;
+      addCompileError('maven', file, bracketLine || parenLine, bracketLine ? bracketColumn : parenColumn, message, i);
+      continue;
+    }
+
+    const kotlin = KOTLIN_COMPILE.exec(line);
+    if (kotlin) {
+      const [, file = '', colonLine = '', colonColumn = '', parenLine = '0', parenColumn = '', message = ''] = kotlin;
+      addCompileError('kotlin', file, colonLine || parenLine, colonLine ? colonColumn : parenColumn, message, i);
+      continue;
+    }
+
+    const javac = JAVAC_COMPILE.exec(line);
+    if (javac) {
+      const [, file = '', lineNo = '0', message = ''] = javac;
+      addCompileError('javac', file, lineNo, '', message, i);
+      continue;
+    }
+
+    const surefire = SUREFIRE_TEST.exec(line);
+    if (surefire) {
+      // "com.x.FooTest.adds" (JUnit 5) or "adds(com.x.FooTest)" (JUnit 4)
+      const [, name = '', className] = surefire;
+      const qualified = className ? `${className}.${name}` : name;
+      const test = qualified.split('.').slice(-2).join('.');
+      failedTests.add(test);
+      const exception = parseException(lines, i + 1);
+      if (exception) {
+        add(exceptionDiagnostic(exception, 'surefire', i, test));
+        i = exception.end;
+      } else {
+        add({ message: 'Test failed', severity: 'error', tool: 'surefire', test, details: [], logLine: i });
+      }
+      continue;
+    }
+
+    if (SUREFIRE_SUMMARY_START.test(line)) {
+      inSummary = true;
+      continue;
+    }
+    if (inSummary) {
+      const entry = SUREFIRE_SUMMARY_ENTRY.exec(line);
+      if (!entry) {
+        inSummary = false;
+      } else {
+        // Only for tests whose failure block was not printed
+        const [, className = '', method = '', message = ''] = entry;
+        const test = `${className}.${method}`;
+        if (!failedTests.has(test)) {
+          failedTests.add(test);
+          add({ message: message || 'Test failed', severity: 'error', tool: 'surefire', test, details: [], logLine: i });
+        }
+        continue;
+      }
+    }
+
+    const gradle = GRADLE_TEST.exec(line);
+    if (gradle) {
+      const [, className = '', method = ''] = gradle;
+      const test = `${className} > ${method}`;
+      const next = i + 1 < lines.length ? lines[i + 1].trim() : '';
+      const short = GRADLE_SHORT_EXCEPTION.exec(next);
+      const exception = short ? null : parseException(lines, i + 1);
+      if (short) {
+        const [, type = '', file = '', lineNo = '0'] = short;
+        add({
+          message: type,
+          severity: 'error',
+          file: sourcePath(packageOf(className), file),
+          line: parseInt(lineNo, 10),
+          tool: 'gradle',
+          code: type,
+          test,
+          details: [],
+          logLine: i,
+        });
+        i++;
+      } else if (exception) {
+        add(exceptionDiagnostic(exception, 'gradle', i, test));
+        i = exception.end;
+      } else {
+        add({ message: 'Test failed', severity: 'error', tool: 'gradle', test, details: [], logLine: i });
+      }
+      continue;
+    }
+
+    // Uncaught exceptions: an exception line directly followed by frames
+    if (EXCEPTION_LINE.test(line)) {
+      const exception = parseException(lines, i);
+      if (exception && exception.frames.length > 0) {
+        add(exceptionDiagnostic(exception, 'java', i));
+        i = exception.end;
+      }
+    }
+  }
+
+  return diagnostics;
+}
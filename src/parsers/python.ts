@@ -0,0 +1,240 @@
+/**
+ * Python traceback and pytest failure parser.
+ *
+ * Tracebacks list frames outermost first and end with the exception:
+ *   Traceback (most recent call last):
+ *     File "/home/runner/work/app/app/app/views.py", line 10, in handler
+ *       result = save(x)
+ *     File "/home/runner/work/app/app/app/models.py", line 42, in save
+ *       raise ValueError("bad")
+ *   ValueError: bad
+ *
+ * pytest prints one block per failure under "FAILURES" and a short summary:
+ *   ____________________ test_save ____________________
+ *   >       assert save(1) == 2
+ *   E       assert 1 == 2
+ *   tests/test_models.py:12: AssertionError
+ *   ============== short test summary info ==============
+ *   FAILED tests/test_models.py::test_save - assert 1 == 2
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** "Traceback (most recent call last):" */
+const TRACEBACK_START = /^(\s*)Traceback \(most recent call last\):\s*$/;
+
+/** Traceback frame: File "app/models.py", line 42, in save */
+const TRACEBACK_FRAME = /^\s*File "(.+?)", line (\d+)(?:, in (.+))?$/;
+
+/** Exception line: "ValueError: bad", "app.errors.NotFound: x", "KeyboardInterrupt" */
+const EXCEPTION_LINE = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+
+/** Exception-looking line used by the extended error heuristics */
+const EXCEPTION_HEURISTIC = /^(?:[a-z_]\w*\.)*[A-Z]\w*(?:Error|Exception)(?::\s|$)/;
+
+/** pytest failure block header: "_____ test_save _____" or "_____ TestApi.test_get[1] _____" */
+const PYTEST_BLOCK = /^_{3,} (.+?) _{3,}$/;
+
+/** pytest section rule: "===== short test summary info =====", "===== 2 failed in 0.1s =====" */
+const PYTEST_RULE = /^={3,}/;
+
+/** pytest error detail line: "E       assert 1 == 2" */
+const PYTEST_E_LINE = /^E\s+(.*)$/;
+
+/** pytest location line: "tests/test_models.py:12: AssertionError" or "app/x.py:5: in helper" */
+const PYTEST_LOCATION = /^(\S+\.py):(\d+): (.+)$/;
+
+/** pytest short summary: "FAILED tests/x.py::test_y - AssertionError: msg" or "ERROR tests/x.py" */
+const PYTEST_SUMMARY = /^(FAILED|ERROR) (\S+?\.py)(?:::(\S+))?(?: - (.*))?$/;
+
+/** True for frames outside the repo: the standard library, installed packages, generated code */
+function isExternalFrame(file: string): boolean {
+  return (
+    /[/\\](?:site|dist)-packages[/\\]/.test(file) ||
+    /[/\\]lib[/\\]python\d/.test(file) ||
+    /hostedtoolcache/.test(file) ||
+    /^</.test(file)
+  );
+}
+
+/**
+ * Returns true if a (trimmed) line is a Python exception, a pytest
+ * FAILED/ERROR summary line or a pytest "E   " detail line.
+ */
+export function isPythonError(line: string): boolean {
+  return (
+    EXCEPTION_HEURISTIC.test(line) ||
+    /^(?:FAILED|ERROR) \S+\.py\b/.test(line) ||
+    /^E\s{2,}\S/.test(line)
+  );
+}
+
+interface Frame {
+  file: string;
+  line: number;
+  func?: string;
+}
+
+/**
+ * Parses one traceback starting at `start`. Returns the diagnostic and the
+ * index of the exception line, or null if the traceback is cut off.
+ */
+function parseTraceback(lines: string[], start: number, indent: number): { diag: Diagnostic; end: number } | null {
+  const frames: Frame[] = [];
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const rawLine = lines[i];
+    if (rawLine.trim() === '') continue;
+
+    const frame = TRACEBACK_FRAME.exec(rawLine);
+    if (frame) {
+      const [, file = '', lineNo = '0', func] = frame;
+      frames.push({ file, line: parseInt(lineNo, 10), ...(func ? { func } : {}) });
+      continue;
+    }
+
+    // Deeper-indented lines are source lines, carets and "..." under a frame
+    const lineIndent = rawLine.length - rawLine.trimStart().length;
+    if (lineIndent > indent) continue;
+
+    const exception = rawLine.trim();
+    if (frames.length === 0) return null;
+
+    const inRepo = frames.filter((f) => !isExternalFrame(f.file));
+    const innermost = inRepo.length > 0 ? inRepo[inRepo.length - 1] : frames[frames.length - 1];
+    const match = EXCEPTION_LINE.exec(exception);
+    const diag: Diagnostic = {
+      message: exception,
+      severity: 'error',
+      file: innermost.file,
+      line: innermost.line,
+      tool: 'python',
+      ...(match?.[1] ? { code: match[1] } : {}),
+      // In-repo frames, innermost first
+      details: [...inRepo]
+        .reverse()
+        .map((f) => `${f.file}:${String(f.line)}${f.func ? ` in ${f.func}` : ''}`),
+      logLine: i,
+    };
+    return { diag, end: i };
+  }
+  return null;
+}
+
+interface PytestBlock {
+  errors: string[];
+  locations: Array<{ file: string; line: number; what: string }>;
+  logLine: number;
+}
+
+/** Collects pytest failure blocks, keyed by the header name */
+function parsePytestBlocks(lines: string[]): Map<string, PytestBlock> {
+  const blocks = new Map<string, PytestBlock>();
+  let current: PytestBlock | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+
+    const header = PYTEST_BLOCK.exec(line);
+    if (header?.[1]) {
+      current = { errors: [], locations: [], logLine: i };
+      blocks.set(header[1], current);
+      continue;
+    }
+    if (PYTEST_RULE.test(line)) {
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const eLine = PYTEST_E_LINE.exec(line);
+    if (eLine) {
+      current.errors.push(eLine[1].trim());
+      continue;
+    }
+    const location = PYTEST_LOCATION.exec(line);
+    if (location) {
+      const [, file = '', lineNo = '0', what = ''] = location;
+      current.locations.push({ file, line: parseInt(lineNo, 10), what });
+    }
+  }
+  return blocks;
+}
+
+/** Builds a pytest diagnostic from a summary entry and/or its failure block */
+function pytestDiagnostic(
+  test: string,
+  file: string | undefined,
+  message: string | undefined,
+  block: PytestBlock | undefined,
+  logLine: number
+): Diagnostic {
+  const locations = block?.locations ?? [];
+  const inRepo = locations.filter((l) => !isExternalFrame(l.file));
+  const location = inRepo.length > 0 ? inRepo[inRepo.length - 1] : undefined;
+  const finalWhat = locations.length > 0 ? locations[locations.length - 1].what : '';
+  const code = /^[A-Za-z_][\w.]*$/.test(finalWhat) ? finalWhat : undefined;
+  const errors = block?.errors ?? [];
+
+  return {
+    message: message ?? (errors.length > 0 ? errors[errors.length - 1] : 'Test failed'),
+    severity: 'error',
+    ...(location ? { file: location.file, line: location.line } : file ? { file } : {}),
+    tool: 'pytest',
+    ...(code ? { code } : {}),
+    test,
+    details: errors,
+    logLine,
+  };
+}
+
+/**
+ * Parses Python tracebacks and pytest failures out of log lines.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed but leading
+ *                indentation preserved
+ * @returns Diagnostics in log order: one per traceback and one per failing test
+ */
+export function parsePythonDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+
+  const add = (diag: Diagnostic): void => {
+    const key = `${diag.tool ?? ''}:${diag.test ?? ''}:${diag.file ?? ''}:${String(diag.line)}:${diag.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    diagnostics.push(diag);
+  };
+
+  // Tracebacks
+  for (let i = 0; i < lines.length; i++) {
+    const start = TRACEBACK_START.exec(lines[i]);
+    if (!start) continue;
+    const parsed = parseTraceback(lines, i, start[1].length);
+    if (parsed) {
+      add(parsed.diag);
+      i = parsed.end;
+    }
+  }
+
+  // pytest: short summary entries, enriched with their failure block
+  const blocks = parsePytestBlocks(lines);
+  const summarized = new Set<string>();
+  for (let i = 0; i < lines.length; i++) {
+    const summary = PYTEST_SUMMARY.exec(lines[i].trim());
+    if (!summary) continue;
+    const [, , file = '', nodeId, message] = summary;
+    // Block headers use "Class.test" for "Class::test", "ERROR collecting <file>" for collection errors
+    const blockName = nodeId ? nodeId.replace(/::/g, '.') : `ERROR collecting ${file}`;
+    const block = blocks.get(blockName);
+    summarized.add(blockName);
+    add(pytestDiagnostic(nodeId ? `${file}::${nodeId}` : file, file, message, block, i));
+  }
+
+  // Failure blocks without a summary line (e.g. -r flags turned off)
+  for (const [name, block] of blocks) {
+    if (summarized.has(name)) continue;
+    add(pytestDiagnostic(name, undefined, undefined, block, block.logLine));
+  }
+
+  return diagnostics.sort((a, b) => (a.logLine ?? 0) - (b.logLine ?? 0));
+}
@@ -0,0 +1,96 @@
+/**
+ * TypeScript compiler (tsc) diagnostic parser.
+ *
+ * Understands both output styles:
+ *   - plain (CI default):  src/foo.ts(42,5): error TS2322: Type 'x' is not assignable...
+ *   - pretty (--pretty):   src/foo.ts:42:5 - error TS2322: Type 'x' is not assignable...
+ *
+ * Indented lines following a diagnostic are its continuation: message chain
+ * lines ("Type 'undefined' is not assignable to type 'string'.") and related
+ * information ("'foo' is declared here."). Code frames printed by --pretty
+ * ("42 const x = 1" and "~~~" underlines) are skipped.
+ */
+import type { Diagnostic } from '../diagnostic.js';
+
+/** src/foo.ts(42,5): error TS2322: message */
+const PLAIN_HEADER = /^(\S[^()]*?\.[cm]?[jt]sx?)\((\d+),(\d+)\): error (TS\d+): (.*)$/i;
+
+/** src/foo.ts:42:5 - error TS2322: message */
+const PRETTY_HEADER = /^(\S.*?\.[cm]?[jt]sx?):(\d+):(\d+) - error (TS\d+): (.*)$/i;
+
+/** Code frame line from --pretty output: "42 const x = 1;" (may be indented in related info) */
+const CODE_FRAME = /^\s*\d+ /;
+
+/** Underline line from --pretty output: "      ~~~~~" */
+const UNDERLINE = /^\s*~+\s*$/;
+
+/** Parses a diagnostic header line, or returns null */
+function parseHeader(line: string): Diagnostic | null {
+  const match = PLAIN_HEADER.exec(line) ?? PRETTY_HEADER.exec(line);
+  if (!match) return null;
+  const [, file = '', lineNo = '0', column = '0', code = '', message = ''] = match;
+  return {
+    message: message.trim(),
+    severity: 'error',
+    file,
+    line: parseInt(lineNo, 10),
+    column: parseInt(column, 10),
+    tool: 'tsc',
+    code: code.toUpperCase(),
+    details: [],
+  };
+}
+
+/**
+ * Returns true if a line looks like a tsc diagnostic header.
+ */
+export function isTscDiagnostic(line: string): boolean {
+  return parseHeader(line.trim()) !== null;
+}
+
+/**
+ * Parses tsc diagnostics out of log lines.
+ *
+ * @param lines - Log lines with ANSI codes and timestamps removed but leading
+ *                indentation preserved (needed to recognize continuation lines)
+ * @returns Diagnostics in log order, deduplicated on file/line/column/code/message
+ */
+export function parseTscDiagnostics(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  let current: Diagnostic | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const rawLine = lines[i];
+    const header = parseHeader(rawLine.trim());
+    if (header) {
+      const key = `${header.file ?? ''}:${String(header.line)}:${String(header.column)}:${header.code ?? ''}:${header.message}`;
+      if (seen.has(key)) {
+        current = null;
+        continue;
+      }
+      seen.add(key);
+      header.logLine = i;
+      diagnostics.push(header);
+      current = header;
+      continue;
+    }
+
+    if (!current) continue;
+
+    // Blank lines separate code frames in --pretty output; keep collecting
+    if (rawLine.trim() === '') continue;
+
+    if (CODE_FRAME.test(rawLine) || UNDERLINE.test(rawLine)) continue;
+
+    // A non-indented line ends the diagnostic ("Found 2 errors", next command...)
+    if (!/^\s/.test(rawLine)) {
+      current = null;
+      continue;
+    }
+
+    current.details.push(rawLine.trim());
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,135 @@
+/**
+ * Maps absolute paths printed by CI runners back to repo-relative paths.
+ *
+ * Runners check the repo out under a workspace directory, so stack traces and
+ * compiler output carry paths like:
+ *   - GitHub:  /home/runner/work/app/app/packages/core/src/x.ts:42:5
+ *   - GitLab:  /builds/group/project/src/x.ts
+ *
+ * Locally the same file lives at packages/core/src/x.ts, so the workspace
+ * root has to be stripped before the file can be read.
+ */
+
+/** Extensions of source files worth mapping (same set extractFilePaths knows) */
+const SOURCE_EXTENSIONS = 'tsx?|jsx?|mjs|cjs|json|css|scss|html|vue|svelte|py|rb|go|java|rs|sh';
+
+/**
+ * Well-known runner checkout layouts. Each match is a workspace root.
+ * GitHub checks out to <work>/<repo>/<repo>, on every OS and in container jobs.
+ */
+const RUNNER_LAYOUTS: RegExp[] = [
+  /\/home\/runner\/work\/([\w.-]+)\/\1(?=\/)/g,
+  /\/Users\/runner\/work\/([\w.-]+)\/\1(?=\/)/g,
+  /\/__w\/([\w.-]+)\/\1(?=\/)/g,
+  /[A-Za-z]:\\a\\([\w.-]+)\\\1(?=\\)/g,
+];
+
+/** Workspace variables echoed by env dumps ("GITHUB_WORKSPACE: /x" or "CI_PROJECT_DIR=/x") */
+const WORKSPACE_VARIABLE = /\b(?:GITHUB_WORKSPACE|CI_PROJECT_DIR)\s*[:=]\s*["']?([/\\]?[^\s"']+|[A-Za-z]:\\[^\s"']+)/g;
+
+/** GitLab clone output: "Initialized empty Git repository in /builds/group/project/.git/" */
+const GIT_INIT_LINE = /(?:Initialized empty|Reinitialized existing) Git repository in (\/\S+?)\/\.git\/?/g;
+
+/** Absolute Unix or Windows path to a source file, with optional :line:col */
+const ABSOLUTE_PATH = new RegExp(
+  `(?:[A-Za-z]:\\\\|/)(?:[\\w.@+-]+[/\\\\])*[\\w.@+-]+\\.(?:${SOURCE_EXTENSIONS})(?::\\d+(?::\\d+)?)?\\b`,
+  'gi'
+);
+
+/** Escapes a string for use inside a RegExp */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Removes trailing slashes/backslashes from a root */
+function trimRoot(root: string): string {
+  return root.replace(/[/\\]+$/, '');
+}
+
+/**
+ * Detects workspace roots from a CI log.
+ *
+ * Sources, most specific first:
+ * 1. GITHUB_WORKSPACE / CI_PROJECT_DIR values printed in the log
+ * 2. GitLab's "Initialized empty Git repository in <dir>/.git/" clone line
+ * 3. Known runner layouts (/home/runner/work/<repo>/<repo>, /__w/..., D:\a\...)
+ * 4. Fallback: the first path segment named after the repo (e.g. /builds/group/<repo>)
+ *
+ * @param log      - Raw or cleaned log text
+ * @param repoName - Repository name or "owner/repo"; only the last segment is used
+ * @returns Distinct roots, longest first so nested roots win
+ */
+export function detectWorkspaceRoots(log: string, repoName?: string): string[] {
+  const roots = new Set<string>();
+
+  for (const match of log.matchAll(WORKSPACE_VARIABLE)) {
+    if (match[1] && /^(?:\/|[A-Za-z]:\\)/.test(match[1])) roots.add(trimRoot(match[1]));
+  }
+  for (const match of log.matchAll(GIT_INIT_LINE)) {
+    if (match[1]) roots.add(trimRoot(match[1]));
+  }
+  for (const layout of RUNNER_LAYOUTS) {
+    for (const match of log.matchAll(layout)) {
+      roots.add(match[0]);
+    }
+  }
+
+  const name = repoName?.split('/').filter(Boolean).pop();
+  if (roots.size === 0 && name) {
+    // First directory named after the repo; a repeated segment (<repo>/<repo>) belongs to the root too
+    const byName = new RegExp(
+      `(?:^|[\\s("'=])((?:/[\\w.@+-]+)*?/${escapeRegExp(name)}(?:/${escapeRegExp(name)})?)(?=/)`,
+      'g'
+    );
+    for (const match of log.matchAll(byName)) {
+      if (match[1]) roots.add(match[1]);
+    }
+  }
+
+  return Array.from(roots).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Rewrites an absolute path under a workspace root to a repo-relative one.
+ * Known runner layouts are always tried, so this also works without detected
+ * roots. Paths outside every root (node_modules of a global install, /usr/lib)
+ * are returned unchanged. Backslashes in mapped Windows paths become "/".
+ */
+export function toRepoRelative(filePath: string, roots: string[] = []): string {
+  const layoutRoots = RUNNER_LAYOUTS.flatMap((layout) =>
+    Array.from(filePath.matchAll(new RegExp(`^${layout.source}`, 'g')), (m) => m[0])
+  );
+
+  for (const root of [...roots, ...layoutRoots]) {
+    if (filePath.length > root.length + 1 && filePath.startsWith(root) && /[/\\]/.test(filePath[root.length])) {
+      return filePath.slice(root.length + 1).replace(/\\/g, '/');
+    }
+  }
+  return filePath;
+}
+
+/**
+ * Rewrites every absolute source path under a workspace root in a piece of
+ * text (a message, a traceback frame) to its repo-relative form.
+ */
+export function relativizePaths(text: string, roots: string[]): string {
+  return text.replace(ABSOLUTE_PATH, (match) => toRepoRelative(match, roots));
+}
+
+/**
+ * Finds absolute source paths in a line that lie under a workspace root.
+ *
+ * @returns The repo-relative paths (keeping any :line:col suffix) and the line
+ *          with those paths blanked out, so relative-path patterns don't match
+ *          fragments of them a second time
+ */
+export function mapAbsolutePaths(line: string, roots: string[]): { paths: string[]; rest: string } {
+  const paths: string[] = [];
+  const rest = line.replace(ABSOLUTE_PATH, (match) => {
+    const mapped = toRepoRelative(match, roots);
+    if (mapped === match) return match;
+    paths.push(mapped);
+    return ' '.repeat(match.length);
+  });
+  return { paths, rest };
+}
@@ -1,6 +1,18 @@
 import type { ExtractedError } from './error-extractor.js';
-import { readFileSync, existsSync } from 'fs';
-import { extname } from 'path';
+import { clusterErrors, errorSignature } from './error-clusterer.js';
+import type { ErrorCluster } from './error-clusterer.js';
+import { formatLocation } from './diagnostic.js';
+import { NON_CODE_CATEGORIES, formatClassification } from './failure-classifier.js';
+import type { FailureCategory } from './failure-classifier.js';
+import type { Diagnostic } from './diagnostic.js';
+import { jvmSourceCandidates } from './parsers/jvm.js';
+import { toRepoRelative } from './path-mapper.js';
+import { renderTemplate } from './prompt-template.js';
+import type { TemplateValue } from './prompt-template.js';
+import { PRIORITY, fitBlocks } from './token-budget.js';
+import type { BlockPriority, BudgetReport, PromptBlock, PromptSection } from './token-budget.js';
+import { readFileSync, existsSync, realpathSync } from 'fs';
+import { extname, isAbsolute, relative } from 'path';
 
 export interface FileContext {
   filePath: string;
@@ -8,45 +20,106 @@ export interface FileContext {
   extension: string;
 }
 
+/** How much source context a prompt shows */
+export interface ContextLimits {
+  /** Source lines on each side of the failing line */
+  fileRadius: number;
+  /** Lines shown of a file referenced without a line number */
+  fileLines: number;
+  /** Source files shown under "Source Context" */
+  maxFiles: number;
+  /** Source lines on each side of a diagnostic */
+  snippetRadius: number;
+}
+
+export const DEFAULT_CONTEXT_LIMITS: ContextLimits = {
+  fileRadius: 20,
+  fileLines: 200,
+  maxFiles: 5,
+  snippetRadius: 5,
+};
+
 export interface PromptOptions {
   repo: string;
   branch: string;
   runId: string;
   includeContext: boolean;
   error: ExtractedError;
+  /** Token budget for the prompt; lower-priority sections are dropped to fit */
+  maxTokens?: number;
+  /** Filled in with what the budget dropped */
+  budgetReport?: BudgetReport;
+  /** Template source (see prompt-template.ts); replaces the built-in layout */
+  template?: string;
+  /** Overrides of DEFAULT_CONTEXT_LIMITS */
+  contextLimits?: Partial<ContextLimits>;
+}
+
+export interface MultiJobPromptOptions {
+  repo: string;
+  branch: string;
+  runId: string;
+  includeContext: boolean;
+  /** One extracted error per failed job */
+  errors: ExtractedError[];
+  /** Token budget for the prompt; lower-priority sections are dropped to fit */
+  maxTokens?: number;
+  /** Filled in with what the budget dropped */
+  budgetReport?: BudgetReport;
+  /** Template source (see prompt-template.ts); replaces the built-in layout */
+  template?: string;
+  /** Overrides of DEFAULT_CONTEXT_LIMITS */
+  contextLimits?: Partial<ContextLimits>;
 }
 
 /**
  * Tries to read a source file from the local repo and extract ±20 lines
- * around the failing line number (if known from the path like file.ts:42).
+ * (or ±`radius`) around the failing line number (if known from the path
+ * like file.ts:42 or file.ts:42:5), or the first 200 (`maxLines`) lines
+ * without one. Absolute runner paths such as
+ * /home/runner/work/app/app/src/x.ts are also tried repo-relative.
+ *
+ * Paths come from the log, which may not be trustworthy (offline mode reads
+ * logs attached to bug reports), so only files inside the working directory
+ * are read: paths with ".." segments, and absolute paths elsewhere
+ * (/etc/passwd, ~/.ssh/...), are ignored.
  */
-export function readFileContext(filePath: string): FileContext | null {
-  // Strip line number suffix (e.g. src/foo.ts:42 → src/foo.ts)
-  const pathWithoutLine = filePath.replace(/:\d+$/, '');
-  const lineMatch = filePath.match(/:(\d+)$/);
+export function readFileContext(filePath: string, radius = 20, maxLines = 200): FileContext | null {
+  // Strip line/column suffix (e.g. src/foo.ts:42:5 → src/foo.ts)
+  const pathWithoutLine = filePath.replace(/(?::\d+){1,2}$/, '');
+  if (pathWithoutLine.split(/[/\\]/).includes('..')) return null;
+  const lineMatch = filePath.match(/:(\d+)(?::\d+)?$/);
   const errorLine = lineMatch ? parseInt(lineMatch[1], 10) : null;
 
-  // Try the path as-is, then without leading ./
-  const candidates = [pathWithoutLine, pathWithoutLine.replace(/^\.\//, '')];
+  // Try the path as-is, then without leading ./, then mapped out of a runner workspace,
+  // then other JVM source roots for paths rebuilt from a package
+  const candidates = [
+    pathWithoutLine,
+    pathWithoutLine.replace(/^\.\//, ''),
+    toRepoRelative(pathWithoutLine),
+    ...jvmSourceCandidates(pathWithoutLine),
+  ];
 
   for (const candidate of candidates) {
-    if (existsSync(candidate)) {
+    if (existsSync(candidate) && isInsideWorkingDir(candidate)) {
       try {
         const raw = readFileSync(candidate, 'utf-8');
         const allLines = raw.split('\n');
 
         let content: string;
         if (errorLine !== null) {
-          // ±20 lines around the error line (1-indexed)
-          const start = Math.max(0, errorLine - 21);
-          const end = Math.min(allLines.length, errorLine + 20);
+          // ±radius lines around the error line (1-indexed)
+          const start = Math.max(0, errorLine - radius - 1);
+          const end = Math.min(allLines.length, errorLine + radius);
           content = allLines.slice(start, end).join('\n');
         } else {
-          // Max 200 lines
-          content = allLines.slice(0, 200).join('\n');
+          // Max 200 lines (or maxLines)
+          content = allLines.slice(0, maxLines).join('\n');
         }
 
-        const ext = extname(candidate).replace('.', '') || 'text';
+        const ext = /(?:^|[/\\])Dockerfile[^/\\]*$|\.dockerfile$/i.test(candidate)
+          ? 'dockerfile'
+          : extname(candidate).replace('.', '') || 'text';
         return { filePath: candidate, content, extension: ext };
       } catch {
         return null;
@@ -57,13 +130,545 @@ export function readFileContext(filePath: string): FileContext | null {
   return null;
 }
 
+/** True when a path (after following symlinks) lies inside the working directory */
+function isInsideWorkingDir(filePath: string): boolean {
+  try {
+    const rel = relative(realpathSync(process.cwd()), realpathSync(filePath));
+    return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+  } catch {
+    return false;
+  }
+}
+
+/** Formats the job label, e.g. "unit-tests (stage: test)" */
+function jobLabel(error: ExtractedError): string {
+  const name = error.jobName || '(unknown job)';
+  return error.stage ? `${name} (stage: ${error.stage})` : name;
+}
+
+/** Maximum number of diagnostics rendered with a snippet */
+const MAX_DIAGNOSTICS = 10;
+
+/** Source context files read when a token budget decides what fits */
+const MAX_BUDGET_FILES = 20;
+
+/**
+ * Lines around the failing line, and whole-file lines, read for source context
+ * under a budget (at least; larger context limits win)
+ */
+const BUDGET_FILE_RADIUS = 50;
+const BUDGET_FILE_LINES = 500;
+
+/** Task text for failures that code changes won't fix */
+const NON_CODE_TASKS = new Map<FailureCategory, string>([
+  [
+    'infrastructure',
+    'This failure looks like a CI infrastructure problem, not a code error. Explain what went wrong and whether ' +
+      'a retry is likely to fix it. If it keeps happening, suggest a CI configuration change (runner size, ' +
+      'memory limits, caching, registry mirrors or retries) instead of changing application code.',
+  ],
+  [
+    'timeout',
+    'The job hit its time limit. Find the step that hangs or got slower, and suggest how to fix it or make the ' +
+      'job fit (caching, splitting or parallelizing work, or a higher timeout) instead of changing unrelated code.',
+  ],
+  [
+    'cancellation',
+    'The job was canceled, usually by a newer push, a concurrency group or a user, so a re-run is likely all ' +
+      'it needs. Only suggest a code fix if the errors above show a real failure before the cancellation.',
+  ],
+]);
+
+/** Task text for one job: a fix for code failures, a retry or config change for infrastructure ones */
+function taskText(error: ExtractedError): string {
+  const category = error.classification?.category;
+  return (category && NON_CODE_TASKS.get(category)) ??
+    'Fix the error above. Explain what caused it and provide the corrected code.';
+}
+
+/** Task text for several jobs, naming the ones a code change won't fix */
+function multiJobTaskText(errors: ExtractedError[]): string[] {
+  const task = [
+    'Fix the errors above, job by job. Explain what caused each failure and provide the corrected code. ' +
+      'If several jobs fail for the same reason, say so and fix it once.',
+  ];
+  const nonCode = errors.filter((e) => e.classification && NON_CODE_CATEGORIES.has(e.classification.category));
+  if (nonCode.length > 0) {
+    task.push(
+      `Jobs whose failure type is infrastructure, timeout or cancellation (${nonCode.map(jobLabel).join(', ')}) ` +
+        'are not code errors: say whether a retry or a CI configuration change fixes them instead.'
+    );
+  }
+  return task;
+}
+
+/** Files named per error cluster in "All Errors" */
+const MAX_CLUSTER_FILES = 5;
+
+/**
+ * Formats one "All Errors" entry: the representative message, plus the count
+ * and affected files when the error repeats, e.g.
+ * "Cannot find name 'x'. _(12 occurrences in `a.ts`, `b.ts` and 3 more files)_"
+ */
+function formatCluster(cluster: ErrorCluster): string {
+  if (cluster.count === 1) return cluster.representative;
+  const named = cluster.files.slice(0, MAX_CLUSTER_FILES).map((file) => `\`${file}\``);
+  const more = cluster.files.length - named.length;
+  const files = named.length === 0
+    ? ''
+    : ` in ${more > 0 ? `${named.join(', ')} and ${String(more)} more files` : named.join(', ')}`;
+  return `${cluster.representative} _(${String(cluster.count)} occurrences${files})_`;
+}
+
+/** Tools whose findings are listed per file instead of with a snippet each */
+const LINT_TOOLS = new Set(['eslint', 'prettier']);
+
+/** True for diagnostics rendered under "Lint Failures" */
+function isLintDiagnostic(diagnostic: Diagnostic): boolean {
+  return diagnostic.tool !== undefined && LINT_TOOLS.has(diagnostic.tool);
+}
+
+/** Log line of the best-ranked error, whose diagnostic and snippet come first in a budget */
+function rootLogLine(error: ExtractedError): number | undefined {
+  const ranked = error.rankedErrors ?? [];
+  return ranked.length > 0 ? ranked[0].logLine : undefined;
+}
+
+/** Priority of a diagnostic's block: the root error's ahead of the others */
+function diagnosticPriority(diag: Diagnostic, error: ExtractedError): BlockPriority {
+  const root = rootLogLine(error);
+  return root !== undefined && diag.logLine === root ? PRIORITY.rootSnippet : PRIORITY.otherErrors;
+}
+
+/** Header of a Jest/Vitest expected/received diff: "- Expected", "+ Received  + 1" */
+const DIFF_HEADER = /^[-+] (?:Expected|Received)\b/;
+
+/** Fence language of a failing test's details: "diff" for an expected/received diff */
+function detailsFence(details: string[]): string {
+  return details.some((detail) => DIFF_HEADER.test(detail)) ? 'diff' : '';
+}
+
+/**
+ * Renders the "Failing Tests" section: a numbered list of failing tests with
+ * their location, assertion message and details. Expected/received diffs get
+ * a diff fence; stack frames and test log lines a plain one.
+ */
+function renderFailingTests(blocks: PromptBlock[], error: ExtractedError, heading: string): void {
+  const tests = (error.diagnostics ?? []).filter((d) => d.test !== undefined);
+  if (tests.length === 0) return;
+
+  const section: PromptSection = {
+    heading: [`${heading} Failing Tests`],
+    end: [
+      ...(tests.length > MAX_DIAGNOSTICS ? [`_(${tests.length - MAX_DIAGNOSTICS} more failing tests not shown)_`] : []),
+      '',
+    ],
+  };
+  tests.slice(0, MAX_DIAGNOSTICS).forEach((diag, i) => {
+    const location = formatLocation(diag);
+    const lines = [
+      `${String(i + 1)}. **${diag.test ?? ''}**${location ? ` (\`${location}\`)` : ''}`,
+      `   ${diag.message}`,
+    ];
+    if (diag.details.length > 0) {
+      lines.push(`   \`\`\`${detailsFence(diag.details)}`);
+      for (const detail of diag.details) {
+        lines.push(`   ${detail}`);
+      }
+      lines.push('   ```');
+    }
+    blocks.push({
+      priority: diagnosticPriority(diag, error),
+      kind: 'failing test',
+      label: diag.test ?? '',
+      lines,
+      section,
+    });
+  });
+}
+
+/** Lint findings grouped by file, in log order */
+function lintFindingsByFile(error: ExtractedError): Map<string, Diagnostic[]> {
+  const byFile = new Map<string, Diagnostic[]>();
+  for (const diag of error.diagnostics ?? []) {
+    if (!diag.file || !isLintDiagnostic(diag)) continue;
+    const entry = byFile.get(diag.file);
+    if (entry) {
+      entry.push(diag);
+    } else {
+      byFile.set(diag.file, [diag]);
+    }
+  }
+  return byFile;
+}
+
+/** One "Lint Failures" line: "12:7 error: 'user' is assigned a value but never used (no-unused-vars)" */
+function formatLintFinding(diag: Diagnostic): string {
+  const position = diag.line !== undefined ? `${String(diag.line)}:${String(diag.column ?? 0)} ` : '';
+  const rule = diag.code ? ` (${diag.code})` : '';
+  return `${position}${diag.severity}: ${diag.message}${rule}`;
+}
+
+/**
+ * Renders the "Lint Failures" section: lint findings grouped by file, one
+ * line per finding with position, severity, rule and message.
+ */
+function renderLintFailures(blocks: PromptBlock[], error: ExtractedError, heading: string): void {
+  const byFile = lintFindingsByFile(error);
+  if (byFile.size === 0) return;
+
+  const section: PromptSection = { heading: [`${heading} Lint Failures`], end: [] };
+  for (const [file, findings] of byFile) {
+    const lines = [`**\`${file}\`**`];
+    for (const diag of findings) {
+      lines.push(`- ${formatLintFinding(diag)}`);
+    }
+    lines.push('');
+    const root = findings.some((diag) => diagnosticPriority(diag, error) === PRIORITY.rootSnippet);
+    blocks.push({
+      priority: root ? PRIORITY.rootSnippet : PRIORITY.otherErrors,
+      kind: 'lint file',
+      label: file,
+      lines,
+      section,
+    });
+  }
+}
+
+/** A diagnostic's code and message, e.g. "TS2345: Argument of type ..." */
+function diagnosticText(diag: Diagnostic): string {
+  // Exceptions and panics already lead with their type: "ValueError: bad"
+  const code = diag.code && !diag.message.startsWith(`${diag.code}:`) ? `${diag.code}: ` : '';
+  return `${code}${diag.message}`;
+}
+
+/** Diagnostics sharing one message signature; the first one is shown */
+interface DiagnosticGroup {
+  diag: Diagnostic;
+  members: Diagnostic[];
+  cluster: ErrorCluster;
+}
+
+/**
+ * Groups located diagnostics like "All Errors" groups error lines, so a
+ * broken shared type shows up once with a count instead of once per call site.
+ */
+function clusterDiagnostics(diagnostics: Diagnostic[]): DiagnosticGroup[] {
+  const members = new Map<string, Diagnostic[]>();
+  for (const diag of diagnostics) {
+    const signature = errorSignature(diagnosticText(diag));
+    const entry = members.get(signature);
+    if (entry) {
+      entry.push(diag);
+    } else {
+      members.set(signature, [diag]);
+    }
+  }
+  const clusters = clusterErrors(diagnostics.map((diag) => ({ message: diagnosticText(diag), ...(diag.file ? { file: diag.file } : {}) })));
+  return clusters.flatMap((cluster) => {
+    const group = members.get(cluster.signature) ?? [];
+    return group.length > 0 ? [{ diag: group[0], members: group, cluster }] : [];
+  });
+}
+
+/** Diagnostics in the groups past MAX_DIAGNOSTICS */
+function hiddenDiagnosticCount(groups: DiagnosticGroup[]): number {
+  return groups.slice(MAX_DIAGNOSTICS).reduce((sum, group) => sum + group.cluster.count, 0);
+}
+
+/**
+ * Renders the "Diagnostics" section: each diagnostic that has a file location,
+ * with its code, continuation lines and the source snippet at that line.
+ * Repeats of the same error are folded into the first, with a count and files.
+ * Diagnostics without a location are already listed under "All Errors", lint
+ * findings under "Lint Failures" and test failures under "Failing Tests".
+ * Returns the files that got a snippet, so Source Context can skip them.
+ */
+function renderDiagnostics(
+  blocks: PromptBlock[],
+  error: ExtractedError,
+  includeContext: boolean,
+  heading: string,
+  snippetRadius: number
+): Set<string> {
+  const shownFiles = new Set<string>();
+  const located = (error.diagnostics ?? []).filter(
+    (d) => d.file && !isLintDiagnostic(d) && d.test === undefined
+  );
+  if (located.length === 0) return shownFiles;
+
+  const groups = clusterDiagnostics(located);
+  const hidden = hiddenDiagnosticCount(groups);
+  const section: PromptSection = {
+    heading: [`${heading} Diagnostics`],
+    end: hidden > 0 ? [`_(${String(hidden)} more diagnostics not shown)_`, ''] : [],
+  };
+  for (const { diag, members, cluster } of groups.slice(0, MAX_DIAGNOSTICS)) {
+    const lines = [`**\`${formatLocation(diag) ?? ''}\`** - ${formatCluster(cluster)}`];
+    for (const detail of diag.details) {
+      lines.push(`> ${detail}`);
+    }
+    const withoutSnippet = [...lines, ''];
+
+    const fileCtx = includeContext ? readDiagnosticSnippet(diag, snippetRadius) : null;
+    if (fileCtx) {
+      lines.push(`\`\`\`${fileCtx.extension}`);
+      lines.push(fileCtx.content);
+      lines.push('```');
+      shownFiles.add(fileCtx.filePath);
+    }
+    lines.push('');
+    const root = members.some((member) => diagnosticPriority(member, error) === PRIORITY.rootSnippet);
+    blocks.push({
+      priority: root ? PRIORITY.rootSnippet : PRIORITY.otherErrors,
+      kind: 'diagnostic',
+      label: formatLocation(diag) ?? '',
+      lines,
+      ...(fileCtx ? { fallback: withoutSnippet } : {}),
+      section,
+    });
+  }
+  return shownFiles;
+}
+
+/** The numbered source snippet at a diagnostic's line, or null when the file can't be read */
+function readDiagnosticSnippet(diag: Diagnostic, radius: number): FileContext | null {
+  if (!diag.file || diag.line === undefined) return null;
+  const fileCtx = readFileContext(`${diag.file}:${String(diag.line)}`, radius);
+  if (!fileCtx) return null;
+  const firstLine = Math.max(1, diag.line - radius);
+  return { ...fileCtx, content: numberLines(fileCtx.content, firstLine, diag.line) };
+}
+
+/** Prefixes snippet lines with line numbers, marking the failing line with ">" */
+function numberLines(content: string, firstLine: number, markLine: number): string {
+  const lines = content.split('\n');
+  const width = String(firstLine + lines.length - 1).length;
+  return lines
+    .map((text, i) => {
+      const lineNo = firstLine + i;
+      const marker = lineNo === markLine ? '>' : ' ';
+      return `${marker} ${String(lineNo).padStart(width)} | ${text}`;
+    })
+    .join('\n');
+}
+
+/** Lines of a "Source Context" block for one file */
+function sourceContextLines(fileCtx: FileContext, heading: string): string[] {
+  return [
+    `${heading} Source Context`,
+    `**File:** \`${fileCtx.filePath}\``,
+    `\`\`\`${fileCtx.extension}`,
+    fileCtx.content,
+    '```',
+    '',
+  ];
+}
+
+/**
+ * Renders the "All Errors", "Error", "Diagnostics", "Failing Tests",
+ * "Lint Failures" and "Source Context" sections for one extracted error. `heading` is the markdown prefix for
+ * section titles. With a token budget (`budgeted`), more files are read, with
+ * larger windows, and fitBlocks() decides what stays.
+ */
+function renderErrorSections(
+  blocks: PromptBlock[],
+  error: ExtractedError,
+  includeContext: boolean,
+  heading: string,
+  limits: ContextLimits,
+  budgeted = false
+): void {
+  // All Errors summary (one bullet per distinct error, repeats folded into a count)
+  if (error.allErrors.length > 0) {
+    const section: PromptSection = { heading: [`${heading} All Errors`], end: [''] };
+    const clusters = error.errorClusters ?? clusterErrors(error.allErrors.map((message) => ({ message })));
+    for (const cluster of clusters) {
+      blocks.push({
+        priority: PRIORITY.otherErrors,
+        kind: 'error',
+        label: cluster.representative.slice(0, 60),
+        lines: [`- ${formatCluster(cluster)}`],
+        section,
+      });
+    }
+  }
+
+  // Error context section, trimmed around the root error when over budget
+  const context = (error.fullContext || '(no error output captured)').split('\n');
+  const ranked = error.rankedErrors ?? [];
+  const focus = ranked.length > 0 ? context.lastIndexOf(ranked[0].text) : -1;
+  blocks.push({
+    priority: PRIORITY.required,
+    kind: 'error context',
+    label: error.jobName ?? error.stepName,
+    lines: [`${heading} Error`, '```', ...context, '```', ''],
+    trim: { start: 2, end: 2 + context.length, focus: 2 + (focus >= 0 ? focus : context.length - 1) },
+  });
+
+  const shownFiles = renderDiagnostics(blocks, error, includeContext, heading, limits.snippetRadius);
+  renderFailingTests(blocks, error, heading);
+  renderLintFailures(blocks, error, heading);
+
+  // Source context (optional) - iterate up to maxFiles file paths (more with a budget),
+  // skipping files already shown next to a diagnostic
+  if (includeContext && error.filePaths.length > 0) {
+    const pathsToRead = error.filePaths.slice(0, budgeted ? Math.max(limits.maxFiles, MAX_BUDGET_FILES) : limits.maxFiles);
+    for (const filePath of pathsToRead) {
+      const fileCtx = budgeted
+        ? readFileContext(filePath, Math.max(limits.fileRadius, BUDGET_FILE_RADIUS), Math.max(limits.fileLines, BUDGET_FILE_LINES))
+        : readFileContext(filePath, limits.fileRadius, limits.fileLines);
+      if (fileCtx && !shownFiles.has(fileCtx.filePath)) {
+        // Without a diagnostic snippet, the first file is the failing line's context
+        const first = !blocks.some((b) => b.priority === PRIORITY.rootSnippet);
+        const smaller = budgeted ? readFileContext(filePath, limits.fileRadius, limits.fileLines) : null;
+        blocks.push({
+          priority: first ? PRIORITY.rootSnippet : PRIORITY.otherFiles,
+          kind: 'source file',
+          label: fileCtx.filePath,
+          lines: sourceContextLines(fileCtx, heading),
+          ...(smaller && smaller.content !== fileCtx.content ? { fallback: sourceContextLines(smaller, heading) } : {}),
+        });
+      }
+      // Files that don't exist locally are gracefully skipped (readFileContext returns null)
+    }
+  }
+}
+
+/** Template data for one failed job; see buildTemplateData() */
+function templateJob(
+  error: ExtractedError,
+  includeContext: boolean,
+  limits: ContextLimits
+): { [key: string]: TemplateValue } {
+  const diagnostics = error.diagnostics ?? [];
+  const shownFiles = new Set<string>();
+
+  const groups = clusterDiagnostics(diagnostics.filter((d) => d.file && !isLintDiagnostic(d) && d.test === undefined));
+  const located = groups
+    .slice(0, MAX_DIAGNOSTICS)
+    .map(({ diag, cluster }) => {
+      const fileCtx = includeContext ? readDiagnosticSnippet(diag, limits.snippetRadius) : null;
+      if (fileCtx) shownFiles.add(fileCtx.filePath);
+      return {
+        location: formatLocation(diag) ?? '',
+        file: diag.file ?? '',
+        line: diag.line ?? 0,
+        column: diag.column ?? 0,
+        code: diag.code ?? '',
+        tool: diag.tool ?? '',
+        message: diag.message,
+        text: formatCluster(cluster),
+        count: cluster.count,
+        files: cluster.files,
+        details: diag.details,
+        snippet: fileCtx?.content ?? '',
+        language: fileCtx?.extension ?? '',
+      };
+    });
+
+  const allTests = diagnostics.filter((d) => d.test !== undefined);
+  const tests = allTests
+    .slice(0, MAX_DIAGNOSTICS)
+    .map((diag) => ({
+      name: diag.test ?? '',
+      location: formatLocation(diag) ?? '',
+      message: diag.message,
+      details: diag.details,
+      fence: detailsFence(diag.details),
+    }));
+
+  const lintFindings = diagnostics.filter(isLintDiagnostic).map((diag) => ({
+    location: formatLocation(diag) ?? '',
+    file: diag.file ?? '',
+    severity: diag.severity,
+    rule: diag.code ?? '',
+    message: diag.message,
+  }));
+  const lintFiles = Array.from(lintFindingsByFile(error), ([file, findings]) => ({
+    file,
+    findings: findings.map(formatLintFinding),
+  }));
+
+  const clusters = error.errorClusters ?? clusterErrors(error.allErrors.map((message) => ({ message })));
+  const errors = clusters.map((cluster) => ({
+    message: cluster.representative,
+    text: formatCluster(cluster),
+    count: cluster.count,
+    files: cluster.files,
+    filesText: cluster.files.join(', '),
+  }));
+
+  const files: TemplateValue[] = [];
+  if (includeContext) {
+    for (const filePath of error.filePaths.slice(0, limits.maxFiles)) {
+      const fileCtx = readFileContext(filePath, limits.fileRadius, limits.fileLines);
+      if (fileCtx && !shownFiles.has(fileCtx.filePath)) {
+        files.push({ path: fileCtx.filePath, language: fileCtx.extension, content: fileCtx.content });
+      }
+    }
+  }
+
+  const ranked = error.rankedErrors ?? [];
+  const classification = error.classification;
+  return {
+    name: error.jobName ?? '',
+    stage: error.stage ?? '',
+    label: jobLabel(error),
+    step: error.stepName,
+    failureType: classification ? formatClassification(classification) : '',
+    failure: {
+      category: classification?.category ?? '',
+      confidence: classification ? Math.round(classification.confidence * 100) : 0,
+      reason: classification?.reason ?? '',
+    },
+    infrastructure: classification !== undefined && NON_CODE_CATEGORIES.has(classification.category),
+    rootError: ranked.length > 0 ? ranked[0].text : '',
+    errorContext: error.fullContext || '(no error output captured)',
+    errors,
+    diagnostics: located,
+    hiddenDiagnostics: hiddenDiagnosticCount(groups),
+    tests,
+    hiddenTests: Math.max(allTests.length - MAX_DIAGNOSTICS, 0),
+    lintFindings,
+    lintFiles,
+    files,
+    task: taskText(error),
+  };
+}
+
+/**
+ * Builds the data a prompt template sees: repo, branch, run, jobCount,
+ * multipleJobs, a `jobs` list with one entry per failed job, and the first job's fields at
+ * the top level for single-job templates (step, errors, diagnostics, tests,
+ * lintFindings, files, errorContext, failureType, ...). `task` is the
+ * built-in task text.
+ */
+export function buildTemplateData(options: MultiJobPromptOptions): { [key: string]: TemplateValue } {
+  const { repo, branch, runId, includeContext, errors } = options;
+  const limits = { ...DEFAULT_CONTEXT_LIMITS, ...options.contextLimits };
+  const jobs = errors.map((error) => templateJob(error, includeContext, limits));
+  return {
+    ...(jobs.length > 0 ? jobs[0] : {}),
+    repo,
+    branch,
+    run: runId,
+    jobCount: jobs.length,
+    multipleJobs: jobs.length > 1,
+    jobs,
+    task: errors.length === 1 ? taskText(errors[0]) : multiJobTaskText(errors).join('\n'),
+  };
+}
+
 /**
  * Builds a structured LLM prompt from an extracted CI error.
  *
  * Format:
  * ## CI Failure - [repo] / [branch]
  * **Run:** [run-id or "latest"]
+ * **Job:** [job name (stage: x)]   (only when known)
  * **Failing step:** [step name]
+ * **Failure type:** [category (confidence) - reason]
  *
  * ### Error
  * ```
@@ -77,56 +682,93 @@ export function readFileContext(filePath: string): FileContext | null {
  *
  * ### Task
  * Fix the error above. Explain what caused it and provide the corrected code.
+ * (Infrastructure, timeout and cancellation failures ask about a retry or a CI
+ * config change instead.)
  */
 export function buildPrompt(options: PromptOptions): string {
-  const { repo, branch, runId, includeContext, error } = options;
+  const { repo, branch, runId, includeContext, error, maxTokens, contextLimits } = options;
+
+  if (options.template !== undefined) {
+    return renderTemplate(
+      options.template,
+      buildTemplateData({ repo, branch, runId, includeContext, errors: [error], ...(contextLimits ? { contextLimits } : {}) })
+    );
+  }
 
-  const parts: string[] = [];
+  const blocks: PromptBlock[] = [];
 
   // Header
-  parts.push(`## CI Failure - ${repo} / ${branch}`);
-  parts.push(`**Run:** ${runId}`);
-  parts.push(`**Failing step:** ${error.stepName}`);
-  parts.push('');
+  const header: string[] = [];
+  header.push(`## CI Failure - ${repo} / ${branch}`);
+  header.push(`**Run:** ${runId}`);
+  if (error.jobName) {
+    header.push(`**Job:** ${jobLabel(error)}`);
+  }
+  header.push(`**Failing step:** ${error.stepName}`);
+  if (error.classification) {
+    header.push(`**Failure type:** ${formatClassification(error.classification)}`);
+  }
+  header.push('');
+  blocks.push({ priority: PRIORITY.required, kind: 'header', label: repo, lines: header });
 
-  // All Errors summary (bulleted list of every detected error line)
-  if (error.allErrors.length > 0) {
-    parts.push('### All Errors');
-    for (const errLine of error.allErrors) {
-      parts.push(`- ${errLine}`);
-    }
-    parts.push('');
+  const limits = { ...DEFAULT_CONTEXT_LIMITS, ...contextLimits };
+  renderErrorSections(blocks, error, includeContext, '###', limits, maxTokens !== undefined);
+
+  // Task
+  blocks.push({ priority: PRIORITY.required, kind: 'task', label: '', lines: ['### Task', taskText(error)] });
+
+  return fitBlocks(blocks, maxTokens ?? Infinity, options.budgetReport).join('\n');
+}
+
+/**
+ * Builds one LLM prompt covering several failed jobs of the same run/pipeline.
+ * Each job gets its own "## Job:" section naming the job and stage, so every
+ * error can be traced back to where it came from. A single job falls back to
+ * the regular buildPrompt() layout.
+ */
+export function buildMultiJobPrompt(options: MultiJobPromptOptions): string {
+  const { repo, branch, runId, includeContext, errors, maxTokens, budgetReport, contextLimits } = options;
+
+  if (options.template !== undefined) {
+    return renderTemplate(options.template, buildTemplateData(options));
   }
 
-  // Error context section
-  parts.push('### Error');
-  parts.push('```');
-  parts.push(error.fullContext || '(no error output captured)');
-  parts.push('```');
-  parts.push('');
+  if (errors.length === 1 && errors[0]) {
+    return buildPrompt({
+      repo,
+      branch,
+      runId,
+      includeContext,
+      error: errors[0],
+      ...(maxTokens !== undefined ? { maxTokens } : {}),
+      ...(budgetReport ? { budgetReport } : {}),
+      ...(contextLimits ? { contextLimits } : {}),
+    });
+  }
 
-  // Source context (optional) - iterate up to 5 file paths
-  if (includeContext && error.filePaths.length > 0) {
-    const pathsToRead = error.filePaths.slice(0, 5);
-    for (const filePath of pathsToRead) {
-      const fileCtx = readFileContext(filePath);
-      if (fileCtx) {
-        parts.push('### Source Context');
-        parts.push(`**File:** \`${fileCtx.filePath}\``);
-        parts.push(`\`\`\`${fileCtx.extension}`);
-        parts.push(fileCtx.content);
-        parts.push('```');
-        parts.push('');
-      }
-      // Files that don't exist locally are gracefully skipped (readFileContext returns null)
+  const blocks: PromptBlock[] = [];
+  const limits = { ...DEFAULT_CONTEXT_LIMITS, ...contextLimits };
+
+  // Header
+  blocks.push({
+    priority: PRIORITY.required,
+    kind: 'header',
+    label: repo,
+    lines: [`## CI Failure - ${repo} / ${branch}`, `**Run:** ${runId}`, `**Failed jobs:** ${errors.length}`, ''],
+  });
+
+  for (const error of errors) {
+    const jobHeader = [`## Job: ${jobLabel(error)}`, `**Failing step:** ${error.stepName}`];
+    if (error.classification) {
+      jobHeader.push(`**Failure type:** ${formatClassification(error.classification)}`);
     }
+    jobHeader.push('');
+    blocks.push({ priority: PRIORITY.required, kind: 'job header', label: jobLabel(error), lines: jobHeader });
+    renderErrorSections(blocks, error, includeContext, '###', limits, maxTokens !== undefined);
   }
 
   // Task
-  parts.push('### Task');
-  parts.push(
-    'Fix the error above. Explain what caused it and provide the corrected code.'
-  );
+  blocks.push({ priority: PRIORITY.required, kind: 'task', label: '', lines: ['## Task', ...multiJobTaskText(errors)] });
 
-  return parts.join('\n');
+  return fitBlocks(blocks, maxTokens ?? Infinity, budgetReport).join('\n');
 }
@@ -0,0 +1,358 @@
+/**
+ * User-provided prompt templates.
+ *
+ * A small, logic-less template language, so teams can lay out the prompt in
+ * their own style and add house rules ("we use pnpm, never suggest npm"):
+ *
+ *   {{repo}}                          a value; dotted paths reach into objects: {{failure.category}}
+ *   {{#each errors}}- {{message}}{{/each}}
+ *                                     repeats for each list item; {{this}} is a plain item,
+ *                                     {{@number}} its 1-based position
+ *   {{#if files}}...{{else}}...{{/if}} renders when the value is a non-empty list or string,
+ *                                     a non-zero number or true
+ *   {{! comment }}                    ignored
+ *
+ * Templates only look up data; there are no expressions, helpers or function
+ * calls, so a template cannot run code. Names are resolved against the
+ * current loop item first, then the enclosing ones, then the top level, and
+ * only the data's own properties are visible. Unknown names are errors, so a
+ * typo doesn't silently render as nothing.
+ */
+import { existsSync, readFileSync, statSync } from 'fs';
+
+/** Data a template can read */
+export type TemplateValue = string | number | boolean | TemplateValue[] | { [key: string]: TemplateValue };
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string; line: number }
+  | { type: 'each'; path: string; line: number; body: TemplateNode[] }
+  | { type: 'if'; path: string; line: number; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+/** Open block while parsing */
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'each' | 'if' }>;
+  /** Where new nodes go: the body, or the else branch of an #if */
+  target: TemplateNode[];
+}
+
+const TAG = /\{\{([\s\S]*?)\}\}/g;
+
+/** Block, else and comment tags: on a line of their own, they leave no blank line behind */
+const STANDALONE_KINDS = /^(?:[#/!]|else$)/;
+
+/** A name: "repo", "failure.category", "this", "@number" */
+const PATH = /^(?:@\w+|[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)$/;
+
+/** 1-based line number of an offset */
+function lineAt(source: string, offset: number): number {
+  return source.slice(0, offset).split('\n').length;
+}
+
+/** Checks a name in a tag, e.g. the "errors" in "{{#each errors}}" */
+function checkPath(path: string, line: number): string {
+  if (!PATH.test(path)) {
+    throw new Error(`Template line ${String(line)}: "${path}" is not a name (only names like repo or failure.category are allowed)`);
+  }
+  return path;
+}
+
+/** Parses a template into nodes, or throws with the line of the first problem */
+export function parseTemplate(text: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = (): TemplateNode[] => (stack.length > 0 ? stack[stack.length - 1].target : root);
+  let last = 0;
+
+  for (const match of text.matchAll(TAG)) {
+    const offset = match.index;
+    const end = offset + match[0].length;
+    const line = lineAt(text, offset);
+    const [, rawTag = ''] = match;
+    const tag = rawTag.trim();
+
+    // A block tag alone on its line takes the indentation and line break with it
+    let textEnd = offset;
+    let next = end;
+    if (STANDALONE_KINDS.test(tag)) {
+      const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+      const trailing = /^[ \t]*(?:\r?\n|$)/.exec(text.slice(end));
+      if (lineStart >= last && /^[ \t]*$/.test(text.slice(lineStart, offset)) && trailing) {
+        textEnd = lineStart;
+        next = end + trailing[0].length;
+      }
+    }
+    if (textEnd > last) current().push({ type: 'text', text: text.slice(last, textEnd) });
+    last = next;
+
+    if (tag.startsWith('!')) continue;
+
+    const open = /^#(each|if)\s+(\S+)$/.exec(tag);
+    if (open) {
+      const [, kind = '', rawPath = ''] = open;
+      const path = checkPath(rawPath, line);
+      const node: OpenBlock['node'] = kind === 'each'
+        ? { type: 'each', path, line, body: [] }
+        : { type: 'if', path, line, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.type === 'each' ? node.body : node.then });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const block = stack.length > 0 ? stack[stack.length - 1] : undefined;
+      if (block?.node.type !== 'if') throw new Error(`Template line ${String(line)}: {{else}} outside {{#if}}`);
+      block.target = block.node.otherwise;
+      continue;
+    }
+
+    const close = /^\/(each|if)$/.exec(tag);
+    if (close) {
+      const [, kind = ''] = close;
+      const block = stack.pop();
+      if (block?.node.type !== kind) {
+        throw new Error(`Template line ${String(line)}: {{/${kind}}} without a matching {{#${kind}}}`);
+      }
+      continue;
+    }
+
+    if (/^[#/]/.test(tag)) {
+      throw new Error(`Template line ${String(line)}: unknown block "{{${tag}}}" (use #each or #if)`);
+    }
+    current().push({ type: 'value', path: checkPath(tag, line), line });
+  }
+
+  if (last < text.length) current().push({ type: 'text', text: text.slice(last) });
+  if (stack.length > 0) {
+    const { node } = stack[stack.length - 1];
+    throw new Error(`Template line ${String(node.line)}: {{#${node.type} ${node.path}}} is never closed`);
+  }
+  return root;
+}
+
+/** A loop or top-level scope: the item and its position */
+interface Scope {
+  value: TemplateValue;
+  index?: number;
+}
+
+/** Looks up a name, innermost scope first; only own properties count */
+function lookup(path: string, scopes: Scope[], line: number): TemplateValue {
+  const innermost = scopes[scopes.length - 1];
+  if (path === 'this') return innermost.value;
+  if (path === '@index' || path === '@number') {
+    if (innermost.index === undefined) throw new Error(`Template line ${String(line)}: ${path} outside {{#each}}`);
+    return path === '@index' ? innermost.index : innermost.index + 1;
+  }
+
+  const [head = '', ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i].value;
+    if (typeof scope !== 'object' || Array.isArray(scope) || !Object.hasOwn(scope, head)) continue;
+    let value: TemplateValue = scope[head];
+    for (const key of rest) {
+      if (typeof value !== 'object' || Array.isArray(value) || !Object.hasOwn(value, key)) {
+        throw new Error(`Template line ${String(line)}: unknown name "${path}"`);
+      }
+      value = value[key];
+    }
+    return value;
+  }
+  throw new Error(`Template line ${String(line)}: unknown name "${path}"`);
+}
+
+/** Truthiness for {{#if}} */
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return true;
+  return value !== '' && value !== 0 && value !== false;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.text;
+    } else if (node.type === 'value') {
+      const value = lookup(node.path, scopes, node.line);
+      if (typeof value === 'object') {
+        throw new Error(`Template line ${String(node.line)}: "${node.path}" is a list or object; use {{#each ${node.path}}}`);
+      }
+      out += String(value);
+    } else if (node.type === 'each') {
+      const list = lookup(node.path, scopes, node.line);
+      if (!Array.isArray(list)) throw new Error(`Template line ${String(node.line)}: "${node.path}" is not a list`);
+      list.forEach((item, index) => {
+        out += renderNodes(node.body, [...scopes, { value: item, index }]);
+      });
+    } else {
+      const branch = isTruthy(lookup(node.path, scopes, node.line)) ? node.then : node.otherwise;
+      out += renderNodes(branch, scopes);
+    }
+  }
+  return out;
+}
+
+/**
+ * Renders a template with the given data.
+ *
+ * @throws Error naming the template line for syntax errors and unknown names
+ */
+export function renderTemplate(source: string, data: { [key: string]: TemplateValue }): string {
+  return renderNodes(parseTemplate(source), [{ value: data }]).trimEnd();
+}
+
+/** Built-in templates, selected by name with --template */
+export const TEMPLATE_PRESETS: ReadonlyMap<string, string> = new Map([
+  [
+    'default',
+    `## CI Failure - {{repo}} / {{branch}}
+**Run:** {{run}}
+{{#if multipleJobs}}
+**Failed jobs:** {{jobCount}}
+
+{{/if}}
+{{#each jobs}}
+{{#if multipleJobs}}
+## Job: {{label}}
+{{else}}
+{{#if name}}
+**Job:** {{label}}
+{{/if}}
+{{/if}}
+**Failing step:** {{step}}
+{{#if failureType}}
+**Failure type:** {{failureType}}
+{{/if}}
+
+{{#if errors}}
+### All Errors
+{{#each errors}}
+- {{text}}
+{{/each}}
+
+{{/if}}
+### Error
+\`\`\`
+{{errorContext}}
+\`\`\`
+
+{{#if diagnostics}}
+### Diagnostics
+{{#each diagnostics}}
+**\`{{location}}\`** - {{text}}
+{{#each details}}
+> {{this}}
+{{/each}}
+{{#if snippet}}
+\`\`\`{{language}}
+{{snippet}}
+\`\`\`
+{{/if}}
+
+{{/each}}
+{{#if hiddenDiagnostics}}
+_({{hiddenDiagnostics}} more diagnostics not shown)_
+
+{{/if}}
+{{/if}}
+{{#if tests}}
+### Failing Tests
+{{#each tests}}
+{{@number}}. **{{name}}**{{#if location}} (\`{{location}}\`){{/if}}
+   {{message}}
+{{#if details}}
+   \`\`\`{{fence}}
+{{#each details}}
+   {{this}}
+{{/each}}
+   \`\`\`
+{{/if}}
+{{/each}}
+{{#if hiddenTests}}
+_({{hiddenTests}} more failing tests not shown)_
+{{/if}}
+
+{{/if}}
+{{#if lintFiles}}
+### Lint Failures
+{{#each lintFiles}}
+**\`{{file}}\`**
+{{#each findings}}
+- {{this}}
+{{/each}}
+
+{{/each}}
+{{/if}}
+{{#each files}}
+### Source Context
+**File:** \`{{path}}\`
+\`\`\`{{language}}
+{{content}}
+\`\`\`
+
+{{/each}}
+{{/each}}
+{{#if multipleJobs}}
+## Task
+{{else}}
+### Task
+{{/if}}
+{{task}}
+`,
+  ],
+  [
+    'minimal',
+    `CI failed on {{repo}} ({{branch}}, run {{run}}), step "{{step}}".
+
+\`\`\`
+{{errorContext}}
+\`\`\`
+
+{{task}}
+`,
+  ],
+  [
+    'issue',
+    `## CI failure on \`{{branch}}\`
+
+| Repository | Run | Step | Failure type |
+| --- | --- | --- | --- |
+| {{repo}} | {{run}} | {{step}} | {{failureType}} |
+
+### Errors
+{{#each errors}}
+- [ ] {{message}}{{#if files}} ({{count}}x in {{filesText}}){{/if}}
+{{/each}}
+
+<details>
+<summary>Log excerpt</summary>
+
+\`\`\`
+{{errorContext}}
+\`\`\`
+
+</details>
+`,
+  ],
+]);
+
+/**
+ * Loads a built-in preset by name ("default", "minimal", "issue"), or else a
+ * template file. Preset names never read a file, so a config that may only
+ * name a preset can't have a file of that name rendered instead; a file
+ * called "default" is loaded as ./default.
+ */
+export function loadTemplate(pathOrPreset: string): string {
+  const preset = TEMPLATE_PRESETS.get(pathOrPreset);
+  if (preset !== undefined) return preset;
+  if (!existsSync(pathOrPreset)) {
+    throw new Error(
+      `Template "${pathOrPreset}" not found (not a file, and not a preset: ${Array.from(TEMPLATE_PRESETS.keys()).join(', ')})`
+    );
+  }
+  if (statSync(pathOrPreset).isDirectory()) {
+    throw new Error(`Template "${pathOrPreset}" is a directory; pass the template file itself`);
+  }
+  return readFileSync(pathOrPreset, 'utf-8');
+}
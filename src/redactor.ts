@@ -0,0 +1,193 @@
+import type { ExtractedError } from './error-extractor.js';
+
+/**
+ * Secret redaction for everything failprompt outputs.
+ *
+ * CI logs routinely echo tokens, keys and credentials, and the prompt is meant
+ * to be pasted into third-party LLMs. Every extracted string (and the final
+ * prompt, which also contains local source snippets) goes through the rules
+ * below before it is printed or written.
+ */
+
+/**
+ * A redaction rule. When the pattern has a named group "secret", only that
+ * part is masked (e.g. the value of `API_TOKEN=...`); otherwise the whole match.
+ */
+export interface RedactionRule {
+  /** Short name used in the mask and the report, e.g. "github-token" */
+  kind: string;
+  pattern: RegExp;
+}
+
+/**
+ * Distinct secrets masked per rule kind. Values are kept (never printed) so a
+ * secret repeated across error lines, context and diagnostics counts once.
+ */
+export type RedactionReport = Map<string, Set<string>>;
+
+/**
+ * Built-in rules, most specific first: a value masked by an earlier rule is
+ * not counted again by a later, broader one.
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    // Whole block; a truncated block (no END line) is masked to the end of the text
+    kind: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/dg,
+  },
+  {
+    kind: 'url-credentials',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/(?<secret>[^\s/@]+)@/dgi,
+  },
+  {
+    kind: 'authorization-header',
+    pattern: /\b(?:Proxy-)?Authorization\s*:\s*(?:(?:Bearer|Basic|Token|Digest|Negotiate)\s+)?(?<secret>[^\s"',]+)/dgi,
+  },
+  {
+    kind: 'jwt',
+    pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]+/dg,
+  },
+  {
+    kind: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/dg,
+  },
+  {
+    kind: 'gitlab-token',
+    pattern: /\bgl(?:pat|dt|rt|cbt|ptt|ft|imt|oas|soat)-[\w-]{20,}/dg,
+  },
+  {
+    kind: 'aws-key',
+    pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/dg,
+  },
+  {
+    // FOO_TOKEN=x, GITHUB_TOKEN: x, AWS_SECRET_ACCESS_KEY="x", DB_PASSWORD=x
+    kind: 'secret-assignment',
+    pattern:
+      /\b(?:[A-Z][A-Z0-9_]*_)?(?:TOKEN|SECRET|PASSWORD|SECRET_ACCESS_KEY|API_KEY)\s*[=:]\s*["']?(?<secret>[^\s"']+)/dg,
+  },
+];
+
+/** Mask text for a redacted value */
+function mask(kind: string): string {
+  return `[REDACTED:${kind}]`;
+}
+
+/** Values that are already masked (by us, or "***" by GitHub Actions) */
+function isMasked(value: string): boolean {
+  return value.startsWith('[REDACTED') || /^\*+$/.test(value);
+}
+
+/**
+ * Compiles user-defined redaction regexes (from --redact-pattern). A named group
+ * "secret" limits the mask to that part of the match.
+ *
+ * @throws Error naming the offending pattern if it is not a valid regex
+ */
+export function compileRedactionPatterns(sources: string[]): RedactionRule[] {
+  return sources.map((source) => {
+    try {
+      return { kind: 'custom', pattern: new RegExp(source, 'dg') };
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Invalid redaction pattern "${source}": ${msg}`);
+    }
+  });
+}
+
+/** Applies one rule to a string, counting what it masked */
+function applyRule(text: string, rule: RedactionRule, report: RedactionReport): string {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(rule.pattern)) {
+    const span = match.indices?.groups?.['secret'] ?? match.indices?.[0];
+    if (!span) continue;
+    const [start, end] = span;
+    const value = text.slice(start, end);
+    if (start === end || start < last || isMasked(value)) continue;
+
+    // Keep line breaks so line-based consumers (error lines, snippets) stay aligned
+    const replacement = value
+      .split('\n')
+      .map((line) => (line.trim() === '' ? line : mask(rule.kind)))
+      .join('\n');
+    result += text.slice(last, start) + replacement;
+    last = end;
+    const seen = report.get(rule.kind);
+    if (seen) {
+      seen.add(value);
+    } else {
+      report.set(rule.kind, new Set([value]));
+    }
+  }
+  return result + text.slice(last);
+}
+
+/**
+ * Masks secrets in a string.
+ *
+ * @param report - Collects the masked values per kind
+ */
+export function redactText(text: string, rules: RedactionRule[], report: RedactionReport): string {
+  return rules.reduce((current, rule) => applyRule(current, rule, report), text);
+}
+
+/**
+ * Returns a copy of an extracted error with secrets masked in every string
+ * that ends up in the prompt or the --json output.
+ */
+export function redactError(
+  error: ExtractedError,
+  rules: RedactionRule[],
+  report: RedactionReport
+): ExtractedError {
+  const redact = (text: string): string => redactText(text, rules, report);
+  // Redacted as one block so multi-line secrets (private keys) are caught whole
+  const redactLines = (lines: string[]): string[] =>
+    lines.length === 0 ? lines : redact(lines.join('\n')).split('\n');
+
+  return {
+    ...error,
+    stepName: redact(error.stepName),
+    errorLines: redactLines(error.errorLines),
+    allErrors: error.allErrors.map(redact),
+    fullContext: redact(error.fullContext),
+    filePaths: error.filePaths.map(redact),
+    ...(error.diagnostics
+      ? {
+          diagnostics: error.diagnostics.map((diag) => ({
+            ...diag,
+            message: redact(diag.message),
+            details: redactLines(diag.details),
+          })),
+        }
+      : {}),
+    ...(error.rankedErrors
+      ? { rankedErrors: error.rankedErrors.map((scored) => ({ ...scored, text: redact(scored.text) })) }
+      : {}),
+    ...(error.classification?.evidence
+      ? { classification: { ...error.classification, evidence: redact(error.classification.evidence) } }
+      : {}),
+    ...(error.errorClusters
+      ? {
+          errorClusters: error.errorClusters.map((cluster) => ({
+            ...cluster,
+            signature: redact(cluster.signature),
+            representative: redact(cluster.representative),
+            files: cluster.files.map(redact),
+          })),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Formats the stderr report, e.g. "Redacted 3 secrets (2 github-token, 1 jwt)".
+ * Returns undefined when nothing was redacted.
+ */
+export function formatRedactionReport(report: RedactionReport): string | undefined {
+  const entries = Array.from(report, ([kind, values]) => [kind, values.size] as const).filter(([, n]) => n > 0);
+  if (entries.length === 0) return undefined;
+  const total = entries.reduce((sum, [, n]) => sum + n, 0);
+  const detail = entries.map(([kind, n]) => `${String(n)} ${kind}`).join(', ');
+  return `Redacted ${String(total)} secret${total === 1 ? '' : 's'} (${detail})`;
+}
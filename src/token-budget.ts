@@ -0,0 +1,226 @@
+/**
+ * Token estimation and budgeting for prompts.
+ *
+ * The prompt is assembled from blocks (the header, the error context, one
+ * diagnostic, one source file, ...), each with a priority. With a budget,
+ * blocks are kept by priority - required blocks, then the snippet at the
+ * failing line, then the other errors, then the other files - and whatever
+ * doesn't fit is dropped and listed in a BudgetReport.
+ */
+
+/** Average characters per token for code and log text */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the token count of a text. A character-based estimate: good
+ * enough to size a prompt, not an exact tokenizer count.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Block priorities, most important first */
+export const PRIORITY = {
+  /** The header, the root error context and the task: always kept */
+  required: 0,
+  /** The source snippet at the failing line */
+  rootSnippet: 1,
+  /** Other errors, diagnostics, failing tests and lint findings */
+  otherErrors: 2,
+  /** Source context of other files */
+  otherFiles: 3,
+} as const;
+
+export type BlockPriority = (typeof PRIORITY)[keyof typeof PRIORITY];
+
+/** Heading and closing lines shared by the blocks of one section */
+export interface PromptSection {
+  heading: string[];
+  end: string[];
+}
+
+export interface PromptBlock {
+  priority: BlockPriority;
+  /** What the block holds, for the report: "diagnostic", "source file", ... */
+  kind: string;
+  /** Which one, for the report: a file, a location, a test name */
+  label: string;
+  lines: string[];
+  /** A shorter version (e.g. without the source snippet), used when `lines` doesn't fit */
+  fallback?: string[];
+  /** Printed once, around the kept blocks of the section; dropped when none are kept */
+  section?: PromptSection;
+  /**
+   * Lines [start, end) of a required block that may be trimmed to fit, keeping
+   * a window around `focus`
+   */
+  trim?: { start: number; end: number; focus: number };
+}
+
+/** What a budget kept and dropped; filled in by fitBlocks() */
+export interface BudgetReport {
+  /** Estimated tokens of the assembled prompt */
+  usedTokens: number;
+  dropped: Array<{ kind: string; label: string }>;
+  /** Blocks kept in a shorter form: trimmed error context, a diagnostic without its snippet */
+  shortened: Array<{ kind: string; label: string }>;
+}
+
+/** Share of the budget the trimmable required blocks (the error context) may take together */
+const TRIMMABLE_SHARE = 0.5;
+
+/** Creates an empty report to pass to fitBlocks() */
+export function createBudgetReport(): BudgetReport {
+  return { usedTokens: 0, dropped: [], shortened: [] };
+}
+
+/** Tokens of lines joined as they appear in the prompt */
+function linesTokens(lines: string[]): number {
+  return lines.length === 0 ? 0 : estimateTokens(`${lines.join('\n')}\n`);
+}
+
+/**
+ * Keeps a window of a block's trimmable lines around its focus line, as
+ * large as `maxTokens` allows, and notes how many lines were cut.
+ */
+function trimBlock(block: PromptBlock, maxTokens: number): string[] {
+  if (!block.trim) return block.lines;
+  const { start, end, focus } = block.trim;
+  const content = block.lines.slice(start, end);
+  if (linesTokens(content) <= maxTokens) return block.lines;
+
+  const center = Math.min(Math.max(focus - start, 0), content.length - 1);
+  let from = center;
+  let to = center + 1;
+  let used = linesTokens(content.slice(from, to));
+  // Grow the window one line at a time, alternating after and before the focus
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const next of [to, from - 1]) {
+      if (next < 0 || next >= content.length) continue;
+      const cost = linesTokens([content[next]]);
+      if (used + cost > maxTokens) continue;
+      used += cost;
+      if (next === to) to++;
+      else from--;
+      grew = true;
+    }
+  }
+  const cut = content.length - (to - from);
+  const window = [
+    ...(from > 0 ? [`... (${String(from)} lines trimmed)`] : []),
+    ...content.slice(from, to),
+    ...(to < content.length ? [`... (${String(content.length - to)} lines trimmed)`] : []),
+  ];
+  return cut === 0 ? block.lines : [...block.lines.slice(0, start), ...window, ...block.lines.slice(end)];
+}
+
+/** Joins kept blocks in their original order, printing each section's heading and end once */
+function assemble(blocks: PromptBlock[], kept: Map<PromptBlock, string[]>): string[] {
+  const out: string[] = [];
+  let open: PromptSection | undefined;
+  for (const block of blocks) {
+    const lines = kept.get(block);
+    if (!lines) continue;
+    if (block.section !== open) {
+      if (open) out.push(...open.end);
+      if (block.section) out.push(...block.section.heading);
+      open = block.section;
+    }
+    out.push(...lines);
+  }
+  if (open) out.push(...open.end);
+  return out;
+}
+
+/**
+ * Fits prompt blocks into a token budget.
+ *
+ * Required blocks are always kept; when they alone exceed the budget, their
+ * trimmable lines are cut down around the focus line. The trimmable lines
+ * may never take more than half the budget, so the snippet at the failing
+ * line still has room. The other blocks are kept in priority order (then in
+ * prompt order) while they fit, using their fallback when only that fits.
+ *
+ * @param blocks    - Blocks in prompt order
+ * @param maxTokens - Token budget; Infinity keeps everything as is
+ * @param report    - Filled in with what was dropped or shortened
+ * @returns The prompt lines
+ */
+export function fitBlocks(blocks: PromptBlock[], maxTokens: number, report: BudgetReport = createBudgetReport()): string[] {
+  const kept = new Map<PromptBlock, string[]>();
+  const openSections = new Set<PromptSection>();
+  let used = 0;
+  const sectionCost = (section: PromptSection | undefined): number =>
+    section && !openSections.has(section) ? linesTokens([...section.heading, ...section.end]) : 0;
+  const keep = (block: PromptBlock, lines: string[]): void => {
+    used += sectionCost(block.section) + linesTokens(lines);
+    if (block.section) openSections.add(block.section);
+    kept.set(block, lines);
+  };
+
+  // Required blocks: trim the trimmable ones to what the rest leaves over
+  const required = blocks.filter((b) => b.priority === PRIORITY.required);
+  const trimmable = required.filter((b) => b.trim);
+  if (Number.isFinite(maxTokens) && trimmable.length > 0) {
+    const fixed = required.reduce((sum, b) => sum + linesTokens(b.lines), 0) -
+      trimmable.reduce((sum, b) => sum + (b.trim ? linesTokens(b.lines.slice(b.trim.start, b.trim.end)) : 0), 0);
+    const available = Math.min(maxTokens - fixed, maxTokens * TRIMMABLE_SHARE);
+    const share = Math.max(0, Math.floor(available / trimmable.length));
+    for (const block of trimmable) {
+      const lines = trimBlock(block, share);
+      if (lines !== block.lines) report.shortened.push({ kind: block.kind, label: block.label });
+      kept.set(block, lines);
+    }
+  }
+  for (const block of required) keep(block, kept.get(block) ?? block.lines);
+
+  const optional = blocks
+    .filter((b) => b.priority !== PRIORITY.required)
+    .sort((a, b) => a.priority - b.priority);
+  for (const block of optional) {
+    const fits = (lines: string[]): boolean => used + sectionCost(block.section) + linesTokens(lines) <= maxTokens;
+    if (fits(block.lines)) {
+      keep(block, block.lines);
+    } else if (block.fallback && fits(block.fallback)) {
+      keep(block, block.fallback);
+      report.shortened.push({ kind: block.kind, label: block.label });
+    } else {
+      report.dropped.push({ kind: block.kind, label: block.label });
+    }
+  }
+
+  const lines = assemble(blocks, kept);
+  report.usedTokens = estimateTokens(lines.join('\n'));
+  return lines;
+}
+
+/** Labels listed per kind in the report */
+const MAX_REPORT_LABELS = 3;
+
+/** "2 source files (src/a.ts, src/b.ts)" */
+function summarize(entries: Array<{ kind: string; label: string }>): string {
+  const byKind = new Map<string, string[]>();
+  for (const { kind, label } of entries) {
+    const labels = byKind.get(kind);
+    if (labels) labels.push(label);
+    else byKind.set(kind, [label]);
+  }
+  return Array.from(byKind, ([kind, labels]) => {
+    const shown = labels.slice(0, MAX_REPORT_LABELS).join(', ');
+    const more = labels.length > MAX_REPORT_LABELS ? `, +${String(labels.length - MAX_REPORT_LABELS)} more` : '';
+    return `${String(labels.length)} ${kind}${labels.length === 1 ? '' : 's'} (${shown}${more})`;
+  }).join(', ');
+}
+
+/**
+ * Formats the stderr report, e.g.
+ * "Token budget: ~3980 of 4000 tokens used; dropped 2 source files (src/a.ts, src/b.ts)".
+ */
+export function formatBudgetReport(report: BudgetReport, maxTokens: number): string {
+  const parts = [`Token budget: ~${String(report.usedTokens)} of ${String(maxTokens)} tokens used`];
+  if (report.dropped.length > 0) parts.push(`dropped ${summarize(report.dropped)}`);
+  if (report.shortened.length > 0) parts.push(`shortened ${summarize(report.shortened)}`);
+  if (parts.length === 1) parts.push('nothing dropped');
+  return parts.join('; ');
+}
@@ -0,0 +1,81 @@
+import { execSync } from 'child_process';
+
+/**
+ * Validates path-looking tokens from a CI log against the files tracked in git.
+ *
+ * The built-in prefix list in extractFilePaths (src/, lib/, packages/, ...)
+ * misses layouts like server/, cmd/, internal/ and root-level files such as
+ * vite.config.ts, and it happily accepts paths that don't exist in the repo.
+ * Checking against `git ls-files` fixes both: any tracked file can be found,
+ * and nothing else counts.
+ */
+
+/** Tracked files indexed by basename for suffix lookups */
+export interface TrackedFiles {
+  byBasename: Map<string, string[]>;
+}
+
+/**
+ * Lists the files tracked in the git repo at `cwd` (repo-relative, "/"-separated).
+ */
+export function listTrackedFiles(cwd: string = process.cwd()): string[] {
+  try {
+    const output = execSync('git ls-files -z', {
+      cwd,
+      stdio: 'pipe',
+      maxBuffer: 50 * 1024 * 1024, // 50 MB
+    });
+    return output.toString().split('\0').filter(Boolean);
+  } catch (err: unknown) {
+    const raw = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to list tracked files with git ls-files (is this a git repository?): ${raw}`);
+  }
+}
+
+/** Builds the lookup index for resolveTrackedPath() */
+export function createTrackedFileIndex(files: string[]): TrackedFiles {
+  const byBasename = new Map<string, string[]>();
+  for (const file of files) {
+    const base = file.slice(file.lastIndexOf('/') + 1);
+    const entry = byBasename.get(base);
+    if (entry) {
+      entry.push(file);
+    } else {
+      byBasename.set(base, [file]);
+    }
+  }
+  return { byBasename };
+}
+
+/**
+ * Resolves a path token from a log to a tracked file.
+ *
+ * Matches, in order:
+ * 1. Exact path (after dropping a leading ./ and normalizing backslashes)
+ * 2. Partial path: the token is a trailing part of exactly one tracked file
+ *    ("core/src/x.ts" → "packages/core/src/x.ts")
+ * 3. Longer path: a tracked file is a trailing part of the token
+ *    ("/tmp/build/src/x.ts" → "src/x.ts"); the longest such file wins
+ *
+ * Ambiguous partial paths (a bare "index.ts" in a monorepo) resolve to nothing.
+ *
+ * @param token - File path without a line/column suffix
+ * @returns The tracked repo-relative path, or undefined
+ */
+export function resolveTrackedPath(token: string, tracked: TrackedFiles): string | undefined {
+  const path = token.replace(/\\/g, '/').replace(/^\.\//, '');
+  const base = path.slice(path.lastIndexOf('/') + 1);
+  const candidates = tracked.byBasename.get(base);
+  if (!candidates) return undefined;
+
+  if (candidates.includes(path)) return path;
+
+  const partial = candidates.filter((file) => file.endsWith(`/${path}`));
+  if (partial.length === 1) return partial[0];
+  if (partial.length > 1) return undefined;
+
+  const longer = candidates
+    .filter((file) => path.endsWith(`/${file}`))
+    .sort((a, b) => b.length - a.length);
+  return longer.length > 0 ? longer[0] : undefined;
+}
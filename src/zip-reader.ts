@@ -0,0 +1,90 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * A single file extracted from a zip archive.
+ */
+export interface ZipEntry {
+  /** Path inside the archive, always with forward slashes */
+  name: string;
+  /** Decompressed file content */
+  content: Buffer;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** Compression methods used by GitHub's log archives */
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Locates the End Of Central Directory record by scanning backwards.
+ * The record is at least 22 bytes and may be followed by a comment of up to 64 KiB.
+ */
+function findEndOfCentralDirectory(buf: Buffer): number {
+  const minOffset = Math.max(0, buf.length - 22 - 0xffff);
+  for (let i = buf.length - 22; i >= minOffset; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) {
+      return i;
+    }
+  }
+  throw new Error('Invalid zip archive: end of central directory not found');
+}
+
+/**
+ * Reads all file entries from a zip archive held in memory.
+ *
+ * Supports the subset GitHub uses for run log archives: stored and deflated
+ * entries, no encryption, no zip64. Directory entries are skipped.
+ */
+export function readZipEntries(buf: Buffer): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(buf);
+  const entryCount = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+
+  const entries: ZipEntry[] = [];
+
+  for (let n = 0; n < entryCount; n++) {
+    if (offset + 46 > buf.length || buf.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString('utf-8')
+      .replace(/\\/g, '/');
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    if (buf.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid zip archive: bad local header for ${name}`);
+    }
+    // Local header name/extra lengths can differ from the central directory copy
+    const localNameLength = buf.readUInt16LE(localOffset + 26);
+    const localExtraLength = buf.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = buf.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === METHOD_STORED) {
+      content = Buffer.from(data);
+    } else if (method === METHOD_DEFLATE) {
+      content = inflateRawSync(data);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    entries.push({ name, content });
+  }
+
+  return entries;
+}